@@ -25,6 +25,24 @@ export const ENDPOINT_MAPPINGS = {
   }
 } as const;
 
+// 各端点的 HTTP 方法：Connect RPC 一律 POST，cursor-api 的配置和模型列表是 GET
+export const ENDPOINT_METHODS = {
+  [EndpointType.OFFICIAL]: {
+    streamCpp: 'POST',
+    cppConfig: 'POST',
+    availableModels: 'POST',
+    uploadFile: 'POST',
+    syncFile: 'POST'
+  },
+  [EndpointType.SELF_HOSTED]: {
+    streamCpp: 'POST',
+    cppConfig: 'GET',
+    availableModels: 'GET',
+    uploadFile: 'POST',
+    syncFile: 'POST'
+  }
+} as const;
+
 export const DEFAULT_ENDPOINTS: Record<EndpointType, string> = {
   [EndpointType.OFFICIAL]: 'https://api2.cursor.sh',
   [EndpointType.SELF_HOSTED]: 'http://localhost:8000' // 默认自部署地址
@@ -37,4 +55,11 @@ export function getEndpointUrl(
 ): string {
   const path = ENDPOINT_MAPPINGS[endpointType][endpoint];
   return `${baseUrl.replace(/\/$/, '')}${path}`;
-}
\ No newline at end of file
+}
+
+export function getEndpointMethod(
+  endpointType: EndpointType,
+  endpoint: keyof typeof ENDPOINT_METHODS[EndpointType.OFFICIAL]
+): 'GET' | 'POST' {
+  return ENDPOINT_METHODS[endpointType][endpoint];
+}
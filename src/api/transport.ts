@@ -0,0 +1,260 @@
+import type { PromiseClient } from "@connectrpc/connect";
+import type { JsonValue } from "@bufbuild/protobuf";
+import { AiService, CppService } from "../generated/cpp_connect";
+import { FileSyncService } from "../generated/fs_connect";
+import {
+  StreamCppRequest,
+  StreamCppResponse,
+  CppConfigRequest,
+  CppConfigResponse,
+  AvailableCppModelsRequest,
+  AvailableCppModelsResponse,
+  CppAppendRequest,
+  CppAppendResponse
+} from "../generated/cpp_pb";
+import {
+  FSUploadFileRequest,
+  FSUploadFileResponse,
+  FSSyncFileRequest,
+  FSSyncFileResponse,
+  FSIsEnabledForUserRequest,
+  FSIsEnabledForUserResponse,
+  FSConfigRequest,
+  FSConfigResponse
+} from "../generated/fs_pb";
+import { EndpointType, getEndpointMethod, getEndpointUrl } from './endpoints';
+import { SSEParser, type SSEMessage } from '../utils/sse-parser';
+import { Logger } from '../utils/logger';
+
+/**
+ * 单次调用的选项
+ */
+export interface TransportCallOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * 补全相关 RPC 的传输层
+ *
+ * 官方端点走 Connect RPC，自部署的 cursor-api 走 ENDPOINT_MAPPINGS 中的 REST 路径，
+ * 两者对调用方都暴露同样的 protobuf 消息类型
+ */
+export interface CppTransport {
+  readonly type: EndpointType;
+  streamCpp(request: StreamCppRequest, options?: TransportCallOptions): AsyncIterable<StreamCppResponse>;
+  cppConfig(request: CppConfigRequest, options?: TransportCallOptions): Promise<CppConfigResponse>;
+  availableModels(request: AvailableCppModelsRequest, options?: TransportCallOptions): Promise<AvailableCppModelsResponse>;
+  uploadFile(request: FSUploadFileRequest, options?: TransportCallOptions): Promise<FSUploadFileResponse>;
+  syncFile(request: FSSyncFileRequest, options?: TransportCallOptions): Promise<FSSyncFileResponse>;
+  // 以下 RPC 在自部署 cursor-api 中没有对应的 REST 路径，未实现时调用方应跳过
+  fileSyncEnabledForUser?(request: FSIsEnabledForUserRequest, options?: TransportCallOptions): Promise<FSIsEnabledForUserResponse>;
+  fileSyncConfig?(request: FSConfigRequest, options?: TransportCallOptions): Promise<FSConfigResponse>;
+  cppAppend?(request: CppAppendRequest, options?: TransportCallOptions): Promise<CppAppendResponse>;
+}
+
+/**
+ * 官方端点：直接转发给 Connect RPC 服务客户端
+ */
+export class ConnectRpcTransport implements CppTransport {
+  readonly type = EndpointType.OFFICIAL;
+
+  constructor(
+    private aiClient: PromiseClient<typeof AiService>,
+    private cppClient: PromiseClient<typeof CppService>,
+    private fileSyncClient: PromiseClient<typeof FileSyncService>
+  ) {}
+
+  streamCpp(request: StreamCppRequest, options?: TransportCallOptions): AsyncIterable<StreamCppResponse> {
+    return this.aiClient.streamCpp(request, options);
+  }
+
+  cppConfig(request: CppConfigRequest, options?: TransportCallOptions): Promise<CppConfigResponse> {
+    return this.aiClient.cppConfig(request, options);
+  }
+
+  availableModels(request: AvailableCppModelsRequest, options?: TransportCallOptions): Promise<AvailableCppModelsResponse> {
+    return this.cppClient.availableModels(request, options);
+  }
+
+  uploadFile(request: FSUploadFileRequest, options?: TransportCallOptions): Promise<FSUploadFileResponse> {
+    return this.fileSyncClient.fSUploadFile(request, options);
+  }
+
+  syncFile(request: FSSyncFileRequest, options?: TransportCallOptions): Promise<FSSyncFileResponse> {
+    return this.fileSyncClient.fSSyncFile(request, options);
+  }
+
+  fileSyncEnabledForUser(request: FSIsEnabledForUserRequest, options?: TransportCallOptions): Promise<FSIsEnabledForUserResponse> {
+    return this.fileSyncClient.fSIsEnabledForUser(request, options);
+  }
+
+  fileSyncConfig(request: FSConfigRequest, options?: TransportCallOptions): Promise<FSConfigResponse> {
+    return this.fileSyncClient.fSConfig(request, options);
+  }
+
+  cppAppend(request: CppAppendRequest, options?: TransportCallOptions): Promise<CppAppendResponse> {
+    return this.aiClient.cppAppend(request, options);
+  }
+}
+
+/**
+ * 自部署 cursor-api：JSON 请求体 + REST 路径，StreamCpp 响应使用 SSEParser 的分帧格式
+ */
+export class SelfHostedRestTransport implements CppTransport {
+  readonly type = EndpointType.SELF_HOSTED;
+  private logger: Logger;
+  private sseParser: SSEParser;
+
+  constructor(
+    private baseUrl: string,
+    private authToken: string,
+    private clientKey: string,
+    private timeoutMs: number = 15000
+  ) {
+    this.logger = Logger.getInstance();
+    this.sseParser = new SSEParser();
+  }
+
+  async *streamCpp(request: StreamCppRequest, options?: TransportCallOptions): AsyncIterable<StreamCppResponse> {
+    const response = await fetch(this.getUrl('streamCpp'), {
+      method: getEndpointMethod(EndpointType.SELF_HOSTED, 'streamCpp'),
+      headers: this.getHeaders(options),
+      body: request.toJsonString(),
+      signal: options?.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    if (!response.body) {
+      throw new Error('No response body received');
+    }
+
+    for await (const message of this.sseParser.parseSSEStream(response.body)) {
+      if (message.type === 'error') {
+        throw new Error(`cursor-api 错误: ${typeof message.data === 'string' ? message.data : JSON.stringify(message.data)}`);
+      }
+      if (message.type === 'cancel') {
+        return;
+      }
+
+      const converted = toStreamCppResponse(message);
+      if (converted) {
+        yield converted;
+      }
+    }
+  }
+
+  async cppConfig(request: CppConfigRequest, options?: TransportCallOptions): Promise<CppConfigResponse> {
+    return CppConfigResponse.fromJson(await this.fetchJson('cppConfig', request.toJsonString(), options), { ignoreUnknownFields: true });
+  }
+
+  async availableModels(request: AvailableCppModelsRequest, options?: TransportCallOptions): Promise<AvailableCppModelsResponse> {
+    return AvailableCppModelsResponse.fromJson(await this.fetchJson('availableModels', request.toJsonString(), options), { ignoreUnknownFields: true });
+  }
+
+  async uploadFile(request: FSUploadFileRequest, options?: TransportCallOptions): Promise<FSUploadFileResponse> {
+    return FSUploadFileResponse.fromJson(await this.fetchJson('uploadFile', request.toJsonString(), options), { ignoreUnknownFields: true });
+  }
+
+  async syncFile(request: FSSyncFileRequest, options?: TransportCallOptions): Promise<FSSyncFileResponse> {
+    return FSSyncFileResponse.fromJson(await this.fetchJson('syncFile', request.toJsonString(), options), { ignoreUnknownFields: true });
+  }
+
+  private getUrl(endpoint: 'streamCpp' | 'cppConfig' | 'availableModels' | 'uploadFile' | 'syncFile'): string {
+    return getEndpointUrl(EndpointType.SELF_HOSTED, this.baseUrl, endpoint);
+  }
+
+  /**
+   * 自部署端点使用 x-client-key 而不是 x-cursor-checksum，调用方传入的请求头覆盖默认值
+   */
+  private getHeaders(options?: TransportCallOptions): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'connectrpc/1.6.1'
+    };
+    if (this.authToken) {
+      headers['Authorization'] = `Bearer ${this.authToken}`;
+    }
+    if (this.clientKey) {
+      headers['x-client-key'] = this.clientKey;
+    }
+    return { ...headers, ...options?.headers };
+  }
+
+  /**
+   * 按 ENDPOINT_METHODS 中的方法发送请求，GET 请求不带请求体
+   */
+  private async fetchJson(endpoint: Parameters<SelfHostedRestTransport['getUrl']>[0], body: string, options?: TransportCallOptions): Promise<JsonValue> {
+    const method = getEndpointMethod(EndpointType.SELF_HOSTED, endpoint);
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(() => timeoutController.abort(), this.timeoutMs);
+    const abortOnCaller = () => timeoutController.abort();
+    options?.signal?.addEventListener('abort', abortOnCaller);
+
+    try {
+      const url = this.getUrl(endpoint);
+      this.logger.debug(`🌐 自部署 REST 请求: ${method} ${url}`);
+
+      const response = await fetch(url, {
+        method,
+        headers: this.getHeaders(options),
+        body: method === 'GET' ? undefined : body,
+        signal: timeoutController.signal
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return await response.json() as JsonValue;
+    } finally {
+      clearTimeout(timeoutId);
+      options?.signal?.removeEventListener('abort', abortOnCaller);
+    }
+  }
+}
+
+/**
+ * 将 cursor-api 的 SSE 消息转换为 StreamCppResponse，心跳/调试消息返回 null
+ */
+export function toStreamCppResponse(message: SSEMessage): StreamCppResponse | null {
+  switch (message.type) {
+    case 'text':
+      return new StreamCppResponse({ text: String(message.data ?? '') });
+    case 'model_info':
+      return StreamCppResponse.fromJson({ modelInfo: message.data }, { ignoreUnknownFields: true });
+    case 'range_replace':
+      return StreamCppResponse.fromJson({ rangeToReplace: message.data }, { ignoreUnknownFields: true });
+    case 'cursor_prediction':
+      return StreamCppResponse.fromJson({ cursorPredictionTarget: message.data }, { ignoreUnknownFields: true });
+    case 'done_edit':
+      return new StreamCppResponse({ doneEdit: true });
+    case 'done_stream':
+      return new StreamCppResponse({ doneStream: true });
+    case 'protobuf_message':
+      // SSEParser 解码失败时保留原始字节
+      return message.data instanceof Uint8Array
+        ? StreamCppResponse.fromBinary(message.data)
+        : StreamCppResponse.fromJson(message.data, { ignoreUnknownFields: true });
+    default:
+      return null;
+  }
+}
+
+/**
+ * 根据端点类型创建传输层
+ */
+export function createCppTransport(
+  endpointType: EndpointType,
+  connectClients: {
+    aiClient: PromiseClient<typeof AiService>;
+    cppClient: PromiseClient<typeof CppService>;
+    fileSyncClient: PromiseClient<typeof FileSyncService>;
+  },
+  restOptions: { baseUrl: string; authToken: string; clientKey: string; timeoutMs?: number }
+): CppTransport {
+  if (endpointType === EndpointType.SELF_HOSTED) {
+    return new SelfHostedRestTransport(restOptions.baseUrl, restOptions.authToken, restOptions.clientKey, restOptions.timeoutMs);
+  }
+  return new ConnectRpcTransport(connectClients.aiClient, connectClients.cppClient, connectClients.fileSyncClient);
+}
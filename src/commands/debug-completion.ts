@@ -6,9 +6,12 @@ import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
 import { ConfigManager } from '../utils/config';
 import { ConnectRpcApiClient } from '../core/connect-rpc-api-client';
+import { ContentGuard } from '../core/content-guard';
+import { formatContextReport } from '../core/context-assembler';
+import type { CursorCompletionProvider } from '../core/completion-provider';
 import type { CompletionRequest } from '../types';
 
-export async function debugCompletionCommand(): Promise<void> {
+export async function debugCompletionCommand(completionProvider?: CursorCompletionProvider): Promise<void> {
   const logger = Logger.getInstance();
   
   try {
@@ -39,21 +42,26 @@ export async function debugCompletionCommand(): Promise<void> {
       baseUrl: config.serverUrl,
       authToken: config.authToken,
       clientKey: config.clientKey,
+      endpointType: config.endpointType,
       timeout: 30000
     });
     
-    // 4. 构建补全请求
-    const request: CompletionRequest = {
+    // 4. 构建补全请求：优先使用与实际补全相同的上下文收集流程，否则只发送当前文件（同样隐去密钥）
+    const tokenSource = new vscode.CancellationTokenSource();
+    const fullRequest = await completionProvider?.buildCompletionRequest(document, position, tokenSource.token);
+    tokenSource.dispose();
+    const content = ContentGuard.getInstance().redactContent(document.fileName, document.getText()).content;
+    const request: CompletionRequest = fullRequest ? { ...fullRequest, debugOutput: true } : {
       currentFile: {
         path: document.fileName,
-        content: document.getText(),
+        content,
         sha256: 'test-hash' // 简化版本，实际应该计算真实hash
       },
       cursorPosition: {
         line: position.line,
         column: position.character
       },
-      context: document.getText(),
+      context: content,
       modelName: config.model || 'auto',
       debugOutput: true,
       additionalFiles: []
@@ -89,7 +97,11 @@ export async function debugCompletionCommand(): Promise<void> {
         }
       }
       
-      // 6. 显示结果
+      // 6. 显示结果和发送的上下文
+      const contextReport = apiClient.getLastContextReport();
+      const contextLines = contextReport ? formatContextReport(contextReport) : [];
+      contextLines.forEach(line => logger.info(line));
+      
       if (totalText) {
         const result = `✅ 补全成功！
 📊 响应数量: ${responseCount}
@@ -101,8 +113,9 @@ ${totalText}`;
         vscode.window.showInformationMessage('✅ 调试完成，请查看输出面板');
         
         // 在新的文档中显示补全内容
+        const contextHeader = contextLines.map(line => `// ${line}\n`).join('');
         const newDocument = await vscode.workspace.openTextDocument({
-          content: `// 代码补全调试结果\n// 原文件: ${document.fileName}\n// 光标位置: ${position.line}:${position.character}\n\n${totalText}`,
+          content: `// 代码补全调试结果\n// 原文件: ${document.fileName}\n// 光标位置: ${position.line}:${position.character}\n${contextHeader}\n${totalText}`,
           language: document.languageId
         });
         
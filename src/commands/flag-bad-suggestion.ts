@@ -0,0 +1,60 @@
+/**
+ * 反馈问题补全命令（MarkCppForEval）
+ */
+
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { MarkCppRequest_CppResponseTypes } from '../generated/cpp_pb';
+import { getCppFateReporter } from '../core/cpp-fate-reporter';
+
+export async function flagBadSuggestionCommand(): Promise<void> {
+  const logger = Logger.getInstance();
+
+  try {
+    const fateReporter = getCppFateReporter();
+    const suggestion = fateReporter?.getLastSuggestion();
+    if (!fateReporter || !suggestion) {
+      vscode.window.showWarningMessage('没有可以反馈的补全建议');
+      return;
+    }
+
+    const preview = suggestion.text.split('\n')[0].substring(0, 60);
+    const reasonOptions = [
+      { label: '$(thumbsdown) 质量差', description: '补全内容整体不好', value: MarkCppRequest_CppResponseTypes.BAD },
+      { label: '$(references) 上下文错误', description: '没有正确理解周围代码', value: MarkCppRequest_CppResponseTypes.BAD_CONTEXT },
+      { label: '$(lightbulb) 逻辑错误', description: '推理或实现逻辑有误', value: MarkCppRequest_CppResponseTypes.BAD_REASONING },
+      { label: '$(bug) 低级错误', description: '拼写、语法等明显错误', value: MarkCppRequest_CppResponseTypes.BAD_STUPID_MISTAKE },
+      { label: '$(whitespace) 格式错误', description: '缩进、换行等格式问题', value: MarkCppRequest_CppResponseTypes.BAD_FORMATTING },
+      { label: '$(selection) 范围错误', description: '替换了不该修改的代码', value: MarkCppRequest_CppResponseTypes.BAD_RANGE },
+      { label: '$(debug-disconnect) 不该触发', description: '此处不需要补全', value: MarkCppRequest_CppResponseTypes.BAD_FALSE_POSITIVE_TRIGGER }
+    ];
+
+    const selected = await vscode.window.showQuickPick(reasonOptions, {
+      title: '🚩 反馈问题补全',
+      placeHolder: `最近的补全: ${preview}${suggestion.text.length > preview.length ? '…' : ''}`
+    });
+    if (!selected) {
+      return;
+    }
+
+    const desiredCompletion = await vscode.window.showInputBox({
+      title: '期望的补全内容（可选）',
+      prompt: '输入你期望得到的补全，留空则跳过'
+    });
+    if (desiredCompletion === undefined) {
+      return;
+    }
+
+    const success = await fateReporter.markForEval(suggestion, selected.value, desiredCompletion || undefined);
+    if (success) {
+      logger.info(`🚩 已反馈问题补全: ${suggestion.bindingId}`);
+      vscode.window.showInformationMessage('✅ 感谢反馈，已提交问题补全');
+    } else {
+      vscode.window.showErrorMessage('❌ 反馈提交失败，请查看日志了解详情');
+    }
+
+  } catch (error) {
+    logger.error('❌ 反馈问题补全失败', error as Error);
+    vscode.window.showErrorMessage(`❌ 反馈问题补全失败: ${(error as Error).message}`);
+  }
+}
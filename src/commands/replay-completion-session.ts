@@ -0,0 +1,115 @@
+/**
+ * 回放录制的补全会话命令
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import type { CursorCompletionProvider } from '../core/completion-provider';
+import { getSessionRecorder, replayRecordedResponses, type RecordedCompletionSession } from '../core/session-recorder';
+
+interface SessionPickItem extends vscode.QuickPickItem {
+  session?: RecordedCompletionSession;
+  action?: 'open' | 'clear';
+}
+
+/**
+ * 录制的补全文本摘要
+ */
+function summarizeSession(session: RecordedCompletionSession): string {
+  const text = session.responses
+    .map(response => (response.message as { text?: string } | null)?.text ?? '')
+    .join('');
+  const firstLine = text.split('\n').find(line => line.trim().length > 0)?.trim() ?? '(无文本)';
+  return firstLine.length > 60 ? `${firstLine.substring(0, 60)}…` : firstLine;
+}
+
+export async function replayCompletionSessionCommand(completionProvider: CursorCompletionProvider): Promise<void> {
+  const logger = Logger.getInstance();
+
+  try {
+    const recorder = getSessionRecorder();
+    if (!recorder) {
+      vscode.window.showWarningMessage('补全会话录制器未初始化');
+      return;
+    }
+
+    const sessions = await recorder.loadSessions();
+    if (sessions.length === 0) {
+      const enable = ConfigManager.getConfig().recordCompletionSessions ? undefined : '开启录制';
+      const choice = await vscode.window.showInformationMessage('还没有录制的补全会话', ...(enable ? [enable] : []));
+      if (choice === enable && enable) {
+        await ConfigManager.updateConfig('recordCompletionSessions', true);
+        vscode.window.showInformationMessage('✅ 已开启补全会话录制');
+      }
+      return;
+    }
+
+    const items: SessionPickItem[] = sessions.map(session => ({
+      label: `$(history) ${path.basename(session.filePath)}:${session.cursor.line + 1}`,
+      description: new Date(session.recordedAt).toLocaleString(),
+      detail: `${summarizeSession(session)} · ${session.responses.length} 条响应 · ${session.durationMs}ms${session.error ? ' · ❌ 出错' : ''}`,
+      session
+    }));
+    items.push(
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      { label: '$(go-to-file) 打开录制文件', action: 'open' },
+      { label: '$(trash) 删除所有录制', action: 'clear' }
+    );
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: '🎬 回放补全会话',
+      placeHolder: `共 ${sessions.length} 个录制的会话`,
+      matchOnDetail: true
+    });
+    if (!selected) {
+      return;
+    }
+
+    if (selected.action === 'open') {
+      await vscode.window.showTextDocument(vscode.Uri.file(recorder.getRecordingPath()));
+      return;
+    }
+    if (selected.action === 'clear') {
+      await recorder.clear();
+      vscode.window.showInformationMessage('🗑️ 已删除所有补全会话录制');
+      return;
+    }
+
+    const session = selected.session;
+    if (!session) {
+      return;
+    }
+
+    const timing = await vscode.window.showQuickPick([
+      { label: '$(zap) 立即回放', preserveTiming: false },
+      { label: '$(watch) 按录制的时间间隔回放', preserveTiming: true }
+    ], { title: '回放方式' });
+    if (!timing) {
+      return;
+    }
+
+    // 在未保存的文档中还原触发时的内容，避免修改真实文件
+    const languages = await vscode.languages.getLanguages();
+    const document = await vscode.workspace.openTextDocument({
+      language: languages.includes(session.languageId) ? session.languageId : 'plaintext',
+      content: session.content
+    });
+    const editor = await vscode.window.showTextDocument(document);
+
+    const line = Math.min(session.cursor.line, document.lineCount - 1);
+    const position = new vscode.Position(line, Math.min(session.cursor.column, document.lineAt(line).text.length));
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+
+    completionProvider.prepareReplay(document, replayRecordedResponses(session, timing.preserveTiming));
+    await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+
+    logger.info(`🎬 回放补全会话: ${session.filePath} (${session.recordedAt}, ${session.responses.length} 条响应)`);
+
+  } catch (error) {
+    logger.error('❌ 回放补全会话失败', error as Error);
+    vscode.window.showErrorMessage(`❌ 回放补全会话失败: ${(error as Error).message}`);
+  }
+}
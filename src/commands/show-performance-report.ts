@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
 import { getPerformanceMonitor } from '../utils/performance-monitor';
+import { getCursorPredictionManager } from '../core/cursor-prediction-manager';
+import { getImportPredictionManager } from '../core/import-prediction-manager';
+import { getCppFateReporter } from '../core/cpp-fate-reporter';
+import { SuggestionFilterPipeline } from '../core/suggestion-filters';
+import { RejectedEditMemory } from '../core/rejected-edit-memory';
 
 /**
  * 显示性能报告命令
@@ -84,6 +89,47 @@ export async function showPerformanceReport(): Promise<void> {
     reportLines.push(`   • 平均交互延迟: ${avgLatency.toFixed(0)}ms`);
     reportLines.push('');
     
+    // 补全结果上报
+    const cppFateReporter = getCppFateReporter();
+    if (cppFateReporter) {
+      const fateStats = cppFateReporter.getStats();
+      reportLines.push('📮 补全结果上报:');
+      reportLines.push(`   • 接受/部分接受/拒绝: ${fateStats.accepted}/${fateStats.partiallyAccepted}/${fateStats.rejected}`);
+      reportLines.push(`   • 待定: ${fateStats.pending}, 反馈评估: ${fateStats.markedForEval}`);
+      reportLines.push('');
+    }
+    
+    // 启发式过滤
+    const filterStats = SuggestionFilterPipeline.getInstance().getStats();
+    reportLines.push('🚫 启发式过滤 (检查/过滤):');
+    filterStats.forEach(stat => {
+      reportLines.push(`   • ${stat.heuristic}${stat.enabled ? '' : ' (未启用)'}: ${stat.checked}/${stat.suppressed}`);
+    });
+    const rejectionStats = RejectedEditMemory.getInstance().getStats();
+    reportLines.push(`   • 拒绝记忆: 记录 ${rejectionStats.recorded}, 抑制 ${rejectionStats.suppressed}, 退避 ${rejectionStats.backoffs} 次 (当前连续清除 ${rejectionStats.consecutiveClears})`);
+    reportLines.push('');
+    
+    // 光标预测
+    const cursorPredictionManager = getCursorPredictionManager();
+    if (cursorPredictionManager) {
+      const predictionStats = cursorPredictionManager.getStats();
+      reportLines.push('🎯 光标预测:');
+      reportLines.push(`   • 显示次数: ${predictionStats.suggested}`);
+      reportLines.push(`   • 接受/拒绝: ${predictionStats.accepted}/${predictionStats.rejected}`);
+      reportLines.push(`   • 接受率: ${(predictionStats.acceptanceRate * 100).toFixed(1)}%`);
+      reportLines.push('');
+    }
+    
+    // 导入预测
+    const importPredictionManager = getImportPredictionManager();
+    if (importPredictionManager) {
+      const importStats = importPredictionManager.getStats();
+      reportLines.push('📦 导入预测:');
+      reportLines.push(`   • 检查/显示次数: ${importStats.checked}/${importStats.suggested}`);
+      reportLines.push(`   • 接受/拒绝: ${importStats.accepted}/${importStats.rejected}`);
+      reportLines.push('');
+    }
+    
     // 性能警告
     if (report.warnings.length > 0) {
       reportLines.push('⚠️ 性能警告:');
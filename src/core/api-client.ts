@@ -37,6 +37,7 @@ export class CursorApiClient {
         authToken: config.authToken,
         clientKey: config.clientKey,
         gcppHost: config.gcppHost,
+        endpointType: config.endpointType,
         timeout: 30000
       });
       this.logger.info('✅ 使用 Connect RPC 实现');
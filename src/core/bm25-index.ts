@@ -0,0 +1,205 @@
+import type { RetrievedChunk } from '../types';
+
+/**
+ * 代码块：文件中连续的若干行（行号从 0 开始，结束行包含在内）
+ */
+export interface CodeChunk {
+  relativePath: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+interface IndexedChunk {
+  chunk: CodeChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+const CHUNK_LINES = 30;
+const CHUNK_STRIDE = 15;
+const MAX_CHUNK_CHARS = 3000;
+
+// 各语言常见的关键字，几乎出现在每个代码块中，对排序没有帮助
+const STOP_WORDS = new Set([
+  'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'in', 'of', 'is', 'as',
+  'import', 'from', 'export', 'default', 'class', 'def', 'self', 'this', 'new', 'true', 'false', 'null',
+  'none', 'undefined', 'public', 'private', 'protected', 'static', 'void', 'async', 'await', 'try', 'catch',
+  'the', 'and', 'or', 'not', 'to', 'string', 'number', 'int', 'type', 'interface'
+]);
+
+/**
+ * 将代码拆分为检索词：标识符整体以及按驼峰/下划线拆分的子词，统一小写
+ */
+export function tokenizeCode(text: string): string[] {
+  const tokens: string[] = [];
+  for (const identifier of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(part => part);
+    const words = parts.length > 1 ? [identifier, ...parts] : [identifier];
+    for (const word of words) {
+      const token = word.toLowerCase();
+      if (token.length >= 2 && !STOP_WORDS.has(token)) {
+        tokens.push(token);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 按固定行数的重叠窗口切分文件，跳过只有空白的代码块
+ */
+export function chunkFile(relativePath: string, content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const chunks: CodeChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_STRIDE) {
+    const end = Math.min(lines.length, start + CHUNK_LINES) - 1;
+    const text = lines.slice(start, end + 1).join('\n');
+    if (text.trim()) {
+      chunks.push({ relativePath, startLine: start, endLine: end, content: text.substring(0, MAX_CHUNK_CHARS) });
+    }
+    if (end === lines.length - 1) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * 工作区代码块的 BM25 倒排索引，按文件增量更新
+ */
+export class Bm25Index {
+  private chunks = new Map<number, IndexedChunk>();
+  private fileChunks = new Map<string, number[]>(); // 相对路径 -> 代码块 ID
+  private postings = new Map<string, Set<number>>(); // 检索词 -> 包含它的代码块 ID
+  private totalLength = 0;
+  private nextId = 0;
+
+  private readonly K1 = 1.2;
+  private readonly B = 0.75;
+
+  /**
+   * 已索引的文件数
+   */
+  get fileCount(): number {
+    return this.fileChunks.size;
+  }
+
+  /**
+   * 添加或替换文件的全部代码块
+   */
+  setFile(relativePath: string, content: string): void {
+    this.removeFile(relativePath);
+
+    const ids: number[] = [];
+    for (const chunk of chunkFile(relativePath, content)) {
+      const tokens = tokenizeCode(chunk.content);
+      if (tokens.length === 0) {
+        continue;
+      }
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+
+      const id = this.nextId++;
+      this.chunks.set(id, { chunk, termFrequencies, length: tokens.length });
+      this.totalLength += tokens.length;
+      for (const term of termFrequencies.keys()) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Set();
+          this.postings.set(term, posting);
+        }
+        posting.add(id);
+      }
+      ids.push(id);
+    }
+    if (ids.length > 0) {
+      this.fileChunks.set(relativePath, ids);
+    }
+  }
+
+  removeFile(relativePath: string): void {
+    for (const id of this.fileChunks.get(relativePath) ?? []) {
+      const indexed = this.chunks.get(id);
+      if (!indexed) {
+        continue;
+      }
+      for (const term of indexed.termFrequencies.keys()) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.totalLength -= indexed.length;
+      this.chunks.delete(id);
+    }
+    this.fileChunks.delete(relativePath);
+  }
+
+  /**
+   * 移除路径以指定前缀开头的所有文件（用于目录被删除或重命名）
+   */
+  removeByPrefix(prefix: string): void {
+    for (const relativePath of Array.from(this.fileChunks.keys())) {
+      if (relativePath.startsWith(prefix)) {
+        this.removeFile(relativePath);
+      }
+    }
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.fileChunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * 检索与查询文本最相关的代码块；同一文件中重叠的代码块只保留得分最高的一个
+   *
+   * @param excludePath 排除的文件（通常是当前文件，其内容已随请求发送）
+   */
+  search(query: string, limit: number, excludePath?: string): RetrievedChunk[] {
+    const terms = Array.from(new Set(tokenizeCode(query))).filter(term => this.postings.has(term));
+    if (terms.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const chunkCount = this.chunks.size;
+    const averageLength = this.totalLength / chunkCount;
+    const scores = new Map<number, number>();
+    for (const term of terms) {
+      const posting = this.postings.get(term)!;
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const id of posting) {
+        const indexed = this.chunks.get(id)!;
+        const frequency = indexed.termFrequencies.get(term)!;
+        const normalization = this.K1 * (1 - this.B + this.B * indexed.length / averageLength);
+        scores.set(id, (scores.get(id) ?? 0) + idf * frequency * (this.K1 + 1) / (frequency + normalization));
+      }
+    }
+
+    const results: RetrievedChunk[] = [];
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+    for (const [id, score] of ranked) {
+      if (results.length >= limit) {
+        break;
+      }
+      const { chunk } = this.chunks.get(id)!;
+      if (chunk.relativePath === excludePath) {
+        continue;
+      }
+      const overlaps = results.some(result => result.relativePath === chunk.relativePath &&
+        result.startLine <= chunk.endLine && chunk.startLine <= result.endLine);
+      if (!overlaps) {
+        results.push({ ...chunk, score });
+      }
+    }
+    return results;
+  }
+}
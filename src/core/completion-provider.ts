@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import type { CompletionRequest, CompletionResponse, SSEEventType } from '../types';
+import * as path from 'path';
+import type { CompletionRequest, CompletionResponse, CursorPredictionTarget, DataframeSchema, SSEEventType } from '../types';
 import { Logger } from '../utils/logger';
 import { ConfigManager } from '../utils/config';
 import { CursorApiClient } from './api-client';
@@ -8,7 +9,32 @@ import { StreamCppResponse } from '../generated/cpp_pb';
 import { SmartCompletionDiffer } from '../utils/smart-completion-differ';
 import { CompletionContext } from '../types/completion-diff';
 import { smartEditDetector, EditOperation } from '../utils/smart-edit-detector';
-import { completionTracker } from '../utils/completion-tracker';
+import { completionTracker, CompletionTrackingInfo } from '../utils/completion-tracker';
+import { getCppFateReporter } from './cpp-fate-reporter';
+import { getCursorPredictionManager } from './cursor-prediction-manager';
+import { getImportPredictionManager } from './import-prediction-manager';
+import { canRenderAsGhostText, getInlineEditRenderer } from '../ui/inline-edit-renderer';
+import { LspContextBuilder } from './lsp-context-builder';
+import { SuggestionFilterPipeline } from './suggestion-filters';
+import { RejectedEditMemory } from './rejected-edit-memory';
+import { EnablementRules } from './enablement-rules';
+import { ContentGuard } from './content-guard';
+import { getOwningUri, mapCompletionToCell, NOTEBOOK_CELL_SCHEME, toBufferLine } from './notebook-context';
+import { inferDataframes, inferDataframesWithCsvHeaders } from './dataframe-inference';
+import { CursorRules } from './cursor-rules';
+import { containsRedaction } from '../utils/secret-redactor';
+
+/**
+ * 计算部分接受的进度
+ *
+ * @param insertText 建议文本（换行符已转换为文档的换行符）
+ * @param typedLength 显示建议时替换范围内光标前已有的原文长度，这部分不算作接受
+ * @param cursorAdvance 光标相对显示建议时位置前进的字符数
+ */
+export function measurePartialAccept(insertText: string, typedLength: number, cursorAdvance: number): { acceptedTotal: number; totalLength: number } {
+  const totalLength = Math.max(0, insertText.length - typedLength);
+  return { acceptedTotal: Math.min(totalLength, Math.max(0, cursorAdvance)), totalLength };
+}
 
 export class CursorCompletionProvider implements vscode.InlineCompletionItemProvider {
   private logger: Logger;
@@ -25,10 +51,27 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
   // 🔧 智能编辑检测相关
   private documentChangeListener: vscode.Disposable | null = null;
   
+  // 🧩 多行编辑渲染器事件监听
+  private inlineEditListeners: vscode.Disposable[] = [];
+  
+  // 📊 补全跟踪上下文（trackingId -> 触发时的文档与位置）
+  private trackedCompletions = new Map<string, { document: vscode.TextDocument; position: vscode.Position; responseTime: number }>();
+  private completionTrackerListeners: vscode.Disposable[] = [];
+  
   // 🎯 补全结果跟踪
   private completionBindings = new Map<string, { bindingId: string; requestTime: number }>();
   private readonly BINDING_TIMEOUT = 30000; // 30秒后清理过期的绑定
   
+  // 🎯 最近一个补全项附带的光标预测目标（接受后显示）
+  private lastCursorPrediction: { completionKey: string; target: CursorPredictionTarget } | null = null;
+  
+  // ✂️ 最近返回给 VSCode 的补全项（用于逐词/逐行部分接受）
+  // 最近显示的建议：cursor 为显示时的光标位置，typedLength 为替换范围内光标前已有的原文长度，acceptedLength 为已部分接受的累计字符数
+  private lastShownCompletion: { item: vscode.InlineCompletionItem; uri: string; cursor: vscode.Position; typedLength: number; acceptedLength: number } | null = null;
+  
+  // 🎬 等待回放的录制会话（下一次在该文档触发补全时使用录制的响应）
+  private pendingReplay: { uri: string; responses: AsyncIterable<StreamCppResponse> } | null = null;
+  
   constructor(apiClient: CursorApiClient, fileManager: FileManager) {
     this.logger = Logger.getInstance();
     this.apiClient = apiClient;
@@ -37,6 +80,12 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     
     // 🔧 设置文档变化监听器用于智能编辑检测
     this.setupDocumentChangeListener();
+    
+    // 🧩 监听多行编辑建议的接受/拒绝
+    this.setupInlineEditListeners();
+    
+    // 📊 监听补全跟踪器的接受/忽略事件（只注册一次）
+    this.setupCompletionTrackerListeners();
   }
   
   async provideInlineCompletionItems(
@@ -52,7 +101,16 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
       this.logger.debug('🚫 扩展已禁用，跳过补全');
       return undefined;
     }
-    
+
+    // 🔧 检查语言/文件启用规则
+    if (!EnablementRules.getInstance().isEnabledFor(document)) {
+      this.logger.debug(`🚫 启用规则排除了当前文件，跳过补全: ${document.fileName}`);
+      return undefined;
+    }
+    if (ContentGuard.getInstance().isIgnored(getOwningUri(document))) {
+      return undefined;
+    }
+
     // 🔧 检查snooze状态
     if (config.snoozeUntil > Date.now()) {
       this.logger.debug('😴 扩展处于snooze状态，跳过补全');
@@ -62,6 +120,26 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     // 🧪 检查是否为测试模式调用（通过context中的requestUuid判断）
     const isTestMode = (context as any).requestUuid === 'test-uuid';
     
+    // ⏸️ 连续清除的建议过多时，暂停自动触发
+    const backoffRemaining = RejectedEditMemory.getInstance().getBackoffRemaining();
+    if (!isTestMode && context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic && backoffRemaining > 0) {
+      this.logger.debug(`⏸️ 自动触发退避中，剩余 ${backoffRemaining}ms`);
+      return undefined;
+    }
+    
+    // 🎬 回放录制的会话：跳过防抖和触发检查，直接使用录制的响应
+    if (this.pendingReplay && this.pendingReplay.uri === document.uri.toString()) {
+      const replayStream = this.pendingReplay.responses;
+      this.pendingReplay = null;
+      this.logger.info('🎬 回放录制的补全会话');
+      try {
+        return await this.executeCompletion(document, position, context, token, false, replayStream);
+      } catch (error) {
+        this.logger.error('❌ 补全会话回放失败', error as Error);
+        return undefined;
+      }
+    }
+    
     if (isTestMode) {
       this.logger.info('🧪 检测到测试模式调用，直接执行补全');
       try {
@@ -105,35 +183,11 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
           // 完整的补全生命周期跟踪
           if (result && Array.isArray(result) && result.length > 0) {
             const completionItem = result[0];
-            const trackingId = completionTracker.trackCompletion(document, position, completionItem);
-            
-            // 设置补全生命周期事件回调
-            const originalOnAccepted = completionTracker.onCompletionAccepted;
-            const originalOnDismissed = completionTracker.onCompletionDismissed;
-            
-            completionTracker.onCompletionAccepted = (completion) => {
-              // 记录性能指标
-              smartEditDetector.recordCompletionMetrics(document, responseTime, true);
-              this.logger.info(`✅ 补全被接受: ${trackingId}, 响应时间: ${responseTime}ms`);
-              
-              // 触发分析以优化未来的补全触发
-              this.analyzeAcceptedCompletion(completion, document, position);
-              
-              // 调用原始回调
-              originalOnAccepted?.(completion);
-            };
+            const binding = this.completionBindings.get(this.generateCompletionKey(completionItem));
+            const trackingId = completionTracker.trackCompletion(document, position, completionItem, binding?.bindingId);
             
-            completionTracker.onCompletionDismissed = (completion) => {
-              // 记录被忽略的补全
-              smartEditDetector.recordCompletionMetrics(document, responseTime, false);
-              this.logger.debug(`❌ 补全被忽略: ${trackingId}, 生存时间: ${Date.now() - completion.triggerTime}ms`);
-              
-              // 分析忽略原因以改进策略
-              this.analyzeDismissedCompletion(completion, document, position);
-              
-              // 调用原始回调
-              originalOnDismissed?.(completion);
-            };
+            // 保存跟踪上下文，由统一的生命周期事件监听器处理
+            this.trackedCompletions.set(trackingId, { document, position, responseTime });
             
             // 记录补全触发信息
             this.logger.debug(`🎯 补全跟踪开始: ${trackingId}, 文本长度: ${completionItem.insertText?.toString().length || 0}`);
@@ -156,25 +210,34 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     });
   }
   
+  /**
+   * 准备回放录制的会话：下一次在该文档触发补全时使用录制的响应，不访问网络
+   */
+  prepareReplay(document: vscode.TextDocument, responses: AsyncIterable<StreamCppResponse>): void {
+    this.pendingReplay = { uri: document.uri.toString(), responses };
+  }
+  
   private async executeCompletion(
     document: vscode.TextDocument,
     position: vscode.Position,
     context: vscode.InlineCompletionContext,
     token: vscode.CancellationToken,
-    isTestMode: boolean = false
+    isTestMode: boolean = false,
+    replayStream?: AsyncIterable<StreamCppResponse>
   ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | undefined> {
     try {
       this.logger.debug(`🔍 触发代码补全 - 文件: ${document.fileName}, 位置: ${position.line}:${position.character}`);
+      const skipChecks = isTestMode || replayStream !== undefined;
       
-      // 检查是否应该触发补全（测试模式跳过检查）
-      if (!isTestMode && !this.shouldTriggerCompletionBasic(document, position)) {
+      // 检查是否应该触发补全（测试模式和回放跳过检查）
+      if (!skipChecks && !this.shouldTriggerCompletionBasic(document, position)) {
         return undefined;
       }
       
-      // 检查请求频率限制（测试模式跳过检查）
+      // 检查请求频率限制（测试模式和回放跳过检查）
       const now = Date.now();
       const timeSinceLastRequest = now - this.lastRequestTime;
-      if (!isTestMode && timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
+      if (!skipChecks && timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
         this.logger.debug(`⏰ 请求过于频繁，跳过 (间隔: ${timeSinceLastRequest}ms < ${this.MIN_REQUEST_INTERVAL}ms)`);
         return undefined;
       }
@@ -187,46 +250,22 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
       this.abortController = new AbortController();
       this.lastRequestTime = now;
       
-      // 获取当前文件信息
-      const currentFile = await this.fileManager.getCurrentFileInfo(document);
-      this.logger.debug(`📄 文件信息: 路径=${currentFile.path}, 内容长度=${currentFile.content.length}, SHA256=${currentFile.sha256}`);
-      
-      // 检查是否为有效的补全场景
-      if (currentFile.content.length === 0 && position.line === 0 && position.character === 0) {
-        this.logger.debug('📝 空文件，跳过补全');
-        return undefined;
+      // 回放录制的会话时不收集上下文，也不发送请求
+      let request: CompletionRequest | undefined;
+      let messageStream: AsyncIterable<StreamCppResponse> | null;
+      if (replayStream) {
+        messageStream = replayStream;
+      } else {
+        request = await this.buildCompletionRequest(document, position, token);
+        if (!request) {
+          return undefined;
+        }
+        
+        this.logger.debug(`🚀 准备发送补全请求`);
+        
+        // 请求补全
+        messageStream = await this.apiClient.requestCompletion(request, this.abortController.signal);
       }
-      
-      // 检查光标是否在文件末尾附近（这是补全的最佳场景）
-      const line = document.lineAt(position.line);
-      const isAtEndOfLine = position.character >= line.text.length;
-      const isNearEndOfFile = position.line >= document.lineCount - 5;
-      
-      this.logger.debug(`📍 补全上下文: 行末=${isAtEndOfLine}, 文件末尾附近=${isNearEndOfFile}`);
-      
-      // 获取多文件上下文 - 增强上下文收集以提升补全质量
-      this.logger.info('🔍 开始收集多文件上下文...');
-      const additionalFiles = await this.fileManager.getMultiFileContext(document, 8); // 增加到8个文件以提升质量
-      this.logger.info(`📚 收集到 ${additionalFiles.length} 个上下文文件`);
-
-      // 构建补全请求
-      const request: CompletionRequest = {
-        currentFile,
-        cursorPosition: {
-          line: position.line,
-          column: position.character
-        },
-        context: this.getContext(document, position),
-        modelName: 'auto', // TODO: 从配置中获取
-        debugOutput: true, // 开启调试输出
-        // 多文件上下文支持 - 显著提升补全质量
-        additionalFiles: additionalFiles.slice(1) // 排除当前文件（已在currentFile中）
-      };
-      
-      this.logger.debug(`🚀 准备发送补全请求`);
-      
-      // 请求补全
-      const messageStream = await this.apiClient.requestCompletion(request, this.abortController.signal);
       if (!messageStream) {
         this.logger.warn('⚠️  API客户端返回null，无法获取补全');
         return undefined;
@@ -234,6 +273,12 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
       
       // 解析流式响应
       const completion = await this.parseMessageStream(messageStream, token);
+      
+      // 📓 笔记本：补全结果位于拼接缓冲区坐标，映射回当前单元格
+      if (completion && request?.notebook && !mapCompletionToCell(request.notebook, completion)) {
+        this.logger.debug('📓 补全范围超出当前单元格，跳过');
+        return undefined;
+      }
       if (!completion || !completion.text) {
         this.logger.debug('📭 没有获得有效的补全内容');
         return undefined;
@@ -321,10 +366,9 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
         
         this.logger.info(`🎯 检测到光标预测位置: 行${targetLine}, 列${targetColumn}`);
         
-        // 在VSCode中，通常不需要手动设置光标位置
         // InlineCompletion会自动将光标放置在补全内容的末尾
-        // 这里只是记录日志供调试
-        this.logger.debug(`   📍 光标将自动定位到补全内容末尾`);
+        // 预测位置会在补全被接受后由 CursorPredictionManager 显示
+        this.logger.debug(`   📍 补全接受后将提示跳转到预测位置`);
       }
       
       // 详细的调试信息
@@ -388,6 +432,57 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
         }
       }
       
+      // 🔒 建议中带有脱敏占位符时丢弃，避免用占位符覆盖文件中的真实值
+      const validRange = document.validateRange(range);
+      if (containsRedaction(insertText) && !containsRedaction(document.getText(validRange))) {
+        this.logger.debug('🔒 建议包含脱敏占位符，跳过');
+        return undefined;
+      }
+      
+      // 🚫 应用服务器下发的启发式过滤器，被过滤的建议不显示
+      const filterResult = SuggestionFilterPipeline.getInstance().evaluate({
+        uri: document.uri.toString(),
+        documentText: document.getText(),
+        rangeStartOffset: document.offsetAt(validRange.start),
+        rangeEndOffset: document.offsetAt(validRange.end),
+        text: insertText
+      });
+      if (filterResult.suppressed) {
+        return undefined;
+      }
+      
+      // 🔁 近似相同的建议最近被多次拒绝，不再显示
+      if (RejectedEditMemory.getInstance().shouldSuppress(document.uri.toString(), insertText)) {
+        return undefined;
+      }
+      
+      // 🧩 幽灵文本无法表达的多行编辑：回退到差异装饰渲染
+      if (completion.range && this.shouldRenderAsInlineEdit(document, position, range, insertText)) {
+        const inlineEditRenderer = getInlineEditRenderer();
+        const editor = vscode.window.activeTextEditor;
+        if (inlineEditRenderer && editor && editor.document === document) {
+          this.logger.info('🧩 范围替换无法用幽灵文本显示，使用差异装饰渲染');
+          const shown = inlineEditRenderer.show(editor, {
+            range,
+            text: insertText,
+            bindingId: completion.bindingId,
+            cursorPredictionTarget: completion.cursorPredictionTarget
+          });
+          if (shown && completion.bindingId) {
+            getCppFateReporter()?.registerSuggestion({
+              bindingId: completion.bindingId,
+              uri: document.uri.toString(),
+              text: insertText,
+              startLine: range.start.line,
+              endLine: range.end.line,
+              modelName: request?.modelName,
+              shownAt: Date.now()
+            });
+          }
+          return undefined;
+        }
+      }
+      
       // 🧪 详细调试：检查VSCode InlineCompletionItem 属性
       const insertTextStr = typeof item.insertText === 'string' ? item.insertText : item.insertText.value;
       this.logger.info(`🔍 创建的 InlineCompletionItem 详细信息:`);
@@ -438,10 +533,34 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
         });
         this.logger.debug(`🎯 存储补全绑定: ${completionKey} -> ${completion.bindingId}`);
         
+        // 登记到补全结果上报管道
+        getCppFateReporter()?.registerSuggestion({
+          bindingId: completion.bindingId,
+          uri: document.uri.toString(),
+          text: insertText,
+          startLine: range.start.line,
+          endLine: range.end.line,
+          modelName: request?.modelName,
+          shownAt: Date.now()
+        });
+        
         // 清理过期的绑定
         this.cleanupExpiredBindings();
       }
       
+      // 🎯 记录光标预测目标，补全被接受后显示
+      this.lastCursorPrediction = completion.cursorPredictionTarget
+        ? { completionKey: this.generateCompletionKey(completionItem), target: completion.cursorPredictionTarget }
+        : null;
+      
+      this.lastShownCompletion = {
+        item: completionItem,
+        uri: document.uri.toString(),
+        cursor: position,
+        typedLength: range.start.isBefore(position) ? document.offsetAt(position) - document.offsetAt(range.start) : 0,
+        acceptedLength: 0
+      };
+      
       // 返回补全项数组
       return [completionItem];
       
@@ -483,6 +602,115 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     }
   }
 
+  /**
+   * 判断范围替换是否需要使用差异装饰渲染
+   * 范围只涉及光标所在行，或替换等价于光标处纯插入时，仍使用幽灵文本
+   */
+  private shouldRenderAsInlineEdit(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    range: vscode.Range,
+    text: string
+  ): boolean {
+    const validRange = document.validateRange(range);
+    if (validRange.start.line === position.line && validRange.end.line === position.line) {
+      return false;
+    }
+    
+    const cursorOffset = validRange.contains(position)
+      ? document.offsetAt(position) - document.offsetAt(validRange.start)
+      : -1;
+    return !canRenderAsGhostText(document.getText(validRange), cursorOffset, text);
+  }
+
+  /**
+   * 设置多行编辑建议的事件监听
+   */
+  private setupInlineEditListeners(): void {
+    const inlineEditRenderer = getInlineEditRenderer();
+    if (!inlineEditRenderer) {
+      return;
+    }
+    
+    this.inlineEditListeners.push(
+      inlineEditRenderer.onDidAcceptEdit(({ document, suggestion }) => {
+        this.logger.info(`✅ 用户接受了多行编辑建议${suggestion.bindingId ? `: ${suggestion.bindingId}` : ''}`);
+        if (suggestion.bindingId) {
+          getCppFateReporter()?.reportAccept(suggestion.bindingId);
+        }
+        RejectedEditMemory.getInstance().recordAccept();
+        getCursorPredictionManager()?.onCompletionAccepted(document, suggestion.cursorPredictionTarget);
+        getImportPredictionManager()?.onCompletionAccepted(document, suggestion.range.start.line, suggestion.text);
+      }),
+      inlineEditRenderer.onDidRejectEdit(({ document, suggestion, reason }) => {
+        this.logger.debug(`❌ 多行编辑建议被拒绝 (${reason})${suggestion.bindingId ? `: ${suggestion.bindingId}` : ''}`);
+        if (suggestion.bindingId) {
+          getCppFateReporter()?.reportReject(suggestion.bindingId);
+        }
+        if (reason !== 'superseded') {
+          RejectedEditMemory.getInstance().recordRejection(document.uri.toString(), suggestion.text);
+        }
+      })
+    );
+  }
+
+  /**
+   * 设置补全跟踪器的生命周期事件监听
+   */
+  private setupCompletionTrackerListeners(): void {
+    this.completionTrackerListeners.push(
+      completionTracker.onDidAcceptCompletion(completion => this.handleTrackedCompletionAccepted(completion)),
+      completionTracker.onDidDismissCompletion(completion => this.handleTrackedCompletionDismissed(completion))
+    );
+  }
+
+  /**
+   * 补全跟踪器检测到接受
+   */
+  private handleTrackedCompletionAccepted(completion: CompletionTrackingInfo): void {
+    if (completion.bindingId) {
+      getCppFateReporter()?.reportAccept(completion.bindingId);
+    }
+    
+    const context = this.trackedCompletions.get(completion.id);
+    if (!context) {
+      return;
+    }
+    this.trackedCompletions.delete(completion.id);
+    
+    // 记录性能指标
+    smartEditDetector.recordCompletionMetrics(context.document, context.responseTime, true);
+    this.logger.info(`✅ 补全被接受: ${completion.id}, 响应时间: ${context.responseTime}ms`);
+    
+    // 触发分析以优化未来的补全触发
+    this.analyzeAcceptedCompletion(completion, context.document, context.position);
+    
+    // 📦 检查接受的代码是否需要补充导入（与 handleDidAcceptCompletionItem 重复的通知会被去重）
+    getImportPredictionManager()?.onCompletionAccepted(context.document, completion.range.start.line, completion.text);
+  }
+
+  /**
+   * 补全跟踪器检测到忽略
+   */
+  private handleTrackedCompletionDismissed(completion: CompletionTrackingInfo): void {
+    if (completion.bindingId) {
+      getCppFateReporter()?.reportReject(completion.bindingId);
+    }
+    
+    const context = this.trackedCompletions.get(completion.id);
+    if (!context) {
+      return;
+    }
+    this.trackedCompletions.delete(completion.id);
+    
+    // 记录被忽略的补全
+    smartEditDetector.recordCompletionMetrics(context.document, context.responseTime, false);
+    this.logger.debug(`❌ 补全被忽略: ${completion.id}, 生存时间: ${Date.now() - completion.triggerTime}ms`);
+    
+    // 分析忽略原因以改进策略
+    this.analyzeDismissedCompletion(completion, context.document, context.position);
+  }
+
   /**
    * 设置文档变化监听器，用于智能编辑检测
    */
@@ -494,8 +722,8 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
 
     // 设置新的文档变化监听器
     this.documentChangeListener = vscode.workspace.onDidChangeTextDocument((event) => {
-      // 只处理文件类型的文档，排除输出面板等
-      if (event.document.uri.scheme !== 'file') {
+      // 只处理文件和笔记本单元格，排除输出面板等
+      if (event.document.uri.scheme !== 'file' && event.document.uri.scheme !== NOTEBOOK_CELL_SCHEME) {
         return;
       }
       
@@ -810,6 +1038,121 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     return beforeText + '|CURSOR|' + afterText;
   }
   
+  /**
+   * 收集上下文并构建补全请求，空文件返回 undefined（调试补全命令同样使用）
+   */
+  async buildCompletionRequest(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<CompletionRequest | undefined> {
+    // 获取当前文件信息（笔记本单元格使用拼接后的整个笔记本）
+    const notebookFile = this.fileManager.getNotebookFileInfo(document);
+    const currentFile = notebookFile?.fileInfo ?? await this.fileManager.getCurrentFileInfo(document);
+    this.logger.debug(`📄 文件信息: 路径=${currentFile.path}, 内容长度=${currentFile.content.length}, SHA256=${currentFile.sha256}`);
+    
+    // 检查是否为有效的补全场景
+    if (currentFile.content.length === 0 && position.line === 0 && position.character === 0) {
+      this.logger.debug('📝 空文件，跳过补全');
+      return undefined;
+    }
+    
+    // 检查光标是否在文件末尾附近（这是补全的最佳场景）
+    const line = document.lineAt(position.line);
+    const isAtEndOfLine = position.character >= line.text.length;
+    const isNearEndOfFile = position.line >= document.lineCount - 5;
+    // 光标之后只剩空白：纯追加场景（编写新文件、日志等），使用 CppAppend 追加模式
+    const isAppendPosition = document.getText(new vscode.Range(position, document.lineAt(document.lineCount - 1).range.end)).trim().length === 0;
+    
+    this.logger.debug(`📍 补全上下文: 行末=${isAtEndOfLine}, 文件末尾附近=${isNearEndOfFile}, 追加模式=${isAppendPosition}`);
+    
+    // 🧬 收集光标附近符号的定义/类型/签名（LSP 子图上下文）
+    const lspContextBuilder = LspContextBuilder.getInstance();
+    // 🔒 符号上下文来自其他文件，同样遵循 .cometixignore 并隐去密钥
+    const contentGuard = ContentGuard.getInstance();
+    const lspContexts = (await lspContextBuilder.buildContexts(
+      document,
+      position,
+      ConfigManager.getConfig().lspContextTokenBudget,
+      token
+    ))
+      .map(context => ({
+        ...context,
+        items: context.items
+          .filter(item => !contentGuard.isIgnored(item.uri))
+          .map(item => ({ ...item, content: contentGuard.redactContent(item.uri, item.content, false).content }))
+      }))
+      .filter(context => context.items.length > 0);
+    this.logger.info(`🧬 LSP 子图上下文: ${lspContexts.length} 个符号`);
+    
+    // 🧷 光标位于函数调用内时，附带签名帮助和语言服务器补全候选
+    const callContext = await lspContextBuilder.collectCallContext(document, position);
+    if (callContext.parameterHints.length > 0) {
+      this.logger.info(`🧷 参数提示: ${callContext.parameterHints.length} 个签名, 补全候选: ${callContext.suggestedItems.length} 个`);
+    }
+    
+    // 🔎 BM25 检索工作区中与光标附近代码最相关的代码块
+    const topChunks = this.fileManager.getTopChunks(document, position);
+    if (topChunks.length > 0) {
+      this.logger.info(`🔎 BM25 代码块: ${topChunks.map(chunk => `${chunk.relativePath}:${chunk.startLine + 1}-${chunk.endLine + 1}`).join(', ')}`);
+    }
+    
+    // 获取多文件上下文 - 增强上下文收集以提升补全质量
+    // 已有符号级上下文时不再附带 LSP 相关的整个文件，已有 BM25 代码块时不再附带同目录的整个文件
+    this.logger.info('🔍 开始收集多文件上下文...');
+    const additionalFiles = await this.fileManager.getMultiFileContext(document, 8, lspContexts.length === 0, topChunks.length === 0); // 增加到8个文件以提升质量
+    this.logger.info(`📚 收集到 ${additionalFiles.length} 个上下文文件`);
+
+    // 🐼 Python 文件/笔记本：推断 DataFrame 的列，提升列名补全的准确性
+    let dataframes: DataframeSchema[] | undefined;
+    if ((notebookFile?.layout.languageId ?? document.languageId) === 'python') {
+      const owningUri = getOwningUri(document);
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(owningUri);
+      // 🔒 只读取工作区内、未被 .cometixignore 和启用规则排除的数据文件，表头同样隐去密钥
+      dataframes = workspaceFolder
+        ? await inferDataframesWithCsvHeaders(currentFile.content, [path.dirname(owningUri.fsPath), workspaceFolder.uri.fsPath], {
+          workspaceRoot: workspaceFolder.uri.fsPath,
+          isReadable: filePath => {
+            const uri = vscode.Uri.file(filePath);
+            return !contentGuard.isIgnored(uri) && EnablementRules.getInstance().isPathEnabled(vscode.workspace.asRelativePath(uri));
+          },
+          redact: (filePath, header) => contentGuard.redactContent(vscode.workspace.asRelativePath(filePath), header, false).content
+        })
+        : inferDataframes(currentFile.content);
+      if (dataframes.length > 0) {
+        this.logger.info(`🐼 DataFrame 结构: ${dataframes.map(frame => `${frame.name}(${frame.columns.length} 列)`).join(', ')}`);
+      }
+    }
+
+    // 📏 适用于当前文件的项目规则
+    const cursorRules = CursorRules.getInstance().getApplicableRules(document);
+    if (cursorRules.length > 0) {
+      this.logger.info(`📏 应用项目规则: ${cursorRules.map(rule => rule.name).join(', ')}`);
+    }
+
+    // 构建补全请求
+    return {
+      currentFile,
+      cursorPosition: {
+        line: notebookFile ? toBufferLine(notebookFile.layout, position.line) : position.line,
+        column: position.character
+      },
+      context: this.getContext(document, position),
+      modelName: 'auto', // TODO: 从配置中获取
+      debugOutput: true, // 开启调试输出
+      // 多文件上下文支持 - 显著提升补全质量
+      additionalFiles: additionalFiles.slice(1), // 排除当前文件（已在currentFile中）
+      lspContexts,
+      parameterHints: callContext.parameterHints,
+      lspSuggestedItems: callContext.suggestedItems,
+      appendMode: isAppendPosition && !notebookFile, // 光标之后还有其他单元格
+      notebook: notebookFile?.layout,
+      dataframes,
+      cursorRules,
+      topChunks
+    };
+  }
+  
   private async parseMessageStream(
     messageStream: AsyncIterable<any>,
     token: vscode.CancellationToken
@@ -967,6 +1310,12 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
         line: response.cursorPredictionTarget.lineNumberOneIndexed - 1, // 转换为0索引
         column: expectedContent.length // 使用预期内容的长度作为列位置
       };
+      completion.cursorPredictionTarget = {
+        relativePath: response.cursorPredictionTarget.relativePath || undefined,
+        line: response.cursorPredictionTarget.lineNumberOneIndexed - 1,
+        expectedContent,
+        shouldRetriggerCpp: response.cursorPredictionTarget.shouldRetriggerCpp
+      };
       
       this.logger.debug(`🎯 光标预测: 行 ${completion.cursorPosition.line}, 列 ${completion.cursorPosition.column}`);
       if (expectedContent) {
@@ -1174,8 +1523,55 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     this.logger.info('   📝 部分接受的内容:');
     this.logger.info(item.insertText.toString().substring(0, info.acceptedLength));
     this.logger.info(`   🔄 触发类型: ${info.kind}`);
-    // 这里可以实现 Cursor-like 的递进建议功能
-    // 当用户部分接受时，可以触发下一个建议
+    
+    // 🎯 记录部分接受（之后完全接受会升级为 ACCEPT）
+    this.recordCompletionFate(item, 'partial_accept', info.acceptedLength);
+  }
+
+  /**
+   * ✂️ 部分接受当前建议（下一个单词 / 下一行），剩余部分继续显示
+   * 不依赖 API 提案：已接受的内容是显示建议时的光标位置到当前光标之间的文本，
+   * 替换范围内光标前用户已输入的原文不计入接受长度
+   */
+  async acceptNextPartial(kind: 'word' | 'line'): Promise<boolean> {
+    const editor = vscode.window.activeTextEditor;
+    const shown = this.lastShownCompletion;
+    if (!editor || !shown || shown.uri !== editor.document.uri.toString()) {
+      this.logger.debug('⚠️ 没有可部分接受的补全建议');
+      return false;
+    }
+    
+    const document = editor.document;
+    const versionBefore = document.version;
+    
+    await vscode.commands.executeCommand(
+      kind === 'word' ? 'editor.action.inlineSuggest.acceptNextWord' : 'editor.action.inlineSuggest.acceptNextLine'
+    );
+    
+    if (document.version === versionBefore) {
+      this.logger.debug('⚠️ 部分接受未修改文档，建议可能已不可见');
+      return false;
+    }
+    
+    const insertText = typeof shown.item.insertText === 'string' ? shown.item.insertText : shown.item.insertText.value;
+    // 插入时换行符会转换为文档的换行符
+    const { acceptedTotal, totalLength } = measurePartialAccept(
+      document.eol === vscode.EndOfLine.CRLF ? insertText.replace(/\r?\n/g, '\r\n') : insertText,
+      shown.typedLength,
+      document.offsetAt(editor.selection.active) - document.offsetAt(shown.cursor)
+    );
+    const acceptedLength = Math.max(0, acceptedTotal - shown.acceptedLength);
+    shown.acceptedLength = Math.max(shown.acceptedLength, acceptedTotal);
+    this.logger.info(`✂️ 部分接受补全 (${kind === 'word' ? '单词' : '行'}): ${acceptedLength} 字符, 累计 ${shown.acceptedLength}/${totalLength}`);
+    
+    this.recordCompletionFate(shown.item, 'partial_accept', acceptedLength);
+    
+    // 累计接受到末尾的视为完全接受
+    if (shown.acceptedLength >= totalLength) {
+      this.recordCompletionFate(shown.item, 'accept');
+      this.lastShownCompletion = null;
+    }
+    return true;
   }
 
   /**
@@ -1189,6 +1585,22 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
     
     // 🎯 记录补全接受结果
     this.recordCompletionFate(item, 'accept');
+    
+    // 🎯 显示下一个编辑位置的光标预测
+    const editor = vscode.window.activeTextEditor;
+    const cursorPredictionManager = getCursorPredictionManager();
+    if (editor && cursorPredictionManager) {
+      const completionKey = this.generateCompletionKey(item);
+      const target = this.lastCursorPrediction?.completionKey === completionKey ? this.lastCursorPrediction.target : undefined;
+      this.lastCursorPrediction = null;
+      cursorPredictionManager.onCompletionAccepted(editor.document, target);
+    }
+    
+    // 📦 检查接受的代码是否需要补充导入
+    if (editor && item.range) {
+      const text = typeof item.insertText === 'string' ? item.insertText : item.insertText.value;
+      getImportPredictionManager()?.onCompletionAccepted(editor.document, item.range.start.line, text);
+    }
   }
 
   /**
@@ -1304,32 +1716,42 @@ export class CursorCompletionProvider implements vscode.InlineCompletionItemProv
   }
 
   /**
-   * 🎯 记录补全结果到 API
+   * 🎯 记录补全结果（通过上报管道，每个 bindingId 只上报一次）
    */
-  private async recordCompletionFate(item: vscode.InlineCompletionItem, fate: 'accept' | 'reject' | 'partial_accept'): Promise<void> {
-    try {
-      const completionKey = this.generateCompletionKey(item);
-      const binding = this.completionBindings.get(completionKey);
-      
-      if (!binding) {
-        this.logger.debug(`⚠️ 未找到补全绑定: ${completionKey}`);
-        return;
-      }
-      
-      this.logger.info(`🎯 记录补全结果: ${binding.bindingId} -> ${fate}`);
-      
-      const success = await this.apiClient.recordCppFate(binding.bindingId, fate);
-      if (success) {
-        this.logger.info('✅ 补全结果记录成功');
-      } else {
-        this.logger.warn('⚠️ 补全结果记录失败');
-      }
-      
-      // 记录后清理绑定
+  private recordCompletionFate(
+    item: vscode.InlineCompletionItem,
+    fate: 'accept' | 'reject' | 'partial_accept',
+    acceptedLength?: number
+  ): void {
+    const completionKey = this.generateCompletionKey(item);
+    const binding = this.completionBindings.get(completionKey);
+    
+    if (!binding) {
+      this.logger.debug(`⚠️ 未找到补全绑定: ${completionKey}`);
+      return;
+    }
+    
+    const fateReporter = getCppFateReporter();
+    if (!fateReporter) {
+      this.logger.debug('⚠️ 补全结果上报器未初始化');
+      return;
+    }
+    
+    switch (fate) {
+      case 'accept':
+        fateReporter.reportAccept(binding.bindingId);
+        break;
+      case 'reject':
+        fateReporter.reportReject(binding.bindingId);
+        break;
+      case 'partial_accept':
+        fateReporter.reportPartialAccept(binding.bindingId, acceptedLength);
+        break;
+    }
+    
+    // 部分接受后建议仍然可见，保留绑定以便后续完全接受
+    if (fate !== 'partial_accept') {
       this.completionBindings.delete(completionKey);
-      
-    } catch (error) {
-      this.logger.error('❌ 记录补全结果时发生错误', error as Error);
     }
   }
 
@@ -4,7 +4,7 @@
  * 使用构建时生成的类型安全客户端，遵循 Connect RPC 最佳实践
  */
 
-import { createPromiseClient, type PromiseClient } from "@connectrpc/connect";
+import { Code, ConnectError, createPromiseClient, type PromiseClient } from "@connectrpc/connect";
 import { createConnectTransport } from "@connectrpc/connect-web";
 import { AiService, CppService } from "../generated/cpp_connect";
 import { FileSyncService } from "../generated/fs_connect";
@@ -12,6 +12,11 @@ import {
   StreamCppRequest, 
   StreamCppResponse,
   CurrentFileInfo,
+  CurrentFileInfo_NotebookCell,
+  DataframeInfo,
+  DataframeInfo_Column,
+  BM25Chunk,
+  SimplestRange,
   CursorPosition,
   CppContextItem,
   AdditionalFile,
@@ -23,7 +28,25 @@ import {
   AvailableCppModelsResponse,
   RecordCppFateRequest,
   RecordCppFateResponse,
-  CppFate
+  CppFate,
+  MarkCppRequest,
+  MarkCppRequest_CppResponseTypes,
+  MarkCppRequest_RangeTransformation,
+  MarkCppResponse,
+  IsCursorPredictionEnabledRequest,
+  StreamNextCursorPredictionRequest,
+  StreamNextCursorPredictionRequest_FileVisibleRange,
+  StreamNextCursorPredictionRequest_VisibleRange,
+  StreamNextCursorPredictionResponse,
+  LspSubgraphFullContext,
+  LspSubgraphContextItem,
+  LspSubgraphPosition,
+  LspSubgraphRange,
+  CppParameterHint,
+  LspSuggestedItems,
+  LspSuggestion,
+  CppAppendRequest,
+  CppConfigResponse_Heuristic
 } from "../generated/cpp_pb";
 import { 
   FSUploadFileRequest, 
@@ -31,10 +54,13 @@ import {
   FSSyncFileRequest,
   FSSyncFileResponse,
   FSUploadErrorType,
-  FSSyncErrorType
+  FSSyncErrorType,
+  FSIsEnabledForUserRequest,
+  FSConfigRequest,
+  FSConfigResponse
 } from "../generated/fs_pb";
 
-import type { CursorConfig, CompletionRequest, FileInfo } from '../types';
+import type { AppliedCursorRule, ContextReport, CursorConfig, CompletionRequest, CursorPredictionRequest, FileInfo, FileSyncPolicy, LspSymbolContext } from '../types';
 import { Logger } from '../utils/logger';
 import { CryptoUtils } from '../utils/crypto';
 import { FileDiffCalculator } from '../utils/file-diff';
@@ -43,6 +69,14 @@ import { getOrGenerateClientKey, validateChecksum } from '../utils/checksum';
 import { FileSyncStateManager } from './filesync-state-manager';
 import { WorkspaceManager } from '../utils/workspace-manager';
 import { EditHistoryTracker } from './edit-history-tracker';
+import { getBatchSyncManager, type PiggybackUpdates } from '../utils/batch-sync-manager';
+import { getSessionRecorder } from './session-recorder';
+import { ConfigManager } from '../utils/config';
+import { assembleRequestContext, formatContextReport } from './context-assembler';
+import { createCppTransport, type CppTransport } from '../api/transport';
+import { EndpointType } from '../api/endpoints';
+import { collectNearbyDiagnostics, toLinterErrors, toProtoDiagnostic } from '../utils/diagnostics-collector';
+import { ContentGuard } from './content-guard';
 import * as vscode from 'vscode';
 import * as path from 'path';
 
@@ -54,6 +88,7 @@ export interface ConnectRpcApiClientOptions {
   timeout?: number;
   workspaceId?: string;
   maxTokens?: number;
+  endpointType?: 'official' | 'selfhosted'; // 自部署 cursor-api 使用 REST 传输层
 }
 
 /**
@@ -65,6 +100,7 @@ export class ConnectRpcApiClient {
   private aiClient: PromiseClient<typeof AiService>;
   private cppClient: PromiseClient<typeof CppService>;
   private fileSyncClient: PromiseClient<typeof FileSyncService>;
+  private transport: CppTransport; // StreamCpp/CppConfig/AvailableModels/文件上传与同步的传输层
   private filesyncCookie: string;
   private filesyncClientKey: string; // 添加 FileSyncService 专用的客户端密钥
   private fileDiffCalculator: FileDiffCalculator; // 文件差异计算器
@@ -80,7 +116,25 @@ export class ConnectRpcApiClient {
   private cachedAvailableModels: AvailableCppModelsResponse | null = null;
   private modelsLastFetched: number = 0;
   private readonly MODELS_CACHE_TTL = 10 * 60 * 1000; // 模型缓存10分钟
-  private pendingUploads = new Set<string>(); // 🔧 跟踪正在进行的文件上传
+  private pendingUploads = new Map<string, Promise<boolean>>(); // 🔧 正在进行的文件上传/同步，并发请求共享同一结果
+  private fileSyncUnavailableUntil = 0; // 🔧 文件同步服务失败后暂停重试的截止时间
+  private readonly FILE_SYNC_RETRY_DELAY = 60 * 1000;
+  // 🔄 服务器端文件状态缺失或不一致时返回的错误码和消息
+  private readonly FILE_SYNC_MISMATCH_CODES = new Set([Code.NotFound, Code.FailedPrecondition, Code.DataLoss]);
+  private readonly FILE_SYNC_MISMATCH_MESSAGE = /file ?sync|file (?:is )?not synced|hash mismatch|file not found|file version mismatch/i;
+  private cachedFsConfig: FSConfigResponse | null = null; // 📂 缓存的FSConfig配置
+  private cachedFileSyncEnabled: boolean | null = null; // 📂 FSIsEnabledForUser 结果，null 表示未知
+  private fsConfigLastFetched: number = 0;
+  private fileSyncEnabledLastFetched: number = 0;
+  private fileSyncStorage: vscode.Memento | null = null; // 💾 持久化文件同步会话和状态
+  private readonly FILESYNC_SESSION_KEY = 'cometixTab.filesyncSession';
+  private cachedCursorPredictionEnabled: boolean | null = null; // 🎯 缓存的光标预测开关
+  private cursorPredictionLastFetched: number = 0;
+  private readonly sessionId = CryptoUtils.generateUUID(); // 🚩 MarkCppForEval 使用的会话ID
+  private appendModeSupported = true; // ➕ 服务器拒绝 CppAppend 后本次会话不再使用追加模式
+  private appendQueue: Promise<unknown> = Promise.resolve(); // ➕ CppAppend 按顺序发送，基准内容依次推进
+  private lastAppendedContent = new Map<string, string>(); // ➕ 每个文件上次追加后的内容
+  private lastContextReport: ContextReport | null = null; // 📐 最近一次 StreamCpp 请求的上下文组装结果
 
   constructor(options: ConnectRpcApiClientOptions) {
     this.logger = Logger.getInstance();
@@ -275,10 +329,18 @@ export class ConnectRpcApiClient {
     this.cppClient = createPromiseClient(CppService, transport);
     this.fileSyncClient = createPromiseClient(FileSyncService, fileSyncTransport);
 
+    // 自部署端点走 REST + SSE，其余调用仍使用 Connect RPC
+    const endpointType = options.endpointType === 'selfhosted' ? EndpointType.SELF_HOSTED : EndpointType.OFFICIAL;
+    this.transport = createCppTransport(
+      endpointType,
+      { aiClient: this.aiClient, cppClient: this.cppClient, fileSyncClient: this.fileSyncClient },
+      { baseUrl: options.baseUrl, authToken: options.authToken, clientKey: options.clientKey, timeoutMs: options.timeout }
+    );
+
     // 初始化已打开的文档
     this.editHistoryTracker.initializeOpenDocuments();
 
-    this.logger.info('✅ Connect RPC 客户端初始化完成');
+    this.logger.info(`✅ Connect RPC 客户端初始化完成 (端点类型: ${endpointType})`);
   }
 
   /**
@@ -294,6 +356,8 @@ export class ConnectRpcApiClient {
    * 使用 Connect RPC Server-Streaming
    */
   async *streamCpp(request: CompletionRequest, abortSignal?: AbortSignal): AsyncIterable<StreamCppResponse> {
+    let canUseFileSync = false;
+    let piggyback: PiggybackUpdates | undefined;
     try {
       this.logger.info('🚀 开始 Connect RPC StreamCpp 调用');
       this.logger.info(`📄 文件: ${request.currentFile.path}`);
@@ -316,26 +380,12 @@ export class ConnectRpcApiClient {
       this.logger.info(`📁 工作区路径: ${workspaceRootPath}`);
       const currentFileInfo = request.currentFile;
       
-      // 🔍 检查是否可以使用文件同步模式
-      // 🔄 恢复文件同步检查，但添加详细调试
-      // 🔧 修复：当有additionalFiles时禁用内容模式，因为服务器期望文件已同步
-      let canUseFileSync = this.fileSyncStateManager.isFileSynced(currentFileInfo, workspaceId);
-      
-      // 🚨 关键修复：动态处理additionalFiles
-      if (request.additionalFiles && request.additionalFiles.length > 0) {
-        this.logger.info(`🔍 发现 ${request.additionalFiles.length} 个附加文件，检查兼容性...`);
-        this.logger.debug(`📋 附加文件: ${request.additionalFiles.map(f => f.path).join(', ')}`);
-        
-        // 如果将使用内容模式，移除additionalFiles以避免"File not found"错误
-        if (!canUseFileSync) {
-          this.logger.warn(`⚠️ 内容模式不兼容附加文件，移除 ${request.additionalFiles.length} 个附加文件`);
-          request.additionalFiles = [];
-        } else {
-          this.logger.info(`✅ 文件同步模式，保留 ${request.additionalFiles.length} 个附加文件`);
-        }
-      }
-      this.logger.info(`🔍 文件同步检查结果: ${canUseFileSync ? '可使用文件同步' : '需要上传文件'}`);
-      if (!canUseFileSync) {
+      // 🔍 检查是否可以使用文件同步模式，未同步时先上传/增量同步
+      // 先等待批处理中该文件的同步完成，保证同一文件的版本按顺序递增
+      // 📓 笔记本的拼接缓冲区不是磁盘上的文件内容，始终使用内容模式
+      await getBatchSyncManager()?.waitForFileSync(currentFileInfo.path);
+      canUseFileSync = !request.notebook && this.fileSyncStateManager.isFileSynced(currentFileInfo, workspaceId);
+      if (!canUseFileSync && !request.notebook) {
         this.logger.info(`📋 文件同步状态详情:`);
         const syncState = this.fileSyncStateManager.getFileSyncState(currentFileInfo.path);
         if (syncState) {
@@ -345,8 +395,18 @@ export class ConnectRpcApiClient {
         } else {
           this.logger.info(`  ❌ 无同步状态记录`);
         }
+        
+        canUseFileSync = await this.ensureFileSynced(currentFileInfo, workspaceId);
+      }
+      this.logger.info(`🔍 文件同步检查结果: ${canUseFileSync ? '可使用文件同步' : '回退到内容模式'}`);
+      
+      // 内容模式下服务器无法解析附加文件，移除以避免"File not found"错误
+      if (request.additionalFiles && request.additionalFiles.length > 0 && !canUseFileSync) {
+        this.logger.warn(`⚠️ 内容模式不兼容附加文件，移除 ${request.additionalFiles.length} 个附加文件`);
+        request.additionalFiles = [];
       }
-      let versionInfo = canUseFileSync ? this.fileSyncStateManager.buildFileVersionInfo(currentFileInfo.path) : null;
+      
+      const versionInfo = canUseFileSync ? this.fileSyncStateManager.buildFileVersionInfo(currentFileInfo.path) : null;
       
       // 🐛 调试文件同步状态
       this.logger.debug(`🔍 文件同步状态调试:`);
@@ -357,57 +417,6 @@ export class ConnectRpcApiClient {
       if (versionInfo) {
         this.logger.debug(`  📝 版本信息: ${JSON.stringify(versionInfo)}`);
       }
-      
-      this.logger.info(`🔄 文件同步模式: ${canUseFileSync ? '启用' : '禁用'}`);
-      if (versionInfo) {
-        this.logger.info(`📝 文件版本: ${versionInfo.fileVersion}, 哈希: ${versionInfo.sha256Hash.substring(0, 16)}...`);
-      }
-      
-      // 🔍 详细记录文件内容和同步设置
-      const fileContentLength = request.currentFile.content?.length || 0;
-      const willIncludeContent = !canUseFileSync;
-      this.logger.info(`📄 文件内容处理:`);
-      this.logger.info(`   📊 原始内容长度: ${fileContentLength} 字符`);
-      this.logger.info(`   📝 将包含内容: ${willIncludeContent}`);
-      this.logger.info(`   🔗 依赖文件同步: ${canUseFileSync}`);
-
-      // 🔧 强制使用内容模式进行测试
-      if (!canUseFileSync) {
-        this.logger.info('🧪 强制使用内容模式进行测试，跳过文件上传');
-        /*
-        try {
-          // 🔧 避免重复上传：检查是否已经有相同文件正在上传
-          const fileKey = `${workspaceId}:${currentFileInfo.path}:${currentFileInfo.sha256}`;
-          if (!this.pendingUploads.has(fileKey)) {
-            this.pendingUploads.add(fileKey);
-            try {
-              await this.uploadFile(currentFileInfo, workspaceId);
-              this.logger.info('✅ 文件上传完成，继续StreamCpp调用');
-            } finally {
-              this.pendingUploads.delete(fileKey);
-            }
-          } else {
-            this.logger.info('⏭️ 文件上传已在进行中，跳过重复上传');
-            // 等待一小段时间让上传完成
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-          
-          // 🔧 修复：更新文件同步状态，避免重复请求
-          canUseFileSync = this.fileSyncStateManager.isFileSynced(currentFileInfo, workspaceId);
-          versionInfo = canUseFileSync ? this.fileSyncStateManager.buildFileVersionInfo(currentFileInfo.path) : null;
-          
-          if (canUseFileSync && versionInfo) {
-            this.logger.info(`🔄 文件同步状态已更新: 版本=${versionInfo.fileVersion}`);
-            this.logger.info(`✅ 切换到文件同步模式 - 将使用空内容 + rely_on_filesync=true`);
-          } else {
-            this.logger.warn('⚠️ 文件上传完成但同步状态未更新，将使用纯内容模式');
-          }
-        } catch (uploadError) {
-          this.logger.warn('⚠️ 文件上传失败，使用纯内容模式', uploadError as Error);
-          // 继续执行，使用纯内容模式
-        }
-        */
-      }
 
       // 🔍 最终文件同步状态调试
       this.logger.info(`📋 最终文件处理模式: ${canUseFileSync ? '文件同步模式' : '内容模式'}`);
@@ -421,15 +430,53 @@ export class ConnectRpcApiClient {
       // 🔧 获取编辑历史和意图
       const fileName = path.basename(currentFilePath);
       const fullFilePath = path.resolve(workspaceRootPath, currentFilePath);
-      const diffHistory = this.editHistoryTracker.buildDiffHistory(fullFilePath);
+      // 🔒 编辑历史同样可能包含密钥
+      const fullDiffHistory = ContentGuard.getInstance().redactContent(currentFilePath, this.editHistoryTracker.buildDiffHistory(fullFilePath), false).content;
       const editIntent = this.editHistoryTracker.getEditIntent(fullFilePath);
 
-      this.logger.info(`📝 编辑历史长度: ${diffHistory.length} 字符`);
+      this.logger.info(`📝 编辑历史长度: ${fullDiffHistory.length} 字符`);
       this.logger.info(`🎯 编辑意图: ${editIntent}`);
-      if (diffHistory.length > 0) {
-        this.logger.debug(`📋 差异历史预览: ${diffHistory.substring(0, 100)}...`);
+      if (fullDiffHistory.length > 0) {
+        this.logger.debug(`📋 差异历史预览: ${fullDiffHistory.substring(0, 100)}...`);
       }
 
+      // 📐 按 token 预算裁剪上下文，避免大仓库中请求体膨胀
+      const assembled = assembleRequestContext(request, fullDiffHistory, ConfigManager.getConfig().contextTokenBudget, canUseFileSync);
+      request = assembled.request;
+      const diffHistory = assembled.diffHistory;
+      this.lastContextReport = assembled.report;
+      const [reportSummary, ...reportEntries] = formatContextReport(assembled.report);
+      this.logger.info(reportSummary);
+      reportEntries.forEach(line => this.logger.debug(line));
+
+      // 📐 预算不足时当前文件只发送光标附近的连续行
+      const fileContent = request.currentFile.content || '';
+      const fileLines = fileContent.split('\n');
+      const contentsStartAtLine = assembled.currentFileWindow?.startLine ?? 0;
+      const contentsEndLine = assembled.currentFileWindow?.endLine ?? fileLines.length - 1;
+
+      // ➕ 追加模式：光标位于文件末尾时，另外通过 CppAppend 增量发送新追加的内容；
+      // StreamCpp 仍然携带完整的内容窗口，不等待 CppAppend。文件同步模式本身不发送内容，无需追加
+      if (request.appendMode && !canUseFileSync) {
+        this.appendQueue = this.appendQueue
+          .then(() => this.cppAppend(currentFilePath, fileContent))
+          .then(appended => this.logger.debug(`➕ 追加模式: ${appended ? 'CppAppend 成功' : '未发送 CppAppend'}`));
+      }
+      const isWindowed = contentsStartAtLine > 0 || contentsEndLine < fileLines.length - 1;
+      const sentContents = isWindowed ? fileLines.slice(contentsStartAtLine, contentsEndLine + 1).join('\n') : fileContent;
+
+      // 🩺 收集光标附近的诊断，让模型能够针对错误提出修复
+      // 笔记本的诊断挂在各个单元格上，行号与缓冲区不一致，不发送
+      const nearbyDiagnostics = request.notebook ? [] : collectNearbyDiagnostics(
+        vscode.Uri.file(fullFilePath),
+        request.cursorPosition.line,
+        ConfigManager.getConfig().linterDiagnosticsRadius
+      );
+      this.logger.info(`🩺 光标附近诊断: ${nearbyDiagnostics.length} 条`);
+
+      // 📎 其他已编辑文件的增量更新，服务器开始响应后才记录新版本
+      piggyback = canUseFileSync ? getBatchSyncManager()?.takeUpdatesForRequest(workspaceId, currentFilePath) : undefined;
+
       const streamRequest = new StreamCppRequest({
         workspaceId: workspaceId,
         
@@ -437,7 +484,7 @@ export class ConnectRpcApiClient {
         currentFile: new CurrentFileInfo({
           relativeWorkspacePath: currentFilePath,
           // 🔧 关键修复：文件同步模式下完全省略contents字段，而不是设置为空字符串
-          ...(canUseFileSync ? {} : { contents: request.currentFile.content || '' }),
+          ...(canUseFileSync ? {} : { contents: sentContents, contentsStartAtLine }),
           cursorPosition: new CursorPosition({
             line: request.cursorPosition.line,
             column: request.cursorPosition.column
@@ -446,12 +493,38 @@ export class ConnectRpcApiClient {
           fileVersion: canUseFileSync && versionInfo ? versionInfo.fileVersion : this.editHistoryTracker.getFileVersion(currentFilePath),
           sha256Hash: versionInfo?.sha256Hash || (request.currentFile.sha256 || ''),
           relyOnFilesync: canUseFileSync, // 🔧 根据文件同步状态自动设置
-          languageId: this.getLanguageId(currentFilePath),
+          languageId: request.notebook?.languageId ?? this.getLanguageId(currentFilePath),
           totalNumberOfLines: (request.currentFile.content || '').split('\n').length,
           workspaceRootPath: workspaceRootPath,
-          lineEnding: this.detectLineEnding(request.currentFile.content || '')
+          lineEnding: this.detectLineEnding(request.currentFile.content || ''),
+          diagnostics: nearbyDiagnostics.map(toProtoDiagnostic),
+          // 📓 笔记本单元格边界
+          cells: request.notebook ? request.notebook.cellStartLines.map(() => new CurrentFileInfo_NotebookCell()) : [],
+          cellStartLines: request.notebook?.cellStartLines ?? [],
+          // 🐼 推断的 DataFrame 结构
+          dataframes: (request.dataframes || []).map(frame => new DataframeInfo({
+            name: frame.name,
+            dataDimensionality: 2,
+            columns: frame.columns.map(column => new DataframeInfo_Column(column)),
+            indexColumn: frame.indexColumn || ''
+          })),
+          // 🔎 BM25 检索到的相关代码块（行号从 1 开始）
+          topChunks: (request.topChunks || []).map(chunk => new BM25Chunk({
+            relativePath: chunk.relativePath,
+            content: chunk.content,
+            range: new SimplestRange({ startLine: chunk.startLine + 1, endLineInclusive: chunk.endLine + 1 }),
+            score: Math.round(chunk.score * 100)
+          }))
         }),
         
+        // 🩺 Linter 错误（文件同步模式和只发送部分行时省略文件内容，诊断行号对应整个文件）
+        linterErrors: nearbyDiagnostics.length > 0
+          ? toLinterErrors(currentFilePath, nearbyDiagnostics, canUseFileSync || isWindowed ? undefined : sentContents)
+          : undefined,
+        
+        // 📎 其他已编辑文件的增量同步更新（由批处理管理器合并）
+        filesyncUpdates: piggyback?.updates ?? [],
+        
         // 🔧 关键修复：添加 file_diff_histories 字段
         fileDiffHistories: diffHistory ? [new CppFileDiffHistory({
           fileName: fileName,
@@ -464,9 +537,21 @@ export class ConnectRpcApiClient {
         }),
         
         // 🚀 关键增强：添加多文件上下文支持
-        contextItems: request.additionalFiles ? this.buildContextItems(request.additionalFiles) : [],
+        contextItems: [
+          ...this.buildRuleContextItems(request.cursorRules || []),
+          ...(request.additionalFiles ? this.buildContextItems(request.additionalFiles) : [])
+        ],
         additionalFiles: request.additionalFiles ? this.buildAdditionalFiles(request.additionalFiles) : [],
         
+        // 🧬 光标附近符号的 LSP 子图上下文
+        lspContexts: request.lspContexts ? this.buildLspContexts(request.lspContexts) : [],
+        
+        // 🧷 函数调用内的签名帮助与语言服务器补全候选
+        parameterHints: (request.parameterHints || []).map(hint => new CppParameterHint(hint)),
+        lspSuggestedItems: request.lspSuggestedItems && request.lspSuggestedItems.length > 0
+          ? new LspSuggestedItems({ suggestions: request.lspSuggestedItems.map(label => new LspSuggestion({ label })) })
+          : undefined,
+        
         // 基础参数
         modelName: request.modelName || 'auto',
         isDebug: false,
@@ -479,7 +564,7 @@ export class ConnectRpcApiClient {
       this.logger.info(`📄 文件路径: ${streamRequest.currentFile?.relativeWorkspacePath}`);
       this.logger.info(`🔤 语言ID: ${streamRequest.currentFile?.languageId}`);
       this.logger.info(`📊 内容长度: ${streamRequest.currentFile?.contents?.length || 0} 字符${canUseFileSync ? ' (文件同步模式:省略contents字段)' : ''}`);
-      this.logger.info(`📚 上下文文件数: ${streamRequest.contextItems.length}, 附加文件数: ${streamRequest.additionalFiles.length}`);
+      this.logger.info(`📚 上下文文件数: ${streamRequest.contextItems.length}, 附加文件数: ${streamRequest.additionalFiles.length}, LSP 符号数: ${streamRequest.lspContexts.length}, 参数提示数: ${streamRequest.parameterHints.length}, BM25 代码块数: ${streamRequest.currentFile?.topChunks.length || 0}`);
       this.logger.info(`🎯 模型: ${streamRequest.modelName}`);
       this.logger.info(`📝 差异历史条目数: ${streamRequest.fileDiffHistories.length}`);
       
@@ -543,15 +628,19 @@ export class ConnectRpcApiClient {
         timeoutController.signal;
 
       // 使用 Connect RPC 流式调用
-      const stream = this.aiClient.streamCpp(streamRequest, { 
+      const stream = this.transport.streamCpp(streamRequest, { 
         signal: combinedSignal 
       });
 
+      // 🎬 录制请求与响应，便于之后离线回放
+      const recording = getSessionRecorder()?.startRecording(request, streamRequest);
+
       let responseCount = 0;
 
       try {
         for await (const response of stream) {
           responseCount++;
+          piggyback?.commit();
           
           this.logger.info(`📨 收到 StreamCpp 响应 #${responseCount}:`);
           
@@ -579,6 +668,7 @@ export class ConnectRpcApiClient {
             this.logger.info(`🔗 绑定ID: ${response.bindingId}`);
           }
           
+          recording?.addResponse(response);
           yield response;
           
           if (response.doneStream) {
@@ -587,12 +677,26 @@ export class ConnectRpcApiClient {
             break;
           }
         }
+      } catch (streamError) {
+        recording?.finish(streamError);
+        throw streamError;
       } finally {
         clearTimeout(timeoutId);
+        // 消费方提前结束迭代时也会执行到这里
+        recording?.finish();
+        // 没有收到任何响应（失败或被取消）时，随请求发送的更新视为未被服务器接受
+        piggyback?.rollback();
       }
 
     } catch (error) {
       this.logger.error('❌ Connect RPC StreamCpp 调用失败', error as Error);
+      piggyback?.rollback();
+      
+      // 🔄 依赖文件同步时失败，可能是服务器端版本不一致：清除同步状态，下次请求重新上传
+      if (canUseFileSync && this.isFileSyncMismatchError(error)) {
+        this.logger.warn(`🔄 服务器报告文件版本不一致，下次请求将重新上传: ${request.currentFile.path}`);
+        this.fileSyncStateManager.removeFileSyncState(request.currentFile.path);
+      }
       
       // 🔍 增强错误日志：详细分析错误类型和内容
       if (error && typeof error === 'object') {
@@ -643,6 +747,85 @@ export class ConnectRpcApiClient {
     }
   }
 
+  /**
+   * 确保文件已同步到服务器：从未上传过则完整上传，已上传则通过 FSSyncFile 增量同步，
+   * 服务器报告版本/哈希不一致时重新上传。返回是否可以使用文件同步模式
+   */
+  private async ensureFileSynced(fileInfo: FileInfo, workspaceId: string): Promise<boolean> {
+    const policy = ConfigManager.getConfig().fileSyncPolicy;
+    if (!policy.enabled) {
+      this.logger.debug('⏭️ 服务器未启用文件同步，使用内容模式');
+      return false;
+    }
+    if (Buffer.byteLength(fileInfo.content || '', 'utf8') > policy.maxFileSizeBytes) {
+      this.logger.info(`⏭️ 文件超过同步大小上限 (${policy.maxFileSizeBytes} 字节)，使用内容模式`);
+      return false;
+    }
+    if (Date.now() < this.fileSyncUnavailableUntil) {
+      this.logger.debug('⏭️ 文件同步服务暂不可用，使用内容模式');
+      return false;
+    }
+
+    // 🔧 避免重复上传：相同文件内容的并发请求等待同一次上传
+    const fileKey = `${workspaceId}:${fileInfo.path}:${fileInfo.sha256}`;
+    const pending = this.pendingUploads.get(fileKey);
+    if (pending) {
+      this.logger.info('⏭️ 文件上传已在进行中，等待其完成');
+      return pending;
+    }
+
+    const syncPromise = this.performFileSync(fileInfo, workspaceId);
+    this.pendingUploads.set(fileKey, syncPromise);
+    try {
+      return await syncPromise;
+    } finally {
+      this.pendingUploads.delete(fileKey);
+    }
+  }
+
+  private async performFileSync(fileInfo: FileInfo, workspaceId: string): Promise<boolean> {
+    try {
+      const lastContent = this.fileSyncStateManager.getLastSyncedContent(fileInfo.path);
+      const syncState = this.fileSyncStateManager.getFileSyncState(fileInfo.path);
+      const canSyncIncrementally = this.fileSyncStateManager.canPerformIncrementalSync(fileInfo.path) &&
+        lastContent !== null && syncState?.workspaceId === workspaceId;
+
+      if (canSyncIncrementally) {
+        try {
+          const syncResponse = await this.syncFile(fileInfo, workspaceId, lastContent);
+          if (syncResponse.error === FSSyncErrorType.FS_SYNC_ERROR_TYPE_UNSPECIFIED) {
+            return this.fileSyncStateManager.isFileSynced(fileInfo, workspaceId);
+          }
+          this.logger.warn(`🔄 增量同步被服务器拒绝 (错误码=${syncResponse.error})，重新上传完整文件`);
+        } catch (syncError) {
+          this.logger.warn('⚠️ 增量同步失败，重新上传完整文件', syncError as Error);
+        }
+        this.fileSyncStateManager.removeFileSyncState(fileInfo.path);
+      }
+
+      const uploadResponse = await this.uploadFile(fileInfo, workspaceId);
+      if (uploadResponse.error !== FSUploadErrorType.FS_UPLOAD_ERROR_TYPE_UNSPECIFIED) {
+        this.logger.warn(`⚠️ 文件上传被服务器拒绝 (错误码=${uploadResponse.error})，使用内容模式`);
+        return false;
+      }
+      return this.fileSyncStateManager.isFileSynced(fileInfo, workspaceId);
+    } catch (error) {
+      this.fileSyncUnavailableUntil = Date.now() + this.FILE_SYNC_RETRY_DELAY;
+      this.logger.warn(`⚠️ 文件同步失败，${this.FILE_SYNC_RETRY_DELAY / 1000} 秒内使用内容模式`, error as Error);
+      return false;
+    }
+  }
+
+  /**
+   * StreamCpp 错误是否表示服务器端的文件同步状态与本地不一致
+   */
+  private isFileSyncMismatchError(error: unknown): boolean {
+    // 只看 ConnectError 的错误码和服务器原始消息；客户端版本过旧、网络错误等不应触发重新上传
+    const connectError = ConnectError.from(error);
+    return this.FILE_SYNC_MISMATCH_CODES.has(connectError.code) &&
+      this.FILE_SYNC_MISMATCH_MESSAGE.test(connectError.rawMessage);
+  }
+
   /**
    * 上传文件
    * 使用 Connect RPC Unary 调用
@@ -671,7 +854,7 @@ export class ConnectRpcApiClient {
       this.logger.info(`🔐 SHA256: ${uploadRequest.sha256Hash?.substring(0, 16) || 'undefined'}...`);
       this.logger.info(`📦 UUID: ${uploadRequest.uuid}`);
 
-      const response = await this.fileSyncClient.fSUploadFile(uploadRequest);
+      const response = await this.transport.uploadFile(uploadRequest);
       
       this.logger.info('✅ Connect RPC 文件上传成功');
       this.logger.info(`📝 返回信息: 错误码=${response.error} (0=成功)`);
@@ -745,7 +928,7 @@ export class ConnectRpcApiClient {
       this.logger.info('📡 发送 Connect RPC FSSyncFile 请求');
       this.logger.debug(`🔍 请求详情: UUID=${uuid}, 版本=${currentModelVersion}->${newModelVersion}`);
       
-      const response = await this.fileSyncClient.fSSyncFile(syncRequest);
+      const response = await this.transport.syncFile(syncRequest);
       
       this.logger.info('✅ Connect RPC 文件增量同步成功');
       this.logger.info(`📝 返回信息: 错误码=${response.error} (0=成功)`);
@@ -796,7 +979,7 @@ export class ConnectRpcApiClient {
       });
 
       // 使用流式调用测试连接，但只取第一个响应
-      const stream = this.aiClient.streamCpp(testRequest, { 
+      const stream = this.transport.streamCpp(testRequest, { 
         signal: AbortSignal.timeout(5000) 
       });
 
@@ -829,6 +1012,7 @@ export class ConnectRpcApiClient {
    */
   regenerateFilesyncCookie(): void {
     this.filesyncCookie = CryptoUtils.generateFilesyncCookie(); 
+    this.resetPersistedFileSyncSession();
     this.logger.info('🔄 FilesyncCookie 已重新生成');
   }
 
@@ -844,9 +1028,57 @@ export class ConnectRpcApiClient {
    */
   regenerateFilesyncClientKey(): void {
     this.filesyncClientKey = CryptoUtils.generateClientKey();
+    this.resetPersistedFileSyncSession();
     this.logger.info('🔄 FileSyncService 客户端密钥已重新生成');
   }
 
+  /**
+   * 💾 关联持久化存储（workspaceState）
+   * 服务器按 FilesyncCookie / 客户端密钥区分同步会话，因此两者与同步状态一起保存，
+   * 重启后恢复同一会话才能直接使用 relyOnFilesync
+   */
+  attachFileSyncStorage(storage: vscode.Memento): void {
+    this.fileSyncStorage = storage;
+
+    const session = storage.get<{ filesyncCookie?: unknown; filesyncClientKey?: unknown }>(this.FILESYNC_SESSION_KEY);
+    if (session && typeof session.filesyncCookie === 'string' && session.filesyncCookie.length > 0 &&
+        typeof session.filesyncClientKey === 'string' && session.filesyncClientKey.length > 0) {
+      this.filesyncCookie = session.filesyncCookie;
+      this.filesyncClientKey = session.filesyncClientKey;
+      this.fileSyncStateManager.attachStorage(storage);
+      this.logger.info('💾 已恢复文件同步会话');
+      return;
+    }
+
+    // 没有可用的会话：之前保存的同步状态无法再被服务器识别
+    this.fileSyncStateManager.attachStorage(storage);
+    this.resetPersistedFileSyncSession();
+  }
+
+  /**
+   * 保存当前同步会话，并清除属于旧会话的同步状态
+   */
+  private resetPersistedFileSyncSession(): void {
+    if (!this.fileSyncStorage) {
+      return;
+    }
+
+    this.fileSyncStateManager.clearAll();
+    this.fileSyncStorage.update(this.FILESYNC_SESSION_KEY, {
+      filesyncCookie: this.filesyncCookie,
+      filesyncClientKey: this.filesyncClientKey
+    }).then(undefined, error => {
+      this.logger.warn('⚠️ 保存文件同步会话失败', error as Error);
+    });
+  }
+
+  /**
+   * 最近一次 StreamCpp 请求包含/省略了哪些上下文
+   */
+  getLastContextReport(): ContextReport | null {
+    return this.lastContextReport;
+  }
+
   /**
    * 获取 EditHistoryTracker 实例（用于调试）
    */
@@ -916,6 +1148,18 @@ export class ConnectRpcApiClient {
     }));
   }
 
+  /**
+   * 构建项目规则上下文项 - 规则名作为 symbol
+   */
+  private buildRuleContextItems(rules: AppliedCursorRule[]): CppContextItem[] {
+    return rules.map(rule => new CppContextItem({
+      relativeWorkspacePath: rule.path,
+      symbol: rule.name,
+      contents: rule.content,
+      score: 1.0
+    }));
+  }
+
   /**
    * 构建附加文件 - 将 FileInfo 转换为 AdditionalFile
    */
@@ -931,6 +1175,24 @@ export class ConnectRpcApiClient {
   /**
    * 获取上下文类型
    */
+  /**
+   * 构建 LSP 子图上下文
+   */
+  private buildLspContexts(contexts: LspSymbolContext[]): LspSubgraphFullContext[] {
+    return contexts.map(context => new LspSubgraphFullContext({
+      uri: context.uri,
+      symbolName: context.symbolName,
+      positions: context.positions.map(position => new LspSubgraphPosition(position)),
+      contextItems: context.items.map(item => new LspSubgraphContextItem({
+        uri: item.uri,
+        type: item.type,
+        content: item.content,
+        range: item.range ? new LspSubgraphRange(item.range) : undefined
+      })),
+      score: context.score
+    }));
+  }
+
   private getContextType(filePath: string): string {
     const fileName = filePath.split('/').pop() || '';
     
@@ -1037,7 +1299,7 @@ export class ConnectRpcApiClient {
       const request = new CppConfigRequest({});
       const checksum = getOrGenerateClientKey();
       
-      const response = await this.aiClient.cppConfig(request, {
+      const response = await this.transport.cppConfig(request, {
         headers: {
           "authorization": `Bearer ${this.options.authToken}`,
           "x-cursor-client-version": "1.6.1-connectrpc",
@@ -1077,7 +1339,7 @@ export class ConnectRpcApiClient {
       const request = new AvailableCppModelsRequest({});
       const checksum = getOrGenerateClientKey();
       
-      const response = await this.cppClient.availableModels(request, {
+      const response = await this.transport.availableModels(request, {
         headers: {
           "authorization": `Bearer ${this.options.authToken}`,
           "x-cursor-client-version": "1.6.1-connectrpc",
@@ -1131,10 +1393,24 @@ export class ConnectRpcApiClient {
         this.logger.info(`📝 更新幽灵文本模式: ${config.isGhostText}`);
       }
       
-      // 应用启发式算法配置
-      if (config.heuristics && config.heuristics.length > 0) {
-        await vsCodeConfig.update('enabledHeuristics', config.heuristics, vscode.ConfigurationTarget.Global);
-        this.logger.info(`📝 更新启发式算法: ${config.heuristics.join(', ')}`);
+      // 应用启发式算法配置（保存在内存中，由补全过滤管道读取；用户设置优先）
+      const heuristicNames = config.heuristics.map(heuristic => CppConfigResponse_Heuristic[heuristic]);
+      ConfigManager.setServerConfig({ enabledHeuristics: heuristicNames });
+      this.logger.info(`📝 更新启发式算法: ${heuristicNames.join(', ') || '无'}`);
+      
+      // 应用最近被拒绝编辑的阈值和连续清除上限（同样只保存在内存中）
+      if (config.recentlyRejectedEditThresholds) {
+        const thresholds = {
+          hardRejectThreshold: config.recentlyRejectedEditThresholds.hardRejectThreshold,
+          softRejectThreshold: config.recentlyRejectedEditThresholds.softRejectThreshold
+        };
+        ConfigManager.setServerConfig({ recentlyRejectedEditThresholds: thresholds });
+        this.logger.info(`📝 更新拒绝阈值: 硬=${thresholds.hardRejectThreshold}, 软=${thresholds.softRejectThreshold}`);
+      }
+      
+      if (config.maxNumberOfClearedSuggestionsSinceLastAccept !== undefined) {
+        ConfigManager.setServerConfig({ maxClearedSuggestionsSinceLastAccept: config.maxNumberOfClearedSuggestionsSinceLastAccept });
+        this.logger.info(`📝 更新连续清除上限: ${config.maxNumberOfClearedSuggestionsSinceLastAccept}`);
       }
       
       this.logger.info('✅ 服务器配置应用完成');
@@ -1144,7 +1420,7 @@ export class ConnectRpcApiClient {
   }
 
   /**
-   * 初始化时获取并应用CppConfig配置
+   * 初始化时获取并应用CppConfig配置（同时刷新文件同步策略）
    */
   async initializeCppConfig(): Promise<void> {
     this.logger.info('🚀 初始化CppConfig配置...');
@@ -1156,6 +1432,108 @@ export class ConnectRpcApiClient {
     } else {
       this.logger.warn('⚠️ CppConfig初始化失败，使用默认配置');
     }
+    
+    await this.initializeFileSyncConfig();
+  }
+
+  /**
+   * 📂 查询服务器是否为当前用户启用文件同步
+   * 与 CppConfig 共用缓存时长；失败时返回 null（保持当前策略不变）
+   */
+  async isFileSyncEnabledForUser(forceRefresh: boolean = false): Promise<boolean | null> {
+    const now = Date.now();
+
+    if (!forceRefresh && this.cachedFileSyncEnabled !== null && (now - this.fileSyncEnabledLastFetched) < this.CONFIG_CACHE_TTL) {
+      return this.cachedFileSyncEnabled;
+    }
+
+    if (!this.transport.fileSyncEnabledForUser) {
+      this.logger.debug('📂 当前端点不支持 FSIsEnabledForUser，保持当前策略');
+      return null;
+    }
+
+    try {
+      const response = await this.transport.fileSyncEnabledForUser(new FSIsEnabledForUserRequest({
+        uuid: CryptoUtils.generateUUID()
+      }));
+
+      this.cachedFileSyncEnabled = response.enabled;
+      this.fileSyncEnabledLastFetched = now;
+      this.logger.info(`📂 文件同步服务端状态: ${response.enabled ? '已启用' : '未启用'}`);
+      return response.enabled;
+    } catch (error) {
+      this.logger.warn('⚠️ 查询文件同步状态失败，保持当前策略', error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * 📂 获取FSConfig配置（文件大小上限、同步防抖等）
+   */
+  async getFsConfig(forceRefresh: boolean = false): Promise<FSConfigResponse | null> {
+    const now = Date.now();
+
+    if (!forceRefresh && this.cachedFsConfig && (now - this.fsConfigLastFetched) < this.CONFIG_CACHE_TTL) {
+      this.logger.debug('📋 使用缓存的FSConfig配置');
+      return this.cachedFsConfig;
+    }
+
+    if (!this.transport.fileSyncConfig) {
+      this.logger.debug('📂 当前端点不支持 FSConfig，保持当前策略');
+      return null;
+    }
+
+    try {
+      this.logger.info('🔍 获取FSConfig配置...');
+
+      const response = await this.transport.fileSyncConfig(new FSConfigRequest({}));
+
+      this.cachedFsConfig = response;
+      this.fsConfigLastFetched = now;
+
+      this.logger.info('✅ FSConfig配置获取成功');
+      this.logger.debug(`📋 配置详情: 最大文件=${response.maxFileSizeToSyncBytes}, 同步防抖=${response.syncDebounceMs}ms, 更新阈值=${response.syncUpdateThreshold}`);
+
+      return response;
+    } catch (error) {
+      this.logger.error('❌ 获取FSConfig配置失败', error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * 📂 获取并应用文件同步策略（FSIsEnabledForUser + FSConfig）
+   */
+  async initializeFileSyncConfig(): Promise<void> {
+    const enabled = await this.isFileSyncEnabledForUser(true);
+    const fsConfig = await this.getFsConfig(true);
+    if (enabled === null && !fsConfig) {
+      this.logger.warn('⚠️ 文件同步策略获取失败，使用当前配置');
+      return;
+    }
+
+    // 只映射含义一致的字段；服务器策略保存在内存中，用户显式设置的字段优先
+    const serverPolicy: Partial<FileSyncPolicy> = {};
+    if (enabled !== null) {
+      serverPolicy.enabled = enabled;
+    }
+    if (fsConfig?.maxFileSizeToSyncBytes) {
+      serverPolicy.maxFileSizeBytes = fsConfig.maxFileSizeToSyncBytes;
+    }
+    if (fsConfig?.syncDebounceMs) {
+      serverPolicy.flushIntervalMs = fsConfig.syncDebounceMs;
+    }
+    ConfigManager.setServerFileSyncPolicy(serverPolicy);
+
+    const policy = ConfigManager.getConfig().fileSyncPolicy;
+    this.logger.info(`📝 更新文件同步策略: 启用=${policy.enabled}, 最大文件=${policy.maxFileSizeBytes}B, 批处理=${policy.batchSizeLimitBytes}B/${policy.flushIntervalMs}ms/${policy.maxBatchItems}项`);
+  }
+
+  /**
+   * 获取当前缓存的FSConfig配置
+   */
+  getCachedFsConfig(): FSConfigResponse | null {
+    return this.cachedFsConfig;
   }
 
   /**
@@ -1192,6 +1570,223 @@ export class ConnectRpcApiClient {
     }
   }
 
+  /**
+   * 🚩 标记补全用于评估（用户主动反馈的问题补全）
+   */
+  async markCppForEval(
+    requestId: string,
+    responseType: MarkCppRequest_CppResponseTypes,
+    options: { desiredCompletion?: string; startLineNumber?: number; endLineNumber?: number; modelName?: string } = {}
+  ): Promise<MarkCppResponse | null> {
+    try {
+      this.logger.info(`🚩 标记补全用于评估: ${requestId} -> ${MarkCppRequest_CppResponseTypes[responseType]}`);
+
+      const request = new MarkCppRequest({
+        requestId,
+        sessionId: this.sessionId,
+        responseType,
+        desiredCompletion: options.desiredCompletion,
+        rangeTransformation: options.startLineNumber !== undefined ? new MarkCppRequest_RangeTransformation({
+          startLineNumber: options.startLineNumber,
+          endLineNumber: options.endLineNumber ?? options.startLineNumber
+        }) : undefined,
+        modelCodeName: options.modelName || 'auto',
+        currentPerformanceNowTime: performance.now(),
+        sessionPerformanceOriginTime: performance.timeOrigin
+      });
+
+      const checksum = getOrGenerateClientKey();
+
+      const response = await this.cppClient.markCppForEval(request, {
+        headers: {
+          "authorization": `Bearer ${this.options.authToken}`,
+          "x-cursor-client-version": "1.6.1-connectrpc",
+          "x-cursor-checksum": checksum,
+          "User-Agent": "connectrpc/1.6.1"
+        }
+      });
+
+      this.logger.info('✅ 补全评估标记成功');
+      return response;
+
+    } catch (error) {
+      this.logger.error('❌ 标记补全评估失败', error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * 🎯 查询服务器是否为当前用户启用光标预测
+   * 与 CppConfig 共用缓存时长，失败时视为未启用
+   */
+  async isCursorPredictionEnabled(forceRefresh: boolean = false): Promise<boolean> {
+    const now = Date.now();
+
+    if (!forceRefresh && this.cachedCursorPredictionEnabled !== null && (now - this.cursorPredictionLastFetched) < this.CONFIG_CACHE_TTL) {
+      return this.cachedCursorPredictionEnabled;
+    }
+
+    try {
+      const checksum = getOrGenerateClientKey();
+
+      const response = await this.aiClient.isCursorPredictionEnabled(new IsCursorPredictionEnabledRequest({}), {
+        headers: {
+          "authorization": `Bearer ${this.options.authToken}`,
+          "x-cursor-client-version": "1.6.1-connectrpc",
+          "x-cursor-checksum": checksum,
+          "User-Agent": "connectrpc/1.6.1"
+        }
+      });
+
+      this.cachedCursorPredictionEnabled = response.enabled;
+      this.logger.info(`🎯 光标预测服务端状态: ${response.enabled ? '已启用' : '未启用'}`);
+    } catch (error) {
+      this.logger.warn('⚠️ 查询光标预测状态失败，暂时禁用光标预测', error as Error);
+      this.cachedCursorPredictionEnabled = false;
+    }
+
+    this.cursorPredictionLastFetched = now;
+    return this.cachedCursorPredictionEnabled;
+  }
+
+  /**
+   * 🎯 流式预测下一个编辑位置
+   * 使用 Connect RPC Server-Streaming，响应按 oneof 分块返回（文件名 / 行号 / 预期内容）
+   */
+  async *streamNextCursorPrediction(request: CursorPredictionRequest, abortSignal?: AbortSignal): AsyncIterable<StreamNextCursorPredictionResponse> {
+    const workspaceRootPath = this.workspaceManager.getCurrentWorkspacePath();
+    const workspaceId = this.workspaceManager.getWorkspaceId();
+    const currentFilePath = request.currentFile.path;
+    const fullFilePath = path.resolve(workspaceRootPath, currentFilePath);
+    const content = request.currentFile.content || '';
+    const diffHistory = ContentGuard.getInstance().redactContent(currentFilePath, this.editHistoryTracker.buildDiffHistory(fullFilePath), false).content;
+
+    const predictionRequest = new StreamNextCursorPredictionRequest({
+      workspaceId,
+      currentFile: new CurrentFileInfo({
+        relativeWorkspacePath: currentFilePath,
+        contents: content,
+        cursorPosition: new CursorPosition({
+          line: request.cursorPosition.line,
+          column: request.cursorPosition.column
+        }),
+        fileVersion: this.editHistoryTracker.getFileVersion(currentFilePath),
+        sha256Hash: request.currentFile.sha256 || '',
+        relyOnFilesync: false,
+        languageId: this.getLanguageId(currentFilePath),
+        totalNumberOfLines: content.split('\n').length,
+        workspaceRootPath,
+        lineEnding: this.detectLineEnding(content)
+      }),
+      fileDiffHistories: diffHistory ? [new CppFileDiffHistory({
+        fileName: path.basename(currentFilePath),
+        diffHistory: [diffHistory]
+      })] : [],
+      cppIntentInfo: new CppIntentInfo({
+        source: this.editHistoryTracker.getEditIntent(fullFilePath)
+      }),
+      // 可见范围使用1索引行号
+      fileVisibleRanges: request.visibleRanges && request.visibleRanges.length > 0 ? [
+        new StreamNextCursorPredictionRequest_FileVisibleRange({
+          filename: currentFilePath,
+          visibleRanges: request.visibleRanges.map(range => new StreamNextCursorPredictionRequest_VisibleRange({
+            startLineNumberInclusive: range.startLine + 1,
+            endLineNumberExclusive: range.endLine + 1
+          }))
+        })
+      ] : [],
+      modelName: request.modelName || 'auto',
+      isDebug: false,
+      enableMoreContext: true
+    });
+
+    this.logger.info(`🎯 发送 StreamNextCursorPrediction 请求: ${currentFilePath} @ ${request.cursorPosition.line}:${request.cursorPosition.column}`);
+
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(() => {
+      this.logger.debug('⏰ 光标预测请求超时，自动取消');
+      timeoutController.abort();
+    }, 10000);
+
+    const combinedSignal = abortSignal ?
+      this.combineAbortSignals([abortSignal, timeoutController.signal]) :
+      timeoutController.signal;
+
+    try {
+      const stream = this.aiClient.streamNextCursorPrediction(predictionRequest, {
+        signal: combinedSignal
+      });
+
+      for await (const response of stream) {
+        this.logger.debug(`📨 光标预测响应: ${response.response.case ?? 'empty'} = ${JSON.stringify(response.response.value)}`);
+        yield response;
+      }
+    } catch (error) {
+      this.logger.error('❌ StreamNextCursorPrediction 调用失败', error as Error);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * ➕ 追加补全（CppAppend）
+   * 仅在文件内容只是在末尾增长时发送新增部分；服务器拒绝后本次会话回退到纯 StreamCpp
+   * 返回 true 表示服务器确认了本次追加，没有新增内容时不发送请求并返回 false
+   */
+  async cppAppend(filePath: string, content: string): Promise<boolean> {
+    if (!this.appendModeSupported || !this.transport.cppAppend) {
+      return false;
+    }
+
+    // 没有基准内容或不是纯追加（中间发生了修改），无法增量发送；
+    // 同一次 StreamCpp 携带了完整内容，以当前内容作为之后追加的基准
+    const previousContent = this.lastAppendedContent.get(filePath);
+    if (previousContent === undefined || !content.startsWith(previousContent)) {
+      this.logger.debug(`➕ ${filePath} 不是纯追加，跳过 CppAppend`);
+      this.lastAppendedContent.set(filePath, content);
+      return false;
+    }
+
+    const appendedText = content.substring(previousContent.length);
+    if (appendedText.length === 0) {
+      return false;
+    }
+
+    try {
+      this.logger.info(`➕ CppAppend: ${filePath} 追加 ${appendedText.length} 字符`);
+
+      const request = new CppAppendRequest({
+        changes: new TextEncoder().encode(appendedText)
+      });
+
+      const checksum = getOrGenerateClientKey();
+
+      const response = await this.transport.cppAppend(request, {
+        headers: {
+          "authorization": `Bearer ${this.options.authToken}`,
+          "x-cursor-client-version": "1.6.1-connectrpc",
+          "x-cursor-checksum": checksum,
+          "User-Agent": "connectrpc/1.6.1"
+        }
+      });
+
+      if (!response.success) {
+        this.logger.warn('⚠️ 服务器拒绝 CppAppend，本次会话禁用追加模式');
+        this.appendModeSupported = false;
+        return false;
+      }
+
+      this.lastAppendedContent.set(filePath, content);
+      return true;
+
+    } catch (error) {
+      this.logger.warn('⚠️ CppAppend 调用失败，本次会话禁用追加模式', error as Error);
+      this.appendModeSupported = false;
+      return false;
+    }
+  }
+
   /**
    * 获取当前缓存的配置
    */
@@ -1205,6 +1800,10 @@ export class ConnectRpcApiClient {
   clearConfigCache(): void {
     this.cachedCppConfig = null;
     this.configLastFetched = 0;
+    this.cachedFsConfig = null;
+    this.cachedFileSyncEnabled = null;
+    this.fsConfigLastFetched = 0;
+    this.fileSyncEnabledLastFetched = 0;
     this.logger.debug('🗑️ 已清除CppConfig缓存');
   }
 }
\ No newline at end of file
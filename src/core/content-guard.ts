@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { FileInfo } from '../types';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { CryptoUtils } from '../utils/crypto';
+import { redactSecrets } from '../utils/secret-redactor';
+import { evaluateEnablementRules, type EnablementRule } from './enablement-rules';
+
+export const IGNORE_FILE_NAME = '.cometixignore';
+
+/**
+ * 解析 .cometixignore（gitignore 语法）：每行一个 glob，`!` 前缀表示重新包含，`#` 开头为注释
+ */
+export function parseIgnoreFile(text: string): EnablementRule[] {
+  const rules: EnablementRule[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const raw = line.trim();
+    if (!raw || raw.startsWith('#')) {
+      continue;
+    }
+    const include = raw.startsWith('!');
+    const value = include ? raw.substring(1).trim() : raw;
+    if (value) {
+      rules.push({ enable: include, kind: 'glob', value, raw });
+    }
+  }
+  return rules;
+}
+
+/**
+ * 路径是否被忽略规则排除；父目录被排除时其下的文件无法重新包含（与 gitignore 一致）
+ */
+export function isIgnoredByRules(rules: EnablementRule[], relativePath: string): boolean {
+  if (rules.length === 0) {
+    return false;
+  }
+  const segments = relativePath.replace(/\\/g, '/').split('/');
+  for (let i = 1; i < segments.length; i++) {
+    // 目录同时按 `dir` 和 `dir/` 两种形式匹配
+    const directory = segments.slice(0, i).join('/');
+    if (evaluateEnablementRules(rules, { relativePath: directory }) === false ||
+        evaluateEnablementRules(rules, { relativePath: directory + '/' }) === false) {
+      return true;
+    }
+  }
+  return evaluateEnablementRules(rules, { relativePath: segments.join('/') }) === false;
+}
+
+/**
+ * 保护后的文件内容
+ */
+export interface GuardedContent {
+  content: string;
+  redactions: number;
+  kinds: string[];
+}
+
+/**
+ * 内容保护：在任何文件内容离开本机之前生效
+ *
+ * - 排除工作区根目录 .cometixignore 中列出的文件（不上传、不作为上下文、不触发补全）
+ * - 将当前文件和上下文文件中检测到的密钥替换为占位符，并记录被隐去的内容
+ */
+export class ContentGuard {
+  private static instance: ContentGuard;
+  private logger: Logger;
+  private ignoreRules = new Map<string, EnablementRule[]>(); // 工作区文件夹 URI -> 规则
+  private loggedWithheld = new Map<string, string>(); // 路径 -> 上次记录的摘要，避免重复日志
+
+  private readonly MAX_LOGGED_PATHS = 500;
+
+  public static getInstance(): ContentGuard {
+    if (!ContentGuard.instance) {
+      ContentGuard.instance = new ContentGuard();
+    }
+    return ContentGuard.instance;
+  }
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 加载 .cometixignore 并监听其变化
+   */
+  async initialize(): Promise<vscode.Disposable> {
+    await this.loadIgnoreFiles();
+
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${IGNORE_FILE_NAME}`);
+    const reload = () => { void this.loadIgnoreFiles(); };
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    );
+  }
+
+  private async loadIgnoreFiles(): Promise<void> {
+    const rules = new Map<string, EnablementRule[]>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      try {
+        const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, IGNORE_FILE_NAME));
+        const folderRules = parseIgnoreFile(Buffer.from(data).toString('utf8'));
+        rules.set(folder.uri.toString(), folderRules);
+        this.logger.info(`🙈 已加载 ${IGNORE_FILE_NAME}: ${folder.name} (${folderRules.length} 条规则)`);
+      } catch {
+        // 该文件夹没有 .cometixignore
+      }
+    }
+    this.ignoreRules = rules;
+    this.loggedWithheld.clear();
+  }
+
+  /**
+   * 文件是否被 .cometixignore 排除
+   *
+   * @param target 文件 URI，或 vscode.workspace.asRelativePath 返回的相对路径
+   */
+  isIgnored(target: vscode.Uri | string): boolean {
+    const resolved = this.resolve(target);
+    if (!resolved) {
+      return false;
+    }
+    const ignored = isIgnoredByRules(resolved.rules, resolved.relativePath);
+    if (ignored) {
+      this.logWithheld(resolved.relativePath, 'ignored', `🙈 ${IGNORE_FILE_NAME} 排除，不发送: ${resolved.relativePath}`);
+    }
+    return ignored;
+  }
+
+  /**
+   * 脱敏即将发送的文件内容
+   *
+   * @param preserveLines 保持行号不变（当前文件需要与光标位置对齐）
+   */
+  redactContent(relativePath: string, content: string, preserveLines: boolean = true): GuardedContent {
+    const config = ConfigManager.getConfig();
+    const result = redactSecrets(content, [config.authToken, config.clientKey], preserveLines);
+    if (result.redactions > 0) {
+      const summary = `${result.redactions}:${result.kinds.join(',')}`;
+      this.logWithheld(relativePath, summary, `🔒 已隐去 ${relativePath} 中的 ${result.redactions} 处敏感信息 (${result.kinds.join(', ')})`);
+    }
+    return { content: result.text, redactions: result.redactions, kinds: result.kinds };
+  }
+
+  /**
+   * 构建可以发送的 FileInfo，文件被排除时返回 null；哈希基于脱敏后的内容计算，与上传内容保持一致
+   */
+  guardFileInfo(target: vscode.Uri | string, relativePath: string, content: string): FileInfo | null {
+    if (this.isIgnored(target)) {
+      return null;
+    }
+    const guarded = this.redactContent(relativePath, content);
+    return {
+      path: relativePath,
+      content: guarded.content,
+      sha256: CryptoUtils.calculateSHA256(guarded.content)
+    };
+  }
+
+  private resolve(target: vscode.Uri | string): { rules: EnablementRule[]; relativePath: string } | null {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (this.ignoreRules.size === 0 || folders.length === 0) {
+      return null;
+    }
+
+    if (typeof target !== 'string') {
+      const folder = vscode.workspace.getWorkspaceFolder(target);
+      const rules = folder && this.ignoreRules.get(folder.uri.toString());
+      return folder && rules ? { rules, relativePath: path.relative(folder.uri.fsPath, target.fsPath) } : null;
+    }
+
+    // 多根工作区中 asRelativePath 以文件夹名开头
+    let folder = folders[0];
+    let relativePath = target.replace(/\\/g, '/');
+    if (folders.length > 1) {
+      const [folderName, ...rest] = relativePath.split('/');
+      const match = folders.find(candidate => candidate.name === folderName);
+      if (!match) {
+        return null;
+      }
+      folder = match;
+      relativePath = rest.join('/');
+    }
+    const rules = this.ignoreRules.get(folder.uri.toString());
+    return rules ? { rules, relativePath } : null;
+  }
+
+  private logWithheld(relativePath: string, summary: string, message: string): void {
+    if (this.loggedWithheld.get(relativePath) === summary) {
+      return;
+    }
+    if (this.loggedWithheld.size >= this.MAX_LOGGED_PATHS) {
+      this.loggedWithheld.clear();
+    }
+    this.loggedWithheld.set(relativePath, summary);
+    this.logger.info(message);
+  }
+}
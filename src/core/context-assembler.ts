@@ -0,0 +1,205 @@
+import type { CompletionRequest, ContextItemKind, ContextReport, ContextReportEntry } from '../types';
+import { estimateTokens } from './lsp-context-builder';
+
+/**
+ * 参与预算分配的上下文项
+ */
+export interface ContextCandidate {
+  id: string;
+  kind: ContextItemKind;
+  label: string;
+  tokens: number;
+  score: number; // 0-1，越大越优先
+  required?: boolean; // 必须发送（不受预算限制，但占用预算）
+}
+
+// 各类上下文的基础优先级：最近的编辑和项目规则最能反映当前意图，整个相关文件优先级最低
+const RECENT_EDITS_SCORE = 0.9;
+const RULE_SCORE = 0.85;
+const LSP_SCORE_RANGE = [0.45, 0.95];
+const CHUNK_SCORE_RANGE = [0.35, 0.75];
+const FILE_SCORE_RANGE = [0.1, 0.6];
+const CURRENT_WINDOW_SCORE_RANGE = [0.4, 0.95];
+const CURRENT_WINDOW_LINES = 50;
+
+/**
+ * 当前文件中连续的若干行（行号从 0 开始，结束行包含在内）
+ */
+export interface LineWindow {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * 在 token 预算内选择上下文：必需项先计入，其余按得分从高到低依次加入，放不下的项跳过并继续尝试更小的项
+ *
+ * @param budget token 预算，0 表示不限制
+ */
+export function assembleContext(candidates: ContextCandidate[], budget: number): { included: Set<string>; report: ContextReport } {
+  const ranked = [...candidates].sort((a, b) => Number(b.required ?? false) - Number(a.required ?? false) || b.score - a.score);
+  const included = new Set<string>();
+  const entries: ContextReportEntry[] = [];
+  let usedTokens = 0;
+
+  for (const candidate of ranked) {
+    const fits = candidate.required || budget <= 0 || usedTokens + candidate.tokens <= budget;
+    if (fits) {
+      included.add(candidate.id);
+      usedTokens += candidate.tokens;
+    }
+    entries.push({ kind: candidate.kind, label: candidate.label, tokens: candidate.tokens, score: candidate.score, included: fits });
+  }
+  return { included, report: { budget, usedTokens, entries } };
+}
+
+function scaleScore(value: number, [min, max]: number[]): number {
+  return min + (max - min) * Math.max(0, Math.min(1, value));
+}
+
+/**
+ * 以光标所在窗口为中心，向上下两个方向按固定行数切分当前文件，越靠前的窗口离光标越近
+ */
+function splitCurrentFileWindows(lineCount: number, cursorLine: number): Array<LineWindow & { distance: number }> {
+  const nearStart = Math.max(0, Math.min(cursorLine, lineCount - 1) - Math.floor(CURRENT_WINDOW_LINES / 2));
+  const nearEnd = Math.min(lineCount, nearStart + CURRENT_WINDOW_LINES) - 1;
+  const windows = [{ startLine: nearStart, endLine: nearEnd, distance: 0 }];
+  for (let end = nearStart - 1, distance = 1; end >= 0; end -= CURRENT_WINDOW_LINES, distance++) {
+    windows.push({ startLine: Math.max(0, end - CURRENT_WINDOW_LINES + 1), endLine: end, distance });
+  }
+  for (let start = nearEnd + 1, distance = 1; start < lineCount; start += CURRENT_WINDOW_LINES, distance++) {
+    windows.push({ startLine: start, endLine: Math.min(lineCount, start + CURRENT_WINDOW_LINES) - 1, distance });
+  }
+  return windows;
+}
+
+/**
+ * 将补全请求中的上下文裁剪到 token 预算内
+ *
+ * 当前文件按行切分为围绕光标的窗口：光标所在窗口必须发送，其余窗口按与光标的距离和
+ * 编辑历史、项目规则、LSP 符号、BM25 代码块、相关文件一起竞争预算（文件同步模式下当前文件不占用预算）。
+ * 当前文件只保留与光标窗口相连的窗口，裁剪后的行范围通过 currentFileWindow 返回
+ */
+export function assembleRequestContext(
+  request: CompletionRequest,
+  diffHistory: string,
+  budget: number,
+  currentFileSynced: boolean = false
+): { request: CompletionRequest; diffHistory: string; report: ContextReport; currentFileWindow?: LineWindow } {
+  const candidates: ContextCandidate[] = [];
+  const lines = currentFileSynced ? [] : request.currentFile.content.split('\n');
+  const windows = splitCurrentFileWindows(lines.length, request.cursorPosition.line);
+  if (currentFileSynced || windows.length <= 1) {
+    candidates.push({
+      id: 'current',
+      kind: 'currentFile',
+      label: request.currentFile.path,
+      tokens: currentFileSynced ? 0 : estimateTokens(request.currentFile.content),
+      score: 1,
+      required: true
+    });
+  } else {
+    const maxDistance = Math.max(...windows.map(window => window.distance));
+    windows.forEach((window, index) => {
+      candidates.push({
+        id: `current:${index}`,
+        kind: 'currentFile',
+        label: `${request.currentFile.path}:${window.startLine + 1}-${window.endLine + 1}`,
+        tokens: estimateTokens(lines.slice(window.startLine, window.endLine + 1).join('\n')),
+        score: index === 0 ? 1 : scaleScore(1 - (window.distance - 1) / maxDistance, CURRENT_WINDOW_SCORE_RANGE),
+        required: index === 0
+      });
+    });
+  }
+
+  if (diffHistory) {
+    candidates.push({ id: 'edits', kind: 'recentEdits', label: '最近的编辑', tokens: estimateTokens(diffHistory), score: RECENT_EDITS_SCORE });
+  }
+  (request.cursorRules ?? []).forEach((rule, index) => {
+    candidates.push({ id: `rule:${index}`, kind: 'rule', label: rule.path, tokens: estimateTokens(rule.content), score: RULE_SCORE });
+  });
+  (request.lspContexts ?? []).forEach((context, index) => {
+    candidates.push({
+      id: `lsp:${index}`,
+      kind: 'lsp',
+      label: context.symbolName,
+      tokens: context.items.reduce((sum, item) => sum + estimateTokens(item.content), 0),
+      score: scaleScore(context.score, LSP_SCORE_RANGE)
+    });
+  });
+  const topChunks = request.topChunks ?? [];
+  const maxChunkScore = Math.max(0, ...topChunks.map(chunk => chunk.score));
+  topChunks.forEach((chunk, index) => {
+    candidates.push({
+      id: `chunk:${index}`,
+      kind: 'chunk',
+      label: `${chunk.relativePath}:${chunk.startLine + 1}-${chunk.endLine + 1}`,
+      tokens: estimateTokens(chunk.content),
+      score: scaleScore(maxChunkScore > 0 ? chunk.score / maxChunkScore : 0, CHUNK_SCORE_RANGE)
+    });
+  });
+  // 相关文件按收集顺序排列（当前文件、LSP 相关文件、同目录文件、配置文件），越靠前越相关
+  const additionalFiles = request.additionalFiles ?? [];
+  additionalFiles.forEach((file, index) => {
+    candidates.push({
+      id: `file:${index}`,
+      kind: 'file',
+      label: file.path,
+      tokens: estimateTokens(file.content),
+      score: scaleScore(1 - index / additionalFiles.length, FILE_SCORE_RANGE)
+    });
+  });
+
+  const { included, report } = assembleContext(candidates, budget);
+
+  // 当前文件只能发送连续的行：从光标窗口向两侧扩展，遇到未选中的窗口即停止，更远的窗口退回预算
+  let currentFileWindow: LineWindow | undefined;
+  if (!currentFileSynced && windows.length > 1) {
+    const range: LineWindow = { startLine: windows[0].startLine, endLine: windows[0].endLine };
+    const blocked = new Set<number>(); // 已遇到未选中窗口的方向（-1 向上，1 向下）
+    windows.forEach((window, index) => {
+      const direction = window.startLine < windows[0].startLine ? -1 : 1;
+      if (index === 0) {
+        return;
+      }
+      if (included.has(`current:${index}`) && !blocked.has(direction)) {
+        range.startLine = Math.min(range.startLine, window.startLine);
+        range.endLine = Math.max(range.endLine, window.endLine);
+        return;
+      }
+      blocked.add(direction);
+      if (included.delete(`current:${index}`)) {
+        const entry = report.entries.find(candidate => candidate.label === candidates[index].label)!;
+        entry.included = false;
+        report.usedTokens -= entry.tokens;
+      }
+    });
+    currentFileWindow = range.startLine === 0 && range.endLine === lines.length - 1 ? undefined : range;
+  }
+
+  return {
+    request: {
+      ...request,
+      cursorRules: request.cursorRules?.filter((_, index) => included.has(`rule:${index}`)),
+      lspContexts: request.lspContexts?.filter((_, index) => included.has(`lsp:${index}`)),
+      topChunks: request.topChunks?.filter((_, index) => included.has(`chunk:${index}`)),
+      additionalFiles: request.additionalFiles?.filter((_, index) => included.has(`file:${index}`))
+    },
+    diffHistory: included.has('edits') ? diffHistory : '',
+    report,
+    currentFileWindow
+  };
+}
+
+/**
+ * 将上下文报告格式化为多行文本
+ */
+export function formatContextReport(report: ContextReport): string[] {
+  const included = report.entries.filter(entry => entry.included);
+  const lines = [
+    `📐 上下文: ${report.usedTokens}${report.budget > 0 ? `/${report.budget}` : ''} tokens, 包含 ${included.length} 项, 省略 ${report.entries.length - included.length} 项`
+  ];
+  for (const entry of report.entries) {
+    lines.push(`  ${entry.included ? '✅' : '✂️'} [${entry.kind}] ${entry.label} (${entry.tokens} tokens, 评分 ${entry.score.toFixed(2)})`);
+  }
+  return lines;
+}
@@ -0,0 +1,234 @@
+import { CppFate, MarkCppRequest_CppResponseTypes } from '../generated/cpp_pb';
+import { Logger } from '../utils/logger';
+import { ConnectRpcApiClient } from './connect-rpc-api-client';
+
+/**
+ * 已显示给用户的补全建议
+ */
+export interface ReportedSuggestion {
+  bindingId: string;
+  uri: string;
+  text: string;
+  startLine?: number; // 0索引
+  endLine?: number;
+  modelName?: string;
+  shownAt: number;
+}
+
+interface SuggestionFateState {
+  suggestion: ReportedSuggestion;
+  status: 'pending' | 'partial' | 'reported';
+  acceptedLength?: number; // 部分接受累计的字符数
+  finalizeTimer?: NodeJS.Timeout;
+}
+
+/**
+ * 补全结果上报管道 - 以 bindingId 为键，保证每个建议恰好上报一次结果
+ *
+ * 规则：
+ * - 完全接受 → ACCEPT
+ * - 部分接受后等待最终结果：之后完全接受则升级为 ACCEPT，否则上报 PARTIAL_ACCEPT
+ * - 被忽略、被同一文件的新建议取代或超时 → REJECT
+ */
+export class CppFateReporter {
+  private logger: Logger;
+  private connectClient: ConnectRpcApiClient;
+  private suggestions = new Map<string, SuggestionFateState>();
+  private lastSuggestion: ReportedSuggestion | null = null;
+  private cleanupTimer: NodeJS.Timeout;
+  private stats = { accepted: 0, rejected: 0, partiallyAccepted: 0, markedForEval: 0 };
+
+  private readonly SUGGESTION_TTL = 60000; // 60秒无结果视为拒绝
+  private readonly PARTIAL_FINALIZE_DELAY = 10000; // 部分接受后10秒内未完全接受则上报部分接受
+
+  constructor(connectClient: ConnectRpcApiClient) {
+    this.logger = Logger.getInstance();
+    this.connectClient = connectClient;
+    this.cleanupTimer = setInterval(() => this.expireStaleSuggestions(), this.SUGGESTION_TTL / 2);
+  }
+
+  /**
+   * 登记一个已显示的建议
+   */
+  registerSuggestion(suggestion: ReportedSuggestion): void {
+    if (this.suggestions.has(suggestion.bindingId)) {
+      return;
+    }
+
+    // 同一文件中仍未决的旧建议已被新建议取代
+    for (const [bindingId, state] of this.suggestions) {
+      if (state.status === 'pending' && state.suggestion.uri === suggestion.uri) {
+        this.reportReject(bindingId);
+      }
+    }
+
+    this.suggestions.set(suggestion.bindingId, { suggestion, status: 'pending' });
+    this.lastSuggestion = suggestion;
+    this.logger.debug(`📝 登记补全建议: ${suggestion.bindingId}`);
+  }
+
+  /**
+   * 上报完全接受
+   */
+  reportAccept(bindingId: string): void {
+    const state = this.suggestions.get(bindingId);
+    if (!state || state.status === 'reported') {
+      return;
+    }
+
+    this.finalize(state, CppFate.ACCEPT);
+  }
+
+  /**
+   * 上报拒绝（部分接受过的建议上报为部分接受）
+   */
+  reportReject(bindingId: string): void {
+    const state = this.suggestions.get(bindingId);
+    if (!state || state.status === 'reported') {
+      return;
+    }
+
+    this.finalize(state, state.status === 'partial' ? CppFate.PARTIAL_ACCEPT : CppFate.REJECT);
+  }
+
+  /**
+   * 记录部分接受，延迟上报以便之后升级为完全接受
+   */
+  reportPartialAccept(bindingId: string, acceptedLength?: number): void {
+    const state = this.suggestions.get(bindingId);
+    if (!state || state.status === 'reported') {
+      return;
+    }
+
+    state.status = 'partial';
+    if (acceptedLength !== undefined) {
+      state.acceptedLength = (state.acceptedLength ?? 0) + acceptedLength;
+    }
+    if (state.finalizeTimer) {
+      clearTimeout(state.finalizeTimer);
+    }
+    state.finalizeTimer = setTimeout(() => {
+      if (state.status === 'partial') {
+        this.finalize(state, CppFate.PARTIAL_ACCEPT);
+      }
+    }, this.PARTIAL_FINALIZE_DELAY);
+  }
+
+  /**
+   * 标记建议用于评估（MarkCppForEval）
+   */
+  async markForEval(
+    suggestion: ReportedSuggestion,
+    responseType: MarkCppRequest_CppResponseTypes,
+    desiredCompletion?: string
+  ): Promise<boolean> {
+    const response = await this.connectClient.markCppForEval(suggestion.bindingId, responseType, {
+      desiredCompletion,
+      startLineNumber: suggestion.startLine !== undefined ? suggestion.startLine + 1 : undefined,
+      endLineNumber: suggestion.endLine !== undefined ? suggestion.endLine + 1 : undefined,
+      modelName: suggestion.modelName
+    });
+
+    if (response) {
+      this.stats.markedForEval++;
+    }
+    return response !== null;
+  }
+
+  /**
+   * 获取最近显示的建议（用于反馈命令）
+   */
+  getLastSuggestion(): ReportedSuggestion | null {
+    return this.lastSuggestion;
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): { accepted: number; rejected: number; partiallyAccepted: number; markedForEval: number; pending: number } {
+    let pending = 0;
+    for (const state of this.suggestions.values()) {
+      if (state.status !== 'reported') {
+        pending++;
+      }
+    }
+    return { ...this.stats, pending };
+  }
+
+  /**
+   * 确定最终结果并上报（每个建议只会执行一次）
+   */
+  private finalize(state: SuggestionFateState, fate: CppFate): void {
+    state.status = 'reported';
+    if (state.finalizeTimer) {
+      clearTimeout(state.finalizeTimer);
+      state.finalizeTimer = undefined;
+    }
+
+    switch (fate) {
+      case CppFate.ACCEPT: this.stats.accepted++; break;
+      case CppFate.REJECT: this.stats.rejected++; break;
+      case CppFate.PARTIAL_ACCEPT: this.stats.partiallyAccepted++; break;
+    }
+
+    const bindingId = state.suggestion.bindingId;
+    const acceptedInfo = fate === CppFate.PARTIAL_ACCEPT && state.acceptedLength !== undefined
+      ? ` (${state.acceptedLength}/${state.suggestion.text.length} 字符)`
+      : '';
+    this.logger.info(`🎯 上报补全结果: ${bindingId} -> ${CppFate[fate]}${acceptedInfo}`);
+
+    this.connectClient.recordCppFate(bindingId, fate).then(response => {
+      if (!response) {
+        this.logger.warn(`⚠️ 补全结果上报失败: ${bindingId}`);
+      }
+    });
+  }
+
+  /**
+   * 超时未决的建议视为拒绝，并清理已上报的旧记录
+   */
+  private expireStaleSuggestions(): void {
+    const now = Date.now();
+
+    for (const [bindingId, state] of this.suggestions) {
+      if (now - state.suggestion.shownAt < this.SUGGESTION_TTL) {
+        continue;
+      }
+
+      if (state.status === 'pending') {
+        this.reportReject(bindingId);
+      }
+      if (state.status === 'reported') {
+        this.suggestions.delete(bindingId);
+      }
+    }
+  }
+
+  dispose(): void {
+    clearInterval(this.cleanupTimer);
+
+    // 上报所有未决的建议，避免丢失结果
+    for (const [bindingId, state] of this.suggestions) {
+      if (state.status !== 'reported') {
+        this.reportReject(bindingId);
+      }
+    }
+    this.suggestions.clear();
+  }
+}
+
+/**
+ * 单例补全结果上报器
+ */
+let cppFateReporterInstance: CppFateReporter | null = null;
+
+export function createCppFateReporter(connectClient: ConnectRpcApiClient): CppFateReporter {
+  if (!cppFateReporterInstance) {
+    cppFateReporterInstance = new CppFateReporter(connectClient);
+  }
+  return cppFateReporterInstance;
+}
+
+export function getCppFateReporter(): CppFateReporter | null {
+  return cppFateReporterInstance;
+}
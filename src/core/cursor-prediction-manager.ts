@@ -0,0 +1,429 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { CursorPredictionTarget } from '../types';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { WorkspaceManager } from '../utils/workspace-manager';
+import { ConnectRpcApiClient } from './connect-rpc-api-client';
+import { FileManager } from './file-manager';
+import { ContentGuard } from './content-guard';
+
+/**
+ * 光标预测来源
+ */
+export type CursorPredictionSource = 'stream_cpp' | 'next_cursor_prediction';
+
+/**
+ * 光标预测事件
+ */
+export interface CursorPredictionEvent {
+  type: 'suggested' | 'accepted' | 'rejected';
+  source: CursorPredictionSource;
+  uri: string;
+  line: number;
+  timestamp: number;
+  reason?: string;
+}
+
+/**
+ * 当前显示中的光标预测
+ */
+interface ActivePrediction {
+  editor: vscode.TextEditor;
+  targetUri: vscode.Uri;
+  line: number;
+  expectedContent?: string;
+  shouldRetriggerCpp: boolean;
+  source: CursorPredictionSource;
+  shownAt: number;
+}
+
+/**
+ * 光标预测管理器 - 实现 "跳转到下一个编辑位置" 体验
+ *
+ * 工作流程：
+ * 1. 补全被接受后，优先使用 StreamCpp 附带的 cursorPredictionTarget
+ * 2. 否则在服务端启用时调用 StreamNextCursorPrediction 预测下一个位置
+ * 3. 在目标行显示内联提示，用户按 Tab 跳转、按 Esc 或继续编辑则视为拒绝
+ */
+export class CursorPredictionManager implements vscode.Disposable {
+  private logger: Logger;
+  private connectClient: ConnectRpcApiClient;
+  private fileManager: FileManager;
+  private decorationType: vscode.TextEditorDecorationType;
+  private activePrediction: ActivePrediction | null = null;
+  private abortController: AbortController | null = null;
+  private disposables: vscode.Disposable[] = [];
+  private events: CursorPredictionEvent[] = [];
+  private stats = { suggested: 0, accepted: 0, rejected: 0 };
+
+  private readonly CONTEXT_KEY = 'cometixTab.cursorPredictionVisible';
+  private readonly SHOW_DELAY_MS = 50; // 等待补全编辑落地后再显示
+  private readonly MAX_EVENTS = 100;
+
+  constructor(connectClient: ConnectRpcApiClient, fileManager: FileManager) {
+    this.logger = Logger.getInstance();
+    this.connectClient = connectClient;
+    this.fileManager = fileManager;
+
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor('editor.wordHighlightBackground'),
+      overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.infoForeground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em'
+      }
+    });
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * 设置事件监听器 - 用户继续编辑或离开时自动拒绝预测
+   */
+  private setupEventListeners(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (this.activePrediction && event.contentChanges.length > 0 &&
+            event.document === this.activePrediction.editor.document &&
+            Date.now() - this.activePrediction.shownAt > this.SHOW_DELAY_MS) {
+          this.rejectPrediction('document_edited');
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        if (this.activePrediction) {
+          this.rejectPrediction('editor_changed');
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorSelection(event => {
+        const prediction = this.activePrediction;
+        if (!prediction || event.textEditor !== prediction.editor) {
+          return;
+        }
+
+        // 只关心用户主动移动光标，命令触发的选区变化（包括我们自己的跳转）忽略
+        if (event.kind !== vscode.TextEditorSelectionChangeKind.Keyboard &&
+            event.kind !== vscode.TextEditorSelectionChangeKind.Mouse) {
+          return;
+        }
+
+        const isSameFile = prediction.targetUri.toString() === prediction.editor.document.uri.toString();
+        if (isSameFile && event.selections[0]?.active.line === prediction.line) {
+          this.recordEvent('accepted', prediction, 'manual_navigation');
+          this.clearPrediction();
+        } else {
+          this.rejectPrediction('cursor_moved');
+        }
+      })
+    );
+  }
+
+  /**
+   * 补全被接受后调用，显示下一个编辑位置
+   */
+  async onCompletionAccepted(document: vscode.TextDocument, target?: CursorPredictionTarget): Promise<void> {
+    if (!ConfigManager.getConfig().enableCursorPrediction) {
+      return;
+    }
+
+    // 取消进行中的预测请求，替换已有的预测
+    this.abortController?.abort();
+    this.abortController = null;
+    if (this.activePrediction) {
+      this.rejectPrediction('superseded');
+    }
+
+    if (target) {
+      this.logger.debug(`🎯 使用 StreamCpp 附带的光标预测: 行${target.line}`);
+      await new Promise(resolve => setTimeout(resolve, this.SHOW_DELAY_MS));
+      this.showPrediction(document, target, 'stream_cpp');
+      return;
+    }
+
+    await this.requestNextCursorPrediction(document);
+  }
+
+  /**
+   * 调用 StreamNextCursorPrediction 获取下一个编辑位置
+   */
+  private async requestNextCursorPrediction(document: vscode.TextDocument): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== document || ContentGuard.getInstance().isIgnored(document.uri)) {
+      return;
+    }
+
+    try {
+      const enabled = await this.connectClient.isCursorPredictionEnabled();
+      if (!enabled) {
+        this.logger.debug('🚫 服务端未启用光标预测，跳过');
+        return;
+      }
+
+      const controller = new AbortController();
+      this.abortController = controller;
+      const documentVersion = document.version;
+      const position = editor.selection.active;
+      const currentFile = await this.fileManager.getCurrentFileInfo(document);
+
+      const stream = this.connectClient.streamNextCursorPrediction({
+        currentFile,
+        cursorPosition: { line: position.line, column: position.character },
+        visibleRanges: editor.visibleRanges.map(range => ({
+          startLine: range.start.line,
+          endLine: range.end.line + 1
+        })),
+        modelName: ConfigManager.getConfig().model
+      }, controller.signal);
+
+      let fileName: string | undefined;
+      let lineNumber: number | undefined;
+      let expectedContent = '';
+      let isNotInRange = false;
+
+      for await (const response of stream) {
+        switch (response.response.case) {
+          case 'fileName':
+            fileName = response.response.value;
+            break;
+          case 'lineNumber':
+            lineNumber = response.response.value;
+            break;
+          case 'text':
+            expectedContent += response.response.value;
+            break;
+          case 'isNotInRange':
+            isNotInRange = response.response.value;
+            break;
+        }
+      }
+
+      if (controller.signal.aborted || this.abortController !== controller) {
+        return;
+      }
+      this.abortController = null;
+
+      if (isNotInRange || lineNumber === undefined || lineNumber < 1) {
+        this.logger.debug('📭 光标预测无结果（不在可见范围内或未返回行号）');
+        return;
+      }
+
+      if (document.version !== documentVersion) {
+        this.logger.debug('⏭️ 文档在预测期间已变化，丢弃光标预测');
+        return;
+      }
+
+      this.showPrediction(document, {
+        relativePath: fileName,
+        line: lineNumber - 1,
+        expectedContent,
+        shouldRetriggerCpp: true
+      }, 'next_cursor_prediction');
+
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        this.logger.debug('🛑 光标预测请求被取消');
+        return;
+      }
+      this.logger.warn('⚠️ 获取光标预测失败', error as Error);
+    }
+  }
+
+  /**
+   * 在编辑器中显示光标预测提示
+   */
+  private showPrediction(document: vscode.TextDocument, target: CursorPredictionTarget, source: CursorPredictionSource): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== document) {
+      this.logger.debug('⏭️ 活动编辑器已切换，不显示光标预测');
+      return;
+    }
+
+    const targetUri = this.resolveTargetUri(document, target.relativePath);
+    const isSameFile = targetUri.toString() === document.uri.toString();
+    const cursorLine = editor.selection.active.line;
+    let hintLine: number;
+    let hintText: string;
+
+    if (isSameFile) {
+      if (target.line < 0 || target.line >= document.lineCount) {
+        this.logger.debug(`⚠️ 光标预测行超出范围: ${target.line}`);
+        return;
+      }
+      if (target.line === cursorLine) {
+        this.logger.debug('⏭️ 光标预测位置即当前行，跳过');
+        return;
+      }
+      hintLine = target.line;
+      hintText = '⇥ Tab 跳转到此处';
+    } else {
+      // 跨文件预测：提示显示在当前行
+      hintLine = cursorLine;
+      hintText = `⇥ Tab 跳转到 ${target.relativePath}:${target.line + 1}`;
+    }
+
+    this.activePrediction = {
+      editor,
+      targetUri,
+      line: target.line,
+      expectedContent: target.expectedContent,
+      shouldRetriggerCpp: target.shouldRetriggerCpp ?? false,
+      source,
+      shownAt: Date.now()
+    };
+
+    editor.setDecorations(this.decorationType, [{
+      range: document.lineAt(hintLine).range,
+      renderOptions: { after: { contentText: hintText } },
+      hoverMessage: target.expectedContent ? new vscode.MarkdownString().appendCodeblock(target.expectedContent, document.languageId) : undefined
+    }]);
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, true);
+
+    this.recordEvent('suggested', this.activePrediction);
+    this.logger.info(`🎯 显示光标预测: ${isSameFile ? '当前文件' : target.relativePath} 行${target.line + 1} (来源: ${source})`);
+  }
+
+  /**
+   * 接受光标预测（Tab）- 跳转到预测位置
+   */
+  async acceptPrediction(): Promise<void> {
+    const prediction = this.activePrediction;
+    if (!prediction) {
+      // 上下文键可能滞后，回退到普通的 Tab 行为
+      await vscode.commands.executeCommand('tab');
+      return;
+    }
+
+    this.clearPrediction();
+
+    try {
+      const editor = prediction.targetUri.toString() === prediction.editor.document.uri.toString()
+        ? prediction.editor
+        : await vscode.window.showTextDocument(prediction.targetUri);
+
+      const line = Math.min(prediction.line, editor.document.lineCount - 1);
+      const targetPosition = editor.document.lineAt(line).range.end;
+      editor.selection = new vscode.Selection(targetPosition, targetPosition);
+      editor.revealRange(new vscode.Range(targetPosition, targetPosition), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+
+      this.recordEvent('accepted', prediction);
+      this.logger.info(`✅ 跳转到预测位置: 行${line + 1}`);
+
+      if (prediction.shouldRetriggerCpp) {
+        await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+      }
+    } catch (error) {
+      this.logger.error('❌ 跳转到预测位置失败', error as Error);
+    }
+  }
+
+  /**
+   * 拒绝光标预测（Esc、继续编辑或移动光标）
+   */
+  rejectPrediction(reason: string = 'dismissed'): void {
+    const prediction = this.activePrediction;
+    if (!prediction) {
+      return;
+    }
+
+    this.clearPrediction();
+    this.recordEvent('rejected', prediction, reason);
+    this.logger.debug(`❌ 光标预测被拒绝: ${reason}`);
+  }
+
+  /**
+   * 清除当前显示的预测
+   */
+  private clearPrediction(): void {
+    if (this.activePrediction) {
+      this.activePrediction.editor.setDecorations(this.decorationType, []);
+      this.activePrediction = null;
+    }
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, false);
+  }
+
+  /**
+   * 解析预测目标文件的 URI
+   */
+  private resolveTargetUri(document: vscode.TextDocument, relativePath?: string): vscode.Uri {
+    if (!relativePath || relativePath === vscode.workspace.asRelativePath(document.uri)) {
+      return document.uri;
+    }
+    if (path.isAbsolute(relativePath)) {
+      return vscode.Uri.file(relativePath);
+    }
+    const workspaceRootPath = WorkspaceManager.getInstance().getCurrentWorkspacePath();
+    return vscode.Uri.file(path.join(workspaceRootPath, relativePath));
+  }
+
+  /**
+   * 记录预测事件
+   */
+  private recordEvent(type: CursorPredictionEvent['type'], prediction: ActivePrediction, reason?: string): void {
+    this.stats[type]++;
+    this.events.push({
+      type,
+      source: prediction.source,
+      uri: prediction.targetUri.toString(),
+      line: prediction.line,
+      timestamp: Date.now(),
+      reason
+    });
+
+    if (this.events.length > this.MAX_EVENTS) {
+      this.events.shift();
+    }
+  }
+
+  /**
+   * 是否有正在显示的预测
+   */
+  hasActivePrediction(): boolean {
+    return this.activePrediction !== null;
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): { suggested: number; accepted: number; rejected: number; acceptanceRate: number; recentEvents: CursorPredictionEvent[] } {
+    const resolved = this.stats.accepted + this.stats.rejected;
+    return {
+      ...this.stats,
+      acceptanceRate: resolved > 0 ? this.stats.accepted / resolved : 0,
+      recentEvents: this.events.slice(-10)
+    };
+  }
+
+  dispose(): void {
+    this.abortController?.abort();
+    this.clearPrediction();
+    this.decorationType.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.logger.info('♻️ 光标预测管理器已销毁');
+  }
+}
+
+/**
+ * 单例光标预测管理器
+ */
+let cursorPredictionManagerInstance: CursorPredictionManager | null = null;
+
+export function createCursorPredictionManager(connectClient: ConnectRpcApiClient, fileManager: FileManager): CursorPredictionManager {
+  if (!cursorPredictionManagerInstance) {
+    cursorPredictionManagerInstance = new CursorPredictionManager(connectClient, fileManager);
+  }
+  return cursorPredictionManagerInstance;
+}
+
+export function getCursorPredictionManager(): CursorPredictionManager | null {
+  return cursorPredictionManagerInstance;
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { AppliedCursorRule } from '../types';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { globToRegExp } from './enablement-rules';
+import { ContentGuard } from './content-guard';
+import { getOwningUri } from './notebook-context';
+
+export const LEGACY_RULES_FILE_NAME = '.cursorrules';
+export const RULES_DIRECTORY = '.cursor/rules';
+
+/**
+ * 项目规则文件（.cursorrules 或 .cursor/rules/*.mdc）
+ */
+export interface CursorRuleFile {
+  name: string;
+  path: string; // 规则文件相对工作区的路径
+  scope: string; // 规则生效的目录（相对工作区，空字符串表示整个工作区）
+  description: string;
+  globs: string[];
+  alwaysApply: boolean;
+  body: string;
+}
+
+/**
+ * 解析 .mdc 规则文件：`---` 包围的 frontmatter（description、globs、alwaysApply）加正文
+ */
+export function parseRuleFile(text: string, relativePath: string, scope: string): CursorRuleFile {
+  const rule: CursorRuleFile = {
+    name: path.posix.basename(relativePath).replace(/\.mdc$/, ''),
+    path: relativePath,
+    scope,
+    description: '',
+    globs: [],
+    alwaysApply: false,
+    body: text.trim()
+  };
+
+  const frontmatter = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!frontmatter) {
+    return rule;
+  }
+  rule.body = text.substring(frontmatter[0].length).trim();
+
+  let listKey: string | null = null;
+  for (const line of frontmatter[1].split(/\r?\n/)) {
+    // YAML 列表项：globs:\n  - "*.ts"
+    const item = /^\s+-\s*(.*)$/.exec(line);
+    if (item && listKey === 'globs') {
+      rule.globs.push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = /^(\w+)\s*:\s*(.*)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+    const [, key, value] = entry;
+    listKey = value.trim() ? null : key;
+    if (key === 'description') {
+      rule.description = unquote(value);
+    } else if (key === 'alwaysApply') {
+      rule.alwaysApply = value.trim().toLowerCase() === 'true';
+    } else if (key === 'globs') {
+      // globs: *.ts, *.tsx 或 globs: ["*.ts", "*.tsx"]
+      rule.globs.push(...value.trim().replace(/^\[|\]$/g, '').split(',').map(unquote).filter(glob => glob));
+    }
+  }
+  return rule;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * 规则是否适用于该文件：alwaysApply 或 glob 匹配（相对规则所在目录）；
+ * 仅有 description 的规则需要由 Agent 按需选择，补全不使用
+ */
+export function isRuleApplicable(rule: CursorRuleFile, relativePath: string): boolean {
+  const normalizedPath = relativePath.replace(/\\/g, '/');
+  if (rule.scope && !normalizedPath.startsWith(rule.scope + '/')) {
+    return false;
+  }
+  if (rule.alwaysApply) {
+    return true;
+  }
+  const scopedPath = rule.scope ? normalizedPath.substring(rule.scope.length + 1) : normalizedPath;
+  return rule.globs.some(glob => globToRegExp(glob).test(scopedPath));
+}
+
+/**
+ * 项目规则：加载 .cursorrules 和 .cursor/rules 下的 .mdc 文件，将适用于当前文件的规则作为补全上下文
+ *
+ * 支持子目录中嵌套的 .cursor/rules，其中的规则只对该目录下的文件生效
+ */
+export class CursorRules {
+  private static instance: CursorRules;
+  private logger: Logger;
+  private rules = new Map<string, CursorRuleFile[]>(); // 工作区文件夹 URI -> 规则
+
+  private readonly MAX_RULE_CHARS = 8000;
+  private readonly MAX_APPLIED_RULES = 10;
+
+  public static getInstance(): CursorRules {
+    if (!CursorRules.instance) {
+      CursorRules.instance = new CursorRules();
+    }
+    return CursorRules.instance;
+  }
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 加载规则并监听规则文件变化
+   */
+  async initialize(): Promise<vscode.Disposable> {
+    await this.loadRules();
+
+    const reload = () => { void this.loadRules(); };
+    const watchers = [`**/${LEGACY_RULES_FILE_NAME}`, `**/${RULES_DIRECTORY}/**/*.mdc`]
+      .map(pattern => vscode.workspace.createFileSystemWatcher(pattern));
+    return vscode.Disposable.from(
+      ...watchers,
+      ...watchers.flatMap(watcher => [watcher.onDidCreate(reload), watcher.onDidChange(reload), watcher.onDidDelete(reload)]),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    );
+  }
+
+  private async loadRules(): Promise<void> {
+    const rules = new Map<string, CursorRuleFile[]>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const folderRules: CursorRuleFile[] = [];
+
+      // 旧版 .cursorrules 只在工作区根目录生效，始终应用
+      try {
+        const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, LEGACY_RULES_FILE_NAME));
+        const body = Buffer.from(data).toString('utf8').trim();
+        if (body) {
+          folderRules.push({ name: LEGACY_RULES_FILE_NAME, path: LEGACY_RULES_FILE_NAME, scope: '', description: '', globs: [], alwaysApply: true, body });
+        }
+      } catch {
+        // 该文件夹没有 .cursorrules
+      }
+
+      try {
+        const files = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, `**/${RULES_DIRECTORY}/**/*.mdc`),
+          '**/node_modules/**'
+        );
+        for (const file of files) {
+          const relativePath = path.relative(folder.uri.fsPath, file.fsPath).replace(/\\/g, '/');
+          const scope = relativePath.substring(0, relativePath.indexOf(RULES_DIRECTORY)).replace(/\/$/, '');
+          const data = await vscode.workspace.fs.readFile(file);
+          folderRules.push(parseRuleFile(Buffer.from(data).toString('utf8'), relativePath, scope));
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️ 加载项目规则失败: ${folder.name}`, error as Error);
+      }
+
+      if (folderRules.length > 0) {
+        rules.set(folder.uri.toString(), folderRules);
+        this.logger.info(`📏 已加载项目规则: ${folder.name} (${folderRules.length} 条)`);
+      }
+    }
+    this.rules = rules;
+  }
+
+  /**
+   * 适用于文档的规则（已排除被 .cometixignore 忽略的规则文件并脱敏）
+   */
+  getApplicableRules(document: vscode.TextDocument): AppliedCursorRule[] {
+    if (!ConfigManager.getConfig().enableCursorRules) {
+      return [];
+    }
+    const uri = getOwningUri(document);
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const folderRules = folder && this.rules.get(folder.uri.toString());
+    if (!folder || !folderRules) {
+      return [];
+    }
+
+    const relativePath = path.relative(folder.uri.fsPath, uri.fsPath);
+    const guard = ContentGuard.getInstance();
+    return folderRules
+      .filter(rule => rule.body && isRuleApplicable(rule, relativePath))
+      .filter(rule => !guard.isIgnored(vscode.Uri.joinPath(folder.uri, rule.path)))
+      .slice(0, this.MAX_APPLIED_RULES)
+      .map(rule => ({
+        name: rule.name,
+        path: rule.path,
+        content: guard.redactContent(rule.path, rule.body.substring(0, this.MAX_RULE_CHARS), false).content
+      }));
+  }
+}
@@ -0,0 +1,513 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataframeSchema } from '../types';
+
+/**
+ * read_csv 等调用读取的文件（路径为代码中的字面量）
+ */
+export interface DataframeSource {
+  path: string;
+  separator: string;
+}
+
+/**
+ * 读取 CSV 表头的权限：只读取工作区内、未被排除的文件，表头发送前脱敏
+ */
+export interface CsvHeaderAccess {
+  workspaceRoot: string;
+  isReadable(filePath: string): boolean; // .cometixignore 和启用规则
+  redact(filePath: string, header: string): string;
+}
+
+const MAX_DATAFRAMES = 20;
+const MAX_COLUMNS = 100;
+const HEADER_READ_BYTES = 64 * 1024;
+
+const READ_FUNCTIONS = ['read_csv', 'read_table', 'read_excel', 'read_parquet', 'read_json', 'read_feather', 'read_pickle', 'read_sql'];
+// 不改变列的方法：结果沿用原 DataFrame 的列
+const COLUMN_PRESERVING_METHODS = [
+  'copy', 'dropna', 'fillna', 'sort_values', 'sort_index', 'head', 'tail', 'query', 'drop_duplicates',
+  'astype', 'sample', 'reset_index', 'set_index', 'ffill', 'bfill', 'replace', 'round', 'abs', 'where', 'mask', 'clip'
+];
+
+/**
+ * 按顶层换行拆分 Python 语句（括号内换行和字符串内容不拆分），去掉注释
+ */
+export function splitPythonStatements(source: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      current += char;
+      if (char === '\\' && i + 1 < source.length) {
+        current += source[++i];
+      } else if (source.startsWith(quote, i)) {
+        current += quote.substring(1);
+        i += quote.length - 1;
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = source.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      current += quote;
+      i += quote.length - 1;
+    } else if (char === '#') {
+      while (i + 1 < source.length && source[i + 1] !== '\n') {
+        i++;
+      }
+    } else if (char === '\\' && source[i + 1] === '\n') {
+      i++; // 行尾续行符
+    } else if (char === '\n' && depth === 0) {
+      if (current.trim()) {
+        statements.push(current.trim());
+      }
+      current = '';
+    } else {
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    statements.push(current.trim());
+  }
+  return statements;
+}
+
+/**
+ * 取出从 openIndex 处括号开始到匹配的闭括号之间的内容
+ */
+function extractBracketed(text: string, openIndex: number): string | null {
+  const open = text[openIndex];
+  const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return text.substring(openIndex + 1, i);
+    }
+  }
+  return null;
+}
+
+/**
+ * 按顶层逗号拆分参数
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (text[++i] ?? '');
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+interface CallArguments {
+  positional: string[];
+  keywords: Map<string, string>;
+}
+
+function parseCallArguments(text: string): CallArguments {
+  const positional: string[] = [];
+  const keywords = new Map<string, string>();
+  for (const part of splitTopLevel(text)) {
+    const keyword = /^(\w+)\s*=(?!=)\s*([\s\S]*)$/.exec(part);
+    if (keyword) {
+      keywords.set(keyword[1], keyword[2].trim());
+    } else {
+      positional.push(part);
+    }
+  }
+  return { positional, keywords };
+}
+
+function parseStringLiteral(text: string | undefined): string | undefined {
+  const match = text ? /^[rbuf]*(['"])((?:\\.|(?!\1).)*)\1$/i.exec(text.trim()) : null;
+  return match ? match[2] : undefined;
+}
+
+/**
+ * 解析字符串列表字面量，例如 ["a", 'b']
+ */
+function parseStringList(text: string | undefined): string[] {
+  const trimmed = text?.trim();
+  if (!trimmed || !'[('.includes(trimmed[0])) {
+    return [];
+  }
+  const content = extractBracketed(trimmed, 0) ?? '';
+  return splitTopLevel(content)
+    .map(item => parseStringLiteral(item))
+    .filter((item): item is string => item !== undefined);
+}
+
+/**
+ * 解析字典字面量的字符串键及对应的值
+ */
+function parseDictEntries(text: string | undefined): [string, string][] {
+  const trimmed = text?.trim();
+  if (!trimmed?.startsWith('{')) {
+    return [];
+  }
+  const entries: [string, string][] = [];
+  for (const entry of splitTopLevel(extractBracketed(trimmed, 0) ?? '')) {
+    const colon = /^([rbuf]*(['"])(?:\\.|(?!\2).)*\2)\s*:\s*([\s\S]*)$/i.exec(entry);
+    const key = colon ? parseStringLiteral(colon[1]) : undefined;
+    if (colon && key !== undefined) {
+      entries.push([key, colon[3]]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * 根据表达式粗略推断 pandas dtype，无法推断时返回空字符串
+ */
+export function inferDtype(expression: string): string {
+  const value = expression.trim();
+  if (/^(?:pd|pandas)\.to_datetime\s*\(/.test(value) || /^(?:pd|pandas)\.date_range\s*\(/.test(value)) {
+    return 'datetime64[ns]';
+  }
+  if (/^(?:pd|pandas)\.Categorical\s*\(/.test(value)) {
+    return 'category';
+  }
+
+  // 列表字面量按第一个元素推断
+  const first = value.startsWith('[') ? splitTopLevel(extractBracketed(value, 0) ?? '')[0] : value;
+  if (!first) {
+    return '';
+  }
+  if (/^(?:True|False)$/.test(first)) {
+    return 'bool';
+  }
+  if (/^-?\d+$/.test(first)) {
+    return 'int64';
+  }
+  if (/^-?(?:\d+\.\d*|\.\d+|\d+(?:\.\d*)?e-?\d+)$/i.test(first)) {
+    return 'float64';
+  }
+  if (parseStringLiteral(first) !== undefined) {
+    return 'object';
+  }
+  return '';
+}
+
+/**
+ * 从 Python 代码（或拼接后的笔记本）推断 DataFrame 名称和列
+ *
+ * 支持 pd.read_csv 等读取函数（usecols/names/dtype/index_col）、pd.DataFrame 字面量、
+ * 列赋值 df["col"] = ...、assign/rename/drop、列子集选择、merge/concat 以及不改变列的方法链
+ *
+ * @param csvHeaders 读取文件的表头（路径 -> 列名），未显式指定列名时使用
+ * @param onRead 遇到读取调用时回调，用于收集需要读取表头的文件
+ */
+export function inferDataframes(
+  source: string,
+  csvHeaders: Map<string, string[]> = new Map(),
+  onRead?: (source: DataframeSource) => void
+): DataframeSchema[] {
+  const frames = new Map<string, DataframeSchema>();
+
+  const addColumn = (frame: DataframeSchema, key: string, type: string = '') => {
+    const existing = frame.columns.find(column => column.key === key);
+    if (existing) {
+      existing.type = type || existing.type;
+    } else if (frame.columns.length < MAX_COLUMNS) {
+      frame.columns.push({ key, type });
+    }
+  };
+
+  const cloneFrame = (name: string, base: DataframeSchema): DataframeSchema => ({
+    ...base,
+    name,
+    columns: base.columns.map(column => ({ ...column }))
+  });
+
+  for (const statement of splitPythonStatements(source)) {
+    // 列赋值：df["col"] = ... / df.loc[:, "col"] = ...
+    const columnAssignment = /^(\w+)(?:\.loc\[[^,\]]*,\s*|\[)\s*[rbuf]*(['"])((?:\\.|(?!\2).)+)\2\s*\]\s*=(?!=)\s*([\s\S]*)$/.exec(statement);
+    if (columnAssignment) {
+      const frame = frames.get(columnAssignment[1]);
+      if (frame) {
+        addColumn(frame, columnAssignment[3], inferDtype(columnAssignment[4]));
+      }
+      continue;
+    }
+
+    const assignment = /^(\w+)\s*=(?!=)\s*([\s\S]+)$/.exec(statement);
+    if (!assignment) {
+      continue;
+    }
+    const [, name, expression] = assignment;
+    const frame = inferExpression(name, expression, frames, cloneFrame, addColumn, csvHeaders, onRead);
+    if (frame) {
+      frames.delete(name);
+      frames.set(name, frame);
+    } else if (frames.has(name)) {
+      frames.delete(name); // 变量被重新赋值为其他类型
+    }
+  }
+
+  return Array.from(frames.values()).slice(-MAX_DATAFRAMES);
+}
+
+function inferExpression(
+  name: string,
+  expression: string,
+  frames: Map<string, DataframeSchema>,
+  cloneFrame: (name: string, base: DataframeSchema) => DataframeSchema,
+  addColumn: (frame: DataframeSchema, key: string, type?: string) => void,
+  csvHeaders: Map<string, string[]>,
+  onRead?: (source: DataframeSource) => void
+): DataframeSchema | null {
+  // pd.read_csv("data.csv", usecols=[...], dtype={...}, index_col="id")
+  const read = new RegExp(`^(?:pd|pandas)\\.(${READ_FUNCTIONS.join('|')})\\s*\\(`).exec(expression);
+  if (read) {
+    const args = parseCallArguments(extractBracketed(expression, read[0].length - 1) ?? '');
+    const frame: DataframeSchema = { name, columns: [], indexColumn: parseStringLiteral(args.keywords.get('index_col')) };
+    let columns = parseStringList(args.keywords.get('names')).length > 0
+      ? parseStringList(args.keywords.get('names'))
+      : parseStringList(args.keywords.get('usecols'));
+
+    // 未显式指定列名时使用文件表头
+    const sourcePath = parseStringLiteral(args.positional[0] ?? args.keywords.get('filepath_or_buffer'));
+    if (sourcePath && columns.length === 0) {
+      const separator = parseStringLiteral(args.keywords.get('sep') ?? args.keywords.get('delimiter'))
+        ?? (read[1] === 'read_table' || sourcePath.toLowerCase().endsWith('.tsv') ? '\t' : ',');
+      onRead?.({ path: sourcePath, separator });
+      columns = csvHeaders.get(sourcePath) ?? [];
+    }
+    const dtypes = new Map(parseDictEntries(args.keywords.get('dtype')).map(([key, value]) => [key, parseStringLiteral(value) ?? value]));
+    columns.forEach(column => addColumn(frame, column, dtypes.get(column) ?? ''));
+    if (columns.length === 0) {
+      dtypes.forEach((type, column) => addColumn(frame, column, type));
+    }
+    for (const column of parseStringList(args.keywords.get('parse_dates'))) {
+      addColumn(frame, column, 'datetime64[ns]');
+    }
+    return frame;
+  }
+
+  // pd.DataFrame({"a": [...], ...}) / pd.DataFrame(data, columns=[...])
+  const constructor = /^(?:pd|pandas)\.DataFrame\s*\(/.exec(expression);
+  if (constructor) {
+    const args = parseCallArguments(extractBracketed(expression, constructor[0].length - 1) ?? '');
+    const frame: DataframeSchema = { name, columns: [] };
+    const columns = parseStringList(args.keywords.get('columns'));
+    if (columns.length > 0) {
+      columns.forEach(column => addColumn(frame, column));
+    } else {
+      for (const [key, value] of parseDictEntries(args.positional[0] ?? args.keywords.get('data'))) {
+        addColumn(frame, key, inferDtype(value));
+      }
+    }
+    return frame;
+  }
+
+  // pd.concat([a, b]) / pd.merge(a, b)：列取并集
+  const combine = /^(?:pd|pandas)\.(concat|merge)\s*\(/.exec(expression);
+  if (combine) {
+    const args = parseCallArguments(extractBracketed(expression, combine[0].length - 1) ?? '');
+    const sources = combine[1] === 'concat'
+      ? splitTopLevel(extractBracketed(args.positional[0] ?? '', 0) ?? '')
+      : args.positional.slice(0, 2);
+    return unionFrames(name, sources, frames, addColumn);
+  }
+
+  // 列子集：df[["a", "b"]]
+  const subset = /^(\w+)\s*\[\s*\[/.exec(expression);
+  if (subset && frames.has(subset[1])) {
+    const frame: DataframeSchema = { name, columns: [] };
+    const base = frames.get(subset[1])!;
+    for (const column of parseStringList(expression.substring(expression.indexOf('[', subset[1].length + 1)))) {
+      addColumn(frame, column, base.columns.find(existing => existing.key === column)?.type ?? '');
+    }
+    return frame;
+  }
+
+  // 方法调用及链式调用：df.assign(...) / df.rename(columns=...) / df.drop(columns=...) / df.merge(other) / df.copy() ...
+  const receiver = /^(\w+)(?=\s*\.)/.exec(expression);
+  let frame = receiver && frames.get(receiver[1]) ? cloneFrame(name, frames.get(receiver[1])!) : null;
+  let position = receiver?.[0].length ?? 0;
+  while (frame) {
+    const method = /^\s*\.(\w+)\s*\(/.exec(expression.substring(position));
+    if (!method) {
+      // 链式调用之后还有其他表达式（如属性访问、索引）时无法推断
+      return expression.substring(position).trim() ? null : frame;
+    }
+    const body = extractBracketed(expression, position + method[0].length - 1);
+    if (body === null) {
+      return null;
+    }
+    position += method[0].length + body.length + 1;
+    frame = applyMethod(frame, method[1], parseCallArguments(body), frames, addColumn);
+  }
+  return null;
+}
+
+/**
+ * 应用单个方法调用，无法推断结果的列时返回 null
+ */
+function applyMethod(
+  frame: DataframeSchema,
+  method: string,
+  args: { positional: string[]; keywords: Map<string, string> },
+  frames: Map<string, DataframeSchema>,
+  addColumn: (frame: DataframeSchema, key: string, type?: string) => void
+): DataframeSchema | null {
+  switch (method) {
+    case 'assign':
+      args.keywords.forEach((value, key) => addColumn(frame, key, inferDtype(value)));
+      return frame;
+    case 'rename': {
+      const renames = new Map(parseDictEntries(args.keywords.get('columns')).map(([key, value]) => [key, parseStringLiteral(value)]));
+      frame.columns = frame.columns.map(column => ({ ...column, key: renames.get(column.key) ?? column.key }));
+      return frame;
+    }
+    case 'drop': {
+      const dropped = new Set([...parseStringList(args.keywords.get('columns')), ...parseStringList(args.positional[0])]);
+      frame.columns = frame.columns.filter(column => !dropped.has(column.key));
+      return frame;
+    }
+    case 'merge':
+    case 'join': {
+      const other = frames.get((args.positional[0] ?? '').trim());
+      other?.columns.forEach(column => addColumn(frame, column.key, column.type));
+      return other ? frame : null;
+    }
+    default:
+      return COLUMN_PRESERVING_METHODS.includes(method) ? frame : null;
+  }
+}
+
+function unionFrames(
+  name: string,
+  sources: string[],
+  frames: Map<string, DataframeSchema>,
+  addColumn: (frame: DataframeSchema, key: string, type?: string) => void
+): DataframeSchema | null {
+  const known = sources.map(source => frames.get(source.trim())).filter((frame): frame is DataframeSchema => frame !== undefined);
+  if (known.length === 0) {
+    return null;
+  }
+  const frame: DataframeSchema = { name, columns: [] };
+  known.forEach(source => source.columns.forEach(column => addColumn(frame, column.key, column.type)));
+  return frame;
+}
+
+/**
+ * 解析 CSV 表头行
+ */
+export function parseCsvHeader(line: string, separator: string = ','): string[] {
+  return line
+    .replace(/^\uFEFF/, '')
+    .split(separator)
+    .map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+    .filter(cell => cell.length > 0)
+    .slice(0, MAX_COLUMNS);
+}
+
+/**
+ * 文件是否位于目录之内（不含目录本身）
+ */
+function isInside(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * 推断 DataFrame，并读取工作区中 CSV/TSV 文件的表头作为未显式指定的列名
+ *
+ * @param baseDirs 解析相对路径的目录，按顺序尝试（文件所在目录、工作区根目录）
+ * @param access 解析后（包括符号链接）不在工作区内、被排除的文件不读取
+ */
+export async function inferDataframesWithCsvHeaders(source: string, baseDirs: string[], access: CsvHeaderAccess): Promise<DataframeSchema[]> {
+  const sources: DataframeSource[] = [];
+  inferDataframes(source, new Map(), read => sources.push(read));
+
+  let workspaceRoot: string;
+  try {
+    workspaceRoot = await fs.promises.realpath(access.workspaceRoot);
+  } catch {
+    return inferDataframes(source);
+  }
+
+  const csvHeaders = new Map<string, string[]>();
+  for (const read of sources) {
+    if (csvHeaders.has(read.path) || !/\.(?:csv|tsv|txt)$/i.test(read.path) || /^[a-z]+:\/\//i.test(read.path)) {
+      continue;
+    }
+    for (const baseDir of baseDirs) {
+      try {
+        const filePath = await fs.promises.realpath(path.resolve(baseDir, read.path));
+        if (!isInside(workspaceRoot, filePath) || !access.isReadable(filePath)) {
+          continue;
+        }
+        // 数据文件可能很大，只读取开头部分
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+          const buffer = Buffer.alloc(HEADER_READ_BYTES);
+          const { bytesRead } = await handle.read(buffer, 0, HEADER_READ_BYTES, 0);
+          const firstLine = buffer.subarray(0, bytesRead).toString('utf8').split(/\r?\n/)[0] ?? '';
+          csvHeaders.set(read.path, parseCsvHeader(access.redact(filePath, firstLine), read.separator));
+        } finally {
+          await handle.close();
+        }
+        break;
+      } catch {
+        // 文件不存在或无法读取，尝试下一个目录
+      }
+    }
+  }
+
+  return sources.length > 0 ? inferDataframes(source, csvHeaders) : inferDataframes(source);
+}
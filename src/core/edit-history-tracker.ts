@@ -16,6 +16,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as diff from 'diff';
 import { Logger } from '../utils/logger';
+import { buildNotebookBufferFor, findNotebookCell, NOTEBOOK_CELL_SCHEME } from './notebook-context';
 
 
 interface FileEditState {
@@ -54,19 +55,29 @@ export class EditHistoryTracker {
       this.logger.info(`🔍 文档打开事件触发: ${fileName}`);
       this.logger.info(`📁 文件路径: ${document.uri.fsPath}`);
 
-      const uriString = document.uri.toString();
-      this.documentStates.set(uriString, document.getText());
-      this.logger.info(`📄 缓存文档内容: ${fileName}, 长度: ${document.getText().length}`);
+      const tracked = this.getTrackedContent(document);
+      this.documentStates.set(tracked.uriString, tracked.content);
+      this.logger.info(`📄 缓存文档内容: ${fileName}, 长度: ${tracked.content.length}`);
     });
 
     // 监听文档关闭事件
     vscode.workspace.onDidCloseTextDocument((document) => {
       this.logger.info(`🗑️ 文档关闭事件触发: ${path.basename(document.uri.fsPath)}`);
+      // 笔记本单元格关闭（如删除单元格）时保留整个笔记本的历史
+      if (document.uri.scheme === NOTEBOOK_CELL_SCHEME) {
+        return;
+      }
       const uriString = document.uri.toString();
       this.documentStates.delete(uriString);
       this.fileStates.delete(document.uri.fsPath);
     });
 
+    // 监听笔记本关闭事件
+    vscode.workspace.onDidCloseNotebookDocument((notebook) => {
+      this.documentStates.delete(notebook.uri.toString());
+      this.fileStates.delete(notebook.uri.fsPath);
+    });
+
     // 监听文档变更事件（使用防抖）
     vscode.workspace.onDidChangeTextDocument((event) => {
       // 🔧 过滤掉输出面板、设置文件等非用户代码文件
@@ -94,9 +105,9 @@ export class EditHistoryTracker {
       const fileName = path.basename(document.uri.fsPath);
       this.logger.info(`📄 已打开文档: ${fileName} (${document.uri.fsPath})`);
 
-      const uriString = document.uri.toString();
-      this.documentStates.set(uriString, document.getText());
-      this.getOrCreateFileState(document.uri.fsPath, document.getText(), document.version);
+      const tracked = this.getTrackedContent(document);
+      this.documentStates.set(tracked.uriString, tracked.content);
+      this.getOrCreateFileState(tracked.filePath, tracked.content, tracked.version);
       this.logger.info(`✅ 初始化已打开的代码文件: ${fileName}`);
     }
   }
@@ -120,23 +131,22 @@ export class EditHistoryTracker {
   private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
     try {
       const document = event.document;
-      const filePath = document.uri.fsPath;
-      const uriString = document.uri.toString();
+      // 笔记本单元格的差异基于整个笔记本的拼接缓冲区计算，行号与补全请求一致
+      const { uriString, filePath, content: newContent, version } = this.getTrackedContent(document);
 
       // 过滤掉非代码文件
       if (!this.isCodeFile(filePath)) {
         return;
       }
 
-      // 获取旧内容和新内容
+      // 获取旧内容
       const oldContent = this.documentStates.get(uriString);
-      const newContent = document.getText();
 
       if (!oldContent) {
         // 首次访问文件，直接缓存
         this.documentStates.set(uriString, newContent);
-        this.getOrCreateFileState(filePath, newContent, document.version);
-        this.logger.info(`📄 首次缓存文件内容: ${path.basename(filePath)}, 版本: ${document.version}`);
+        this.getOrCreateFileState(filePath, newContent, version);
+        this.logger.info(`📄 首次缓存文件内容: ${path.basename(filePath)}, 版本: ${version}`);
         return;
       }
 
@@ -149,21 +159,21 @@ export class EditHistoryTracker {
 
       if (diffString.trim() !== '') {
         // 获取或创建文件状态
-        const fileState = this.getOrCreateFileState(filePath, newContent, document.version);
+        const fileState = this.getOrCreateFileState(filePath, newContent, version);
 
         // 添加到历史记录
         this.addDiffToHistory(filePath, diffString);
 
         // 更新状态
         fileState.lastContent = newContent;
-        fileState.version = document.version;
+        fileState.version = version;
         fileState.lastEditTime = Date.now();
 
-        this.logger.info(`✅ 记录差异历史: ${path.basename(filePath)}, 版本: ${document.version}, 差异长度: ${diffString.length}`);
+        this.logger.info(`✅ 记录差异历史: ${path.basename(filePath)}, 版本: ${version}, 差异长度: ${diffString.length}`);
         this.logger.info(`📋 完整差异内容:`);
         this.logger.info(diffString);
       } else {
-        this.logger.info(`⚪ 无有效差异: ${path.basename(filePath)}, 版本: ${document.version}`);
+        this.logger.info(`⚪ 无有效差异: ${path.basename(filePath)}, 版本: ${version}`);
       }
 
       // 更新缓存内容
@@ -254,6 +264,27 @@ export class EditHistoryTracker {
     }
   }
 
+  /**
+   * 需要跟踪的内容：笔记本代码单元格对应整个笔记本的拼接缓冲区
+   */
+  private getTrackedContent(document: vscode.TextDocument): { uriString: string; filePath: string; content: string; version: number } {
+    const buffer = buildNotebookBufferFor(document);
+    if (buffer) {
+      return {
+        uriString: buffer.notebook.uri.toString(),
+        filePath: buffer.notebook.uri.fsPath,
+        content: buffer.content,
+        version: buffer.notebook.version
+      };
+    }
+    return {
+      uriString: document.uri.toString(),
+      filePath: document.uri.fsPath,
+      content: document.getText(),
+      version: document.version
+    };
+  }
+
   /**
    * 获取或创建文件状态
    */
@@ -365,6 +396,12 @@ export class EditHistoryTracker {
       return true;
     }
 
+    // 笔记本代码单元格按所属笔记本跟踪，Markdown 单元格忽略
+    if (uri.scheme === NOTEBOOK_CELL_SCHEME) {
+      const found = findNotebookCell(document);
+      return !found || found.notebook.cellAt(found.cellIndex).kind !== vscode.NotebookCellKind.Code;
+    }
+
     // 只处理本地文件系统的代码文件
     if (uri.scheme !== 'file') {
       return true;
@@ -381,7 +418,7 @@ export class EditHistoryTracker {
     const codeExtensions = [
       '.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.cpp', '.c', '.cs',
       '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.scala', '.html',
-      '.css', '.scss', '.less', '.json', '.xml', '.yaml', '.yml', '.md'
+      '.css', '.scss', '.less', '.json', '.xml', '.yaml', '.yml', '.md', '.ipynb'
     ];
 
     return codeExtensions.includes(ext);
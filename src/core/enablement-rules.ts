@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { getOwningUri } from './notebook-context';
+
+/**
+ * 解析后的启用规则
+ *
+ * 规则语法（按顺序匹配，最后一条匹配的规则生效，未匹配任何规则时启用）：
+ * - `language:python` 启用某个语言，`!language:markdown` 禁用
+ * - glob 模式（相对工作区路径），`!` 前缀表示禁用；不含 `/` 的模式匹配任意目录下的文件名，
+ *   `/` 开头的模式从工作区根目录开始匹配
+ */
+export interface EnablementRule {
+  enable: boolean;
+  kind: 'language' | 'glob';
+  value: string;
+  raw: string;
+}
+
+const LANGUAGE_PREFIX = 'language:';
+
+export function parseEnablementRule(raw: string): EnablementRule | null {
+  let rule = raw.trim();
+  if (!rule || rule.startsWith('#')) {
+    return null;
+  }
+
+  const enable = !rule.startsWith('!');
+  if (!enable) {
+    rule = rule.substring(1).trim();
+  }
+
+  if (rule.startsWith(LANGUAGE_PREFIX)) {
+    const languageId = rule.substring(LANGUAGE_PREFIX.length).trim();
+    return languageId ? { enable, kind: 'language', value: languageId, raw } : null;
+  }
+  return rule ? { enable, kind: 'glob', value: rule, raw } : null;
+}
+
+/**
+ * 将 glob 转换为正则表达式，支持 `**`、`*`、`?`、`{a,b}`、`[abc]` 和 `\` 转义
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob;
+  let anchored = false;
+  if (pattern.startsWith('/')) {
+    anchored = true;
+    pattern = pattern.substring(1);
+  }
+  // 不含目录分隔符的模式匹配任意目录下的文件名
+  const matchBasename = !anchored && !pattern.replace(/\/$/, '').includes('/');
+
+  let regex = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      regex += '\\' + pattern[++i];
+    } else if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        regex += '(?:.*/)?';
+      } else {
+        regex += '.*';
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        const content = pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        regex += `[${content}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^${}()|\]]/g, '\\$&');
+    }
+  }
+
+  // 以 / 结尾的模式匹配目录下的所有文件
+  if (regex.endsWith('/')) {
+    regex += '.*';
+  }
+  return new RegExp(matchBasename ? `(?:^|/)${regex}$` : `^${regex}$`);
+}
+
+/**
+ * 依次匹配规则，返回最后一条匹配规则的结果；没有规则匹配时返回 undefined
+ */
+export function evaluateEnablementRules(
+  rules: EnablementRule[],
+  target: { relativePath: string; languageId?: string }
+): boolean | undefined {
+  const normalizedPath = target.relativePath.replace(/\\/g, '/');
+  let result: boolean | undefined;
+
+  for (const rule of rules) {
+    const matches = rule.kind === 'language'
+      ? target.languageId === rule.value
+      : globToRegExp(rule.value).test(normalizedPath);
+    if (matches) {
+      result = rule.enable;
+    }
+  }
+  return result;
+}
+
+/**
+ * 将路径转换为只匹配该文件的规则
+ */
+export function fileRuleFor(relativePath: string): string {
+  return '/' + relativePath.replace(/\\/g, '/').replace(/[*?{}[\]!,\\]/g, '\\$&');
+}
+
+/**
+ * 按语言和路径启用/禁用补全与文件同步
+ *
+ * 规则来自 cometixTab.enablementRules，默认排除 .env、私钥、node_modules 和生成的代码
+ */
+export class EnablementRules {
+  private static instance: EnablementRules;
+  private logger: Logger;
+
+  public static getInstance(): EnablementRules {
+    if (!EnablementRules.instance) {
+      EnablementRules.instance = new EnablementRules();
+    }
+    return EnablementRules.instance;
+  }
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 当前配置中的有效规则
+   */
+  getRules(): EnablementRule[] {
+    return ConfigManager.getConfig().enablementRules
+      .map(parseEnablementRule)
+      .filter((rule): rule is EnablementRule => rule !== null);
+  }
+
+  /**
+   * 文档是否启用补全（笔记本单元格按笔记本文件匹配）
+   */
+  isEnabledFor(document: vscode.TextDocument): boolean {
+    return this.isPathEnabled(vscode.workspace.asRelativePath(getOwningUri(document)), document.languageId);
+  }
+
+  /**
+   * 路径（以及可选的语言）是否启用补全和同步
+   */
+  isPathEnabled(relativePath: string, languageId?: string): boolean {
+    return evaluateEnablementRules(this.getRules(), { relativePath, languageId }) ?? true;
+  }
+
+  /**
+   * 语言级别是否启用（只考虑语言规则）
+   */
+  isLanguageEnabled(languageId: string): boolean {
+    return evaluateEnablementRules(this.getRules().filter(rule => rule.kind === 'language'), { relativePath: '', languageId }) ?? true;
+  }
+
+  /**
+   * 切换某个语言的启用状态（写入用户设置）
+   */
+  async toggleLanguage(languageId: string): Promise<boolean> {
+    const enable = !this.isLanguageEnabled(languageId);
+    const rules = ConfigManager.getConfig().enablementRules.filter(raw => {
+      const rule = parseEnablementRule(raw);
+      return !(rule?.kind === 'language' && rule.value === languageId);
+    });
+    if (!enable) {
+      rules.push(`!${LANGUAGE_PREFIX}${languageId}`);
+    }
+
+    await vscode.workspace.getConfiguration('cometixTab').update('enablementRules', rules, vscode.ConfigurationTarget.Global);
+    this.logger.info(`🔀 ${enable ? '启用' : '禁用'}语言的补全: ${languageId}`);
+    return enable;
+  }
+
+  /**
+   * 切换当前文件的启用状态（有工作区时写入工作区设置）
+   */
+  async toggleFile(document: vscode.TextDocument): Promise<boolean> {
+    const relativePath = vscode.workspace.asRelativePath(getOwningUri(document));
+    const enable = !this.isEnabledFor(document);
+    const fileRule = fileRuleFor(relativePath);
+
+    const rules = ConfigManager.getConfig().enablementRules.filter(raw => {
+      const rule = parseEnablementRule(raw);
+      return rule?.kind !== 'glob' || rule.value !== fileRule;
+    });
+    const withoutFileRule = evaluateEnablementRules(
+      rules.map(parseEnablementRule).filter((rule): rule is EnablementRule => rule !== null),
+      { relativePath, languageId: document.languageId }
+    ) ?? true;
+    // 去掉旧的文件规则后仍不是期望状态时才追加新规则
+    if (withoutFileRule !== enable) {
+      rules.push(enable ? fileRule : `!${fileRule}`);
+    }
+
+    const target = vscode.workspace.workspaceFolders?.length ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('cometixTab').update('enablementRules', rules, target);
+    this.logger.info(`🔀 ${enable ? '启用' : '禁用'}文件的补全: ${path.basename(relativePath)}`);
+    return enable;
+  }
+}
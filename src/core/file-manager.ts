@@ -1,10 +1,15 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import type { FileInfo, CompletionRequest } from '../types';
+import type { FileInfo, CompletionRequest, NotebookLayout, RetrievedChunk } from '../types';
 import { CryptoUtils } from '../utils/crypto';
 import { Logger } from '../utils/logger';
 import { CursorApiClient } from './api-client';
 import { smartEditDetector } from '../utils/smart-edit-detector';
+import { ConfigManager } from '../utils/config';
+import { EnablementRules } from './enablement-rules';
+import { ContentGuard } from './content-guard';
+import { buildNotebookBufferFor, getOwningUri } from './notebook-context';
+import { Bm25Index } from './bm25-index';
 
 export class FileManager {
   private logger: Logger;
@@ -15,6 +20,24 @@ export class FileManager {
   // 🚀 性能优化：添加上下文缓存
   private contextCache = new Map<string, { files: FileInfo[]; timestamp: number }>();
   private readonly CONTEXT_CACHE_TTL = 5000; // 5秒缓存
+  // 🔎 工作区代码块的 BM25 索引
+  private chunkIndex = new Bm25Index();
+  private indexTimers = new Map<string, NodeJS.Timeout>();
+  private chunkIndexBuilt = false;
+  private watching = false;
+  private readonly INDEX_DEBOUNCE_MS = 1000;
+  private readonly MAX_INDEXED_FILES = 2000;
+  private readonly MAX_INDEXED_FILE_CHARS = 50000;
+  private readonly QUERY_LINES_BEFORE = 20;
+  private readonly QUERY_LINES_AFTER = 5;
+  private readonly INDEX_EXCLUDE_GLOB = '**/{node_modules,.git,dist,out,build}/**';
+  private readonly CODE_EXTENSIONS = [
+    '.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte',
+    '.py', '.java', '.cpp', '.c', '.h', '.hpp',
+    '.go', '.rs', '.php', '.rb', '.swift', '.kt',
+    '.scala', '.cs', '.dart', '.html', '.css', '.scss',
+    '.less', '.json', '.yaml', '.yml', '.toml', '.xml'
+  ];
   
   constructor(apiClient: CursorApiClient, debounceMs: number = 300) {
     this.logger = Logger.getInstance();
@@ -24,6 +47,10 @@ export class FileManager {
   
   updateConfig(debounceMs: number): void {
     this.debounceMs = debounceMs;
+    // 启动后才开启 BM25 检索时补建索引
+    if (this.watching && !this.chunkIndexBuilt) {
+      void this.buildChunkIndex();
+    }
   }
   
   async syncDocument(document: vscode.TextDocument): Promise<void> {
@@ -31,15 +58,29 @@ export class FileManager {
       return;
     }
     
-    const filePath = vscode.workspace.asRelativePath(document.uri);
-    const content = document.getText();
-    const sha256 = CryptoUtils.calculateSHA256(content);
+    // 📂 遵循服务器下发的文件同步策略
+    const syncPolicy = ConfigManager.getConfig().fileSyncPolicy;
+    if (!syncPolicy.enabled) {
+      return;
+    }
     
-    const fileInfo: FileInfo = {
-      path: filePath,
-      content,
-      sha256
-    };
+    const filePath = vscode.workspace.asRelativePath(document.uri);
+    if (!EnablementRules.getInstance().isPathEnabled(filePath, document.languageId)) {
+      this.logger.debug(`🚫 启用规则排除了该文件，跳过同步: ${filePath}`);
+      return;
+    }
+
+    if (Buffer.byteLength(document.getText(), 'utf8') > syncPolicy.maxFileSizeBytes) {
+      this.logger.debug(`📏 文件超过同步大小上限，跳过同步: ${filePath}`);
+      return;
+    }
+
+    // 🔒 排除 .cometixignore 中的文件，上传前隐去密钥
+    const fileInfo = ContentGuard.getInstance().guardFileInfo(document.uri, filePath, document.getText());
+    if (!fileInfo) {
+      return;
+    }
+    const sha256 = fileInfo.sha256;
     
     // 检查文件是否已经同步过且内容相同
     const existing = this.syncedFiles.get(filePath);
@@ -157,7 +198,8 @@ export class FileManager {
   
   async getCurrentFileInfo(document: vscode.TextDocument): Promise<FileInfo> {
     const filePath = vscode.workspace.asRelativePath(document.uri);
-    const content = document.getText();
+    // 🔒 隐去密钥（占位符与原值等长，行号和列号不变，光标位置仍然对齐）
+    const content = ContentGuard.getInstance().redactContent(filePath, document.getText()).content;
     const sha256 = CryptoUtils.calculateSHA256(content);
     
     const existing = this.syncedFiles.get(filePath);
@@ -170,6 +212,24 @@ export class FileManager {
     };
   }
   
+  /**
+   * 笔记本单元格的文件信息：拼接整个笔记本作为当前文件，不是笔记本代码单元格时返回 undefined
+   */
+  getNotebookFileInfo(document: vscode.TextDocument): { fileInfo: FileInfo; layout: NotebookLayout } | undefined {
+    const buffer = buildNotebookBufferFor(document);
+    if (!buffer) {
+      return undefined;
+    }
+
+    const filePath = vscode.workspace.asRelativePath(buffer.notebook.uri);
+    const content = ContentGuard.getInstance().redactContent(filePath, buffer.content).content;
+    this.logger.debug(`📓 笔记本缓冲区: ${filePath}, ${buffer.layout.cellStartLines.length} 个单元格, 当前单元格 #${buffer.layout.activeCellIndex}`);
+    return {
+      fileInfo: { path: filePath, content, sha256: CryptoUtils.calculateSHA256(content) },
+      layout: buffer.layout
+    };
+  }
+  
   startWatching(): vscode.Disposable[] {
     const disposables: vscode.Disposable[] = [];
     
@@ -177,6 +237,7 @@ export class FileManager {
     disposables.push(
       vscode.workspace.onDidChangeTextDocument(e => {
         this.syncDocument(e.document);
+        this.scheduleIndexUpdate(e.document);
       })
     );
     
@@ -184,6 +245,23 @@ export class FileManager {
     disposables.push(
       vscode.workspace.onDidOpenTextDocument(document => {
         this.syncDocument(document);
+        this.scheduleIndexUpdate(document);
+      })
+    );
+    
+    // 🔎 文件创建/删除/重命名时更新 BM25 索引
+    disposables.push(
+      vscode.workspace.onDidCreateFiles(e => {
+        e.files.forEach(uri => { void this.indexPath(uri); });
+      }),
+      vscode.workspace.onDidDeleteFiles(e => {
+        e.files.forEach(uri => this.removeFromIndex(uri));
+      }),
+      vscode.workspace.onDidRenameFiles(e => {
+        e.files.forEach(({ oldUri, newUri }) => {
+          this.removeFromIndex(oldUri);
+          void this.indexPath(newUri);
+        });
       })
     );
     
@@ -192,20 +270,144 @@ export class FileManager {
       this.syncDocument(editor.document);
     });
     
+    // 后台建立工作区索引
+    this.watching = true;
+    void this.buildChunkIndex();
+    
     this.logger.info('File watching started');
     return disposables;
   }
   
+  /**
+   * 建立工作区代码文件的 BM25 索引（遵循启用规则和 .cometixignore）
+   */
+  private async buildChunkIndex(): Promise<void> {
+    if (this.chunkIndexBuilt || ConfigManager.getConfig().bm25TopChunks <= 0) {
+      return;
+    }
+    this.chunkIndexBuilt = true;
+    try {
+      const startTime = Date.now();
+      const files = await vscode.workspace.findFiles(this.codeFileGlob(), this.INDEX_EXCLUDE_GLOB, this.MAX_INDEXED_FILES);
+      for (const uri of files) {
+        await this.indexFile(uri);
+      }
+      this.logger.info(`🔎 BM25 索引已建立: ${this.chunkIndex.fileCount} 个文件, 耗时 ${Date.now() - startTime}ms`);
+    } catch (error) {
+      this.logger.warn('⚠️ 建立 BM25 索引失败', error as Error);
+    }
+  }
+
+  private codeFileGlob(): string {
+    return `**/*.{${this.CODE_EXTENSIONS.map(ext => ext.substring(1)).join(',')}}`;
+  }
+
+  /**
+   * 索引新建或重命名后的文件；目录则重新扫描其中的代码文件
+   */
+  private async indexPath(uri: vscode.Uri): Promise<void> {
+    if (uri.scheme !== 'file' || ConfigManager.getConfig().bm25TopChunks <= 0) {
+      return;
+    }
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type & vscode.FileType.Directory) {
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, this.codeFileGlob()), this.INDEX_EXCLUDE_GLOB, this.MAX_INDEXED_FILES);
+        for (const file of files) {
+          await this.indexFile(file);
+        }
+        return;
+      }
+    } catch (error) {
+      this.logger.debug(`读取文件信息失败: ${uri.fsPath}`, error as Error);
+      return;
+    }
+    await this.indexFile(uri);
+  }
+
+  /**
+   * 读取磁盘上的文件并更新索引，已在编辑器中打开的文件使用编辑器内容
+   */
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    if (uri.scheme !== 'file' || !this.isCodeFile(uri.fsPath)) {
+      return;
+    }
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (openDocument) {
+      this.updateIndex(openDocument.uri, openDocument.getText(), openDocument.languageId);
+      return;
+    }
+    try {
+      const data = await vscode.workspace.fs.readFile(uri);
+      this.updateIndex(uri, Buffer.from(data).toString('utf8'));
+    } catch (error) {
+      this.logger.debug(`索引文件失败: ${uri.fsPath}`, error as Error);
+    }
+  }
+
+  private scheduleIndexUpdate(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || !this.isCodeFile(document.fileName) || ConfigManager.getConfig().bm25TopChunks <= 0) {
+      return;
+    }
+    const key = document.uri.toString();
+    const existingTimer = this.indexTimers.get(key);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+    this.indexTimers.set(key, setTimeout(() => {
+      this.indexTimers.delete(key);
+      this.updateIndex(document.uri, document.getText(), document.languageId);
+    }, this.INDEX_DEBOUNCE_MS));
+  }
+
+  private updateIndex(uri: vscode.Uri, content: string, languageId?: string): void {
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    const contentGuard = ContentGuard.getInstance();
+    if (content.length > this.MAX_INDEXED_FILE_CHARS ||
+        !EnablementRules.getInstance().isPathEnabled(relativePath, languageId) ||
+        contentGuard.isIgnored(uri)) {
+      this.chunkIndex.removeFile(relativePath);
+      return;
+    }
+    // 🔒 索引脱敏后的内容，检索结果可以直接发送
+    this.chunkIndex.setFile(relativePath, contentGuard.redactContent(relativePath, content).content);
+  }
+
+  private removeFromIndex(uri: vscode.Uri): void {
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    this.chunkIndex.removeFile(relativePath);
+    // 删除的可能是目录，移除其下所有已索引的文件
+    this.chunkIndex.removeByPrefix(relativePath + '/');
+  }
+
+  /**
+   * 检索与光标附近代码最相关的其他文件中的代码块
+   */
+  getTopChunks(document: vscode.TextDocument, position: vscode.Position, limit: number = ConfigManager.getConfig().bm25TopChunks): RetrievedChunk[] {
+    if (limit <= 0 || this.chunkIndex.fileCount === 0) {
+      return [];
+    }
+    const query = document.getText(new vscode.Range(
+      Math.max(0, position.line - this.QUERY_LINES_BEFORE),
+      0,
+      Math.min(document.lineCount - 1, position.line + this.QUERY_LINES_AFTER),
+      Number.MAX_SAFE_INTEGER
+    ));
+    return this.chunkIndex.search(query, limit, vscode.workspace.asRelativePath(getOwningUri(document)));
+  }
+
   /**
    * 获取多文件上下文 - 为代码补全提供相关文件内容
    * 这是提升代码补全质量的关键功能
+   *
+   * @param includeDirectoryFiles 是否用同目录文件补足；已有 BM25 代码块时不再附带整个文件
    */
-  async getMultiFileContext(currentDocument: vscode.TextDocument, maxFiles: number = 10): Promise<FileInfo[]> {
+  async getMultiFileContext(currentDocument: vscode.TextDocument, maxFiles: number = 10, includeLspFiles: boolean = true, includeDirectoryFiles: boolean = true): Promise<FileInfo[]> {
     try {
       const currentPath = vscode.workspace.asRelativePath(currentDocument.uri);
       
       // 🚀 性能优化：检查缓存
-      const cacheKey = `${currentPath}:${maxFiles}`;
+      const cacheKey = `${currentPath}:${maxFiles}:${includeLspFiles}:${includeDirectoryFiles}`;
       const cached = this.contextCache.get(cacheKey);
       if (cached && (Date.now() - cached.timestamp) < this.CONTEXT_CACHE_TTL) {
         this.logger.info(`⚡ 使用缓存的多文件上下文: ${cached.files.length} 个文件`);
@@ -226,18 +428,22 @@ export class FileManager {
       contextFiles.push(await this.getCurrentFileInfo(currentDocument));
 
       // 🚀 基于 LSP 的智能上下文收集策略
-      // 2. 使用 LSP 获取相关文件（最准确的方法）
-      const lspRelatedFiles = await this.findLSPRelatedFiles(currentDocument, maxFiles - 1);
-      contextFiles.push(...lspRelatedFiles);
+      // 2. 使用 LSP 获取相关文件（最准确的方法；已有 LSP 子图上下文时跳过）
+      if (includeLspFiles) {
+        const lspRelatedFiles = await this.findLSPRelatedFiles(currentDocument, maxFiles - 1);
+        contextFiles.push(...lspRelatedFiles);
+      }
 
       // 3. 回退策略：如果 LSP 没有返回足够的文件，使用基础方法补充
       if (contextFiles.length < maxFiles) {
         const remainingSlots = maxFiles - contextFiles.length;
         
         // 获取同目录下的相关文件
-        const currentDir = path.dirname(currentDocument.uri.fsPath);
-        const sameDirectoryFiles = await this.findRelevantFilesInDirectory(currentDir, currentPath, Math.min(3, remainingSlots));
-        contextFiles.push(...sameDirectoryFiles);
+        if (includeDirectoryFiles) {
+          const currentDir = path.dirname(currentDocument.uri.fsPath);
+          const sameDirectoryFiles = await this.findRelevantFilesInDirectory(currentDir, currentPath, Math.min(3, remainingSlots));
+          contextFiles.push(...sameDirectoryFiles);
+        }
 
         // 获取重要的配置文件
         if (contextFiles.length < maxFiles) {
@@ -246,8 +452,12 @@ export class FileManager {
         }
       }
 
+      // 4. 排除启用规则禁用的文件（当前文件除外）
+      const enablementRules = EnablementRules.getInstance();
+      const allowedFiles = contextFiles.filter(file => file.path === currentPath || enablementRules.isPathEnabled(file.path));
+
       // 5. 去重并限制数量
-      const uniqueFiles = this.deduplicateFiles(contextFiles);
+      const uniqueFiles = this.deduplicateFiles(allowedFiles);
       const limitedFiles = uniqueFiles.slice(0, maxFiles);
 
       this.logger.info(`✅ 收集到 ${limitedFiles.length} 个上下文文件:`);
@@ -480,13 +690,18 @@ export class FileManager {
    */
   private async readFileAsFileInfo(filePath: string, relativePath: string): Promise<FileInfo | null> {
     try {
+      const uri = vscode.Uri.file(filePath);
+      const contentGuard = ContentGuard.getInstance();
+      if (contentGuard.isIgnored(uri)) {
+        return null;
+      }
+
       // 先检查是否已经同步过
       const existing = this.syncedFiles.get(relativePath);
       if (existing) {
         return existing;
       }
 
-      const uri = vscode.Uri.file(filePath);
       const data = await vscode.workspace.fs.readFile(uri);
       const content = Buffer.from(data).toString('utf8');
       
@@ -496,15 +711,8 @@ export class FileManager {
         return null;
       }
       
-      const sha256 = CryptoUtils.calculateSHA256(content);
-      
-      const fileInfo: FileInfo = {
-        path: relativePath,
-        content,
-        sha256
-      };
-
-      return fileInfo;
+      // 🔒 隐去配置文件和相关文件中的密钥
+      return contentGuard.guardFileInfo(uri, relativePath, content);
     } catch (error) {
       this.logger.debug(`读取文件失败: ${relativePath}`, error as Error);
       return null;
@@ -515,16 +723,8 @@ export class FileManager {
    * 判断是否为代码文件
    */
   private isCodeFile(fileName: string): boolean {
-    const codeExtensions = [
-      '.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte',
-      '.py', '.java', '.cpp', '.c', '.h', '.hpp',
-      '.go', '.rs', '.php', '.rb', '.swift', '.kt',
-      '.scala', '.cs', '.dart', '.html', '.css', '.scss',
-      '.less', '.json', '.yaml', '.yml', '.toml', '.xml'
-    ];
-    
     const ext = path.extname(fileName).toLowerCase();
-    return codeExtensions.includes(ext);
+    return this.CODE_EXTENSIONS.includes(ext);
   }
 
   /**
@@ -550,6 +750,11 @@ export class FileManager {
       clearTimeout(timer);
     }
     this.debounceTimers.clear();
+    for (const timer of this.indexTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.indexTimers.clear();
+    this.chunkIndex.clear();
     this.syncedFiles.clear();
     this.logger.info('File manager disposed');
   }
@@ -1,3 +1,4 @@
+import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
 import type { FileInfo } from '../types';
 import { FSUploadFileResponse, FSUploadErrorType } from '../generated/fs_pb';
@@ -16,19 +17,92 @@ export interface FileSyncState {
   lastContent?: string; // 🔧 添加最后同步的内容，用于计算差异
 }
 
+/**
+ * 持久化的同步状态（不包含文件内容）
+ */
+type PersistedFileSyncState = Omit<FileSyncState, 'lastContent'>;
+
+const STORAGE_KEY = 'cometixTab.fileSyncStates';
+const STATE_TTL = 2 * 60 * 60 * 1000; // 超过2小时的状态视为过期
+
+/**
+ * 校验从存储中读取的同步状态
+ */
+export function isValidPersistedState(value: unknown): value is PersistedFileSyncState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const state = value as Record<string, unknown>;
+  return typeof state.path === 'string' && state.path.length > 0 &&
+    typeof state.workspaceId === 'string' &&
+    typeof state.uuid === 'string' &&
+    typeof state.modelVersion === 'number' && Number.isInteger(state.modelVersion) && state.modelVersion >= 0 &&
+    typeof state.sha256Hash === 'string' &&
+    typeof state.uploadTime === 'number' &&
+    state.successful === true;
+}
+
 /**
  * 文件同步状态管理器
  * 
- * 负责跟踪文件上传状态，确保补全请求时能够正确引用文件缓存
+ * 负责跟踪文件上传状态，确保补全请求时能够正确引用文件缓存。
+ * 关联 workspaceState 后状态会被持久化，重启 VSCode 后可以直接使用 relyOnFilesync
  */
 export class FileSyncStateManager {
   private logger: Logger;
   private syncStates = new Map<string, FileSyncState>();
+  private storage: vscode.Memento | null = null;
 
   constructor() {
     this.logger = Logger.getInstance();
   }
 
+  /**
+   * 关联持久化存储并恢复上次保存的同步状态
+   */
+  attachStorage(storage: vscode.Memento): void {
+    this.storage = storage;
+
+    const stored = storage.get<unknown[]>(STORAGE_KEY, []);
+    const now = Date.now();
+    let restored = 0;
+    let discarded = 0;
+
+    for (const value of Array.isArray(stored) ? stored : []) {
+      if (!isValidPersistedState(value) || now - value.uploadTime > STATE_TTL || value.uploadTime > now) {
+        discarded++;
+        continue;
+      }
+      // 内存中已有的状态更新更近，不覆盖
+      if (!this.syncStates.has(value.path)) {
+        this.syncStates.set(value.path, { ...value });
+        restored++;
+      }
+    }
+
+    this.logger.info(`💾 恢复文件同步状态: ${restored} 个${discarded > 0 ? `，丢弃 ${discarded} 个无效/过期状态` : ''}`);
+    if (discarded > 0) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 保存同步状态（不保存文件内容，恢复后在哈希匹配时重新关联）
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+
+    const states: PersistedFileSyncState[] = Array.from(this.syncStates.values())
+      .filter(state => state.successful)
+      .map(({ lastContent: _lastContent, ...state }) => state);
+
+    this.storage.update(STORAGE_KEY, states).then(undefined, error => {
+      this.logger.warn('⚠️ 保存文件同步状态失败', error as Error);
+    });
+  }
+
   /**
    * 记录文件上传成功状态
    */
@@ -50,6 +124,7 @@ export class FileSyncStateManager {
     };
 
     this.syncStates.set(fileInfo.path, state);
+    this.persist();
     
     this.logger.info('📝 记录文件同步状态:');
     this.logger.info(`  📄 文件: ${state.path}`);
@@ -111,6 +186,11 @@ export class FileSyncStateManager {
       return false;
     }
 
+    // 从存储恢复的状态没有内容，哈希匹配时补上，以便后续增量同步
+    if (state.lastContent === undefined && fileInfo.content !== undefined) {
+      state.lastContent = fileInfo.content;
+    }
+
     return true;
   }
 
@@ -138,7 +218,7 @@ export class FileSyncStateManager {
 
     for (const [path, state] of this.syncStates.entries()) {
       // 清理超过2小时的状态
-      if (now - state.uploadTime > 2 * 60 * 60 * 1000) {
+      if (now - state.uploadTime > STATE_TTL) {
         expiredPaths.push(path);
       }
     }
@@ -146,6 +226,7 @@ export class FileSyncStateManager {
     if (expiredPaths.length > 0) {
       this.logger.info(`🧹 清理 ${expiredPaths.length} 个过期的文件同步状态`);
       expiredPaths.forEach(path => this.syncStates.delete(path));
+      this.persist();
     }
   }
 
@@ -154,10 +235,20 @@ export class FileSyncStateManager {
    */
   removeFileSyncState(filePath: string): void {
     if (this.syncStates.delete(filePath)) {
+      this.persist();
       this.logger.debug(`🗑️ 移除文件同步状态: ${filePath}`);
     }
   }
 
+  /**
+   * 清除所有同步状态（服务器端的同步会话失效时调用）
+   */
+  clearAll(): void {
+    this.syncStates.clear();
+    this.persist();
+    this.logger.info('🗑️ 已清除所有文件同步状态');
+  }
+
   /**
    * 获取所有同步状态的统计信息
    */
@@ -0,0 +1,333 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { CryptoUtils } from '../utils/crypto';
+import { ConnectRpcApiClient } from './connect-rpc-api-client';
+import { getCppFateReporter } from './cpp-fate-reporter';
+
+/**
+ * 当前显示中的导入预测
+ */
+interface ActiveImportPrediction {
+  editor: vscode.TextEditor;
+  action: vscode.CodeAction;
+  symbol: string;
+  bindingId: string;
+  shownAt: number;
+}
+
+// 各语言服务器"未解析符号"诊断的常见写法
+const UNRESOLVED_SYMBOL_PATTERNS = [
+  /cannot find name/i, // TypeScript
+  /is not defined/i, // Python / ESLint
+  /cannot be resolved/i, // Java
+  /cannot find .* in this scope/i, // Rust
+  /^undefined: /i, // Go
+  /undeclared identifier/i, // C/C++
+  /unresolved reference/i // Kotlin
+];
+
+// TypeScript: 2304 Cannot find name, 2552 Cannot find name. Did you mean, 2503 Cannot find namespace
+const UNRESOLVED_SYMBOL_CODES = new Set(['2304', '2552', '2503', 'reportUndefinedVariable']);
+
+/**
+ * 判断诊断是否表示未解析的符号（可以通过导入修复）
+ */
+export function isUnresolvedSymbolDiagnostic(diagnostic: { message: string; code?: string | number | { value: string | number } }): boolean {
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  if (code !== undefined && UNRESOLVED_SYMBOL_CODES.has(String(code))) {
+    return true;
+  }
+  return UNRESOLVED_SYMBOL_PATTERNS.some(pattern => pattern.test(diagnostic.message));
+}
+
+/**
+ * 导入预测管理器
+ *
+ * 补全被接受后等待语言服务器更新诊断，如果新代码引入了未解析的符号，
+ * 查找对应的导入快速修复并在导入区域显示提示，用户按 Tab 应用、按 Esc 拒绝。
+ * 受服务器 CppConfig 的 importPredictionConfig 控制，结果与其他建议一样上报
+ */
+export class ImportPredictionManager implements vscode.Disposable {
+  private logger: Logger;
+  private connectClient: ConnectRpcApiClient;
+  private decorationType: vscode.TextEditorDecorationType;
+  private activePrediction: ActiveImportPrediction | null = null;
+  private pendingCheck: { uri: string; startedAt: number } | null = null;
+  private isApplying = false;
+  private disposables: vscode.Disposable[] = [];
+  private stats = { checked: 0, suggested: 0, accepted: 0, rejected: 0 };
+
+  private readonly CONTEXT_KEY = 'cometixTab.importPredictionVisible';
+  private readonly DIAGNOSTICS_WAIT_MS = 2500; // 等待语言服务器更新诊断的最长时间
+  private readonly DUPLICATE_WINDOW_MS = 1000; // 同一次接受可能被多个来源通知
+
+  constructor(connectClient: ConnectRpcApiClient) {
+    this.logger = Logger.getInstance();
+    this.connectClient = connectClient;
+
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em'
+      }
+    });
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * 设置事件监听器 - 用户继续编辑或切换编辑器时自动拒绝
+   */
+  private setupEventListeners(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (this.activePrediction && !this.isApplying && event.contentChanges.length > 0 &&
+            event.document === this.activePrediction.editor.document) {
+          this.rejectPrediction('document_edited');
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        if (this.activePrediction) {
+          this.rejectPrediction('editor_changed');
+        }
+      })
+    );
+  }
+
+  /**
+   * 补全被接受后调用，检查接受的代码是否引入了未解析的符号
+   */
+  async onCompletionAccepted(document: vscode.TextDocument, startLine: number, text: string): Promise<void> {
+    if (!this.isEnabledFor(document) || text.trim().length === 0) {
+      return;
+    }
+
+    const uri = document.uri.toString();
+    const now = Date.now();
+    if (this.pendingCheck && this.pendingCheck.uri === uri && now - this.pendingCheck.startedAt < this.DUPLICATE_WINDOW_MS) {
+      return;
+    }
+    this.pendingCheck = { uri, startedAt: now };
+    this.stats.checked++;
+
+    // 接受的文本覆盖的行范围
+    const endLine = Math.min(startLine + text.split(/\r?\n/).length - 1, document.lineCount - 1);
+    const acceptedRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).range.end.character);
+
+    try {
+      const diagnostic = await this.waitForUnresolvedSymbol(document, acceptedRange);
+      if (!diagnostic) {
+        return;
+      }
+
+      const action = await this.findImportAction(document, diagnostic);
+      if (!action) {
+        this.logger.debug(`📭 未找到导入快速修复: ${diagnostic.message}`);
+        return;
+      }
+
+      this.showPrediction(document, diagnostic, action);
+    } catch (error) {
+      this.logger.warn('⚠️ 导入预测失败', error as Error);
+    } finally {
+      this.pendingCheck = null;
+    }
+  }
+
+  /**
+   * 根据服务器的 importPredictionConfig 与本地设置判断是否启用
+   */
+  private isEnabledFor(document: vscode.TextDocument): boolean {
+    const importConfig = this.connectClient.getCachedCppConfig()?.importPredictionConfig;
+    if (importConfig?.isDisabledByBackend) {
+      return false;
+    }
+    if (document.languageId === 'python' && !importConfig?.pythonEnabled) {
+      return false;
+    }
+    return ConfigManager.getConfig().enableImportPrediction || importConfig?.shouldTurnOnAutomatically === true;
+  }
+
+  /**
+   * 等待接受范围内出现新的未解析符号诊断
+   */
+  private waitForUnresolvedSymbol(document: vscode.TextDocument, acceptedRange: vscode.Range): Promise<vscode.Diagnostic | null> {
+    const findInRange = (): vscode.Diagnostic | null => vscode.languages.getDiagnostics(document.uri)
+      .find(diagnostic => acceptedRange.intersection(diagnostic.range) !== undefined && isUnresolvedSymbolDiagnostic(diagnostic)) || null;
+
+    return new Promise(resolve => {
+      let listener: vscode.Disposable | undefined;
+      const timer = setTimeout(() => {
+        listener?.dispose();
+        resolve(findInRange());
+      }, this.DIAGNOSTICS_WAIT_MS);
+
+      listener = vscode.languages.onDidChangeDiagnostics(event => {
+        if (!event.uris.some(uri => uri.toString() === document.uri.toString())) {
+          return;
+        }
+        const diagnostic = findInRange();
+        if (diagnostic) {
+          clearTimeout(timer);
+          listener?.dispose();
+          resolve(diagnostic);
+        }
+      });
+    });
+  }
+
+  /**
+   * 查找能修复该诊断的导入快速修复
+   */
+  private async findImportAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): Promise<vscode.CodeAction | null> {
+    const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+      'vscode.executeCodeActionProvider',
+      document.uri,
+      diagnostic.range,
+      vscode.CodeActionKind.QuickFix.value
+    );
+
+    const importActions = (actions || []).filter(action => /import/i.test(action.title) && (action.edit || action.command));
+    return importActions.find(action => action.isPreferred) || importActions[0] || null;
+  }
+
+  /**
+   * 在导入区域显示导入提示
+   */
+  private showPrediction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, action: vscode.CodeAction): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== document) {
+      return;
+    }
+
+    if (this.activePrediction) {
+      this.rejectPrediction('superseded');
+    }
+
+    const symbol = document.getText(diagnostic.range);
+    // 提示显示在快速修复要修改的位置（即导入区域），没有编辑信息时显示在诊断所在行
+    const importEdit = action.edit?.get(document.uri)?.[0];
+    const hintLine = Math.min(importEdit ? importEdit.range.start.line : diagnostic.range.start.line, document.lineCount - 1);
+
+    this.activePrediction = {
+      editor,
+      action,
+      symbol,
+      bindingId: `import-${CryptoUtils.generateUUID()}`,
+      shownAt: Date.now()
+    };
+
+    editor.setDecorations(this.decorationType, [{
+      range: document.lineAt(hintLine).range,
+      renderOptions: { after: { contentText: `⇥ Tab ${action.title}` } },
+      hoverMessage: new vscode.MarkdownString(`**Cometix Tab 导入预测**\n\n\`${symbol}\` 未解析 (Tab 导入 / Esc 忽略)`)
+    }]);
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, true);
+
+    getCppFateReporter()?.registerSuggestion({
+      bindingId: this.activePrediction.bindingId,
+      uri: document.uri.toString(),
+      text: action.title,
+      startLine: hintLine,
+      endLine: hintLine,
+      modelName: 'import-prediction',
+      shownAt: Date.now()
+    });
+
+    this.stats.suggested++;
+    this.logger.info(`📦 显示导入预测: ${symbol} -> ${action.title}`);
+  }
+
+  /**
+   * 接受导入预测（Tab）- 应用快速修复
+   */
+  async acceptPrediction(): Promise<void> {
+    const prediction = this.activePrediction;
+    if (!prediction) {
+      // 上下文键可能滞后，回退到普通的 Tab 行为
+      await vscode.commands.executeCommand('tab');
+      return;
+    }
+
+    this.clearPrediction();
+    this.isApplying = true;
+
+    try {
+      if (prediction.action.edit) {
+        await vscode.workspace.applyEdit(prediction.action.edit);
+      }
+      if (prediction.action.command) {
+        await vscode.commands.executeCommand(prediction.action.command.command, ...(prediction.action.command.arguments || []));
+      }
+
+      this.stats.accepted++;
+      getCppFateReporter()?.reportAccept(prediction.bindingId);
+      this.logger.info(`✅ 已应用导入: ${prediction.action.title}`);
+    } catch (error) {
+      this.logger.error('❌ 应用导入失败', error as Error);
+    } finally {
+      this.isApplying = false;
+    }
+  }
+
+  /**
+   * 拒绝导入预测（Esc、继续编辑或切换编辑器）
+   */
+  rejectPrediction(reason: string = 'dismissed'): void {
+    const prediction = this.activePrediction;
+    if (!prediction) {
+      return;
+    }
+
+    this.clearPrediction();
+    this.stats.rejected++;
+    getCppFateReporter()?.reportReject(prediction.bindingId);
+    this.logger.debug(`❌ 导入预测被拒绝: ${reason}`);
+  }
+
+  /**
+   * 清除当前显示的预测
+   */
+  private clearPrediction(): void {
+    if (this.activePrediction) {
+      this.activePrediction.editor.setDecorations(this.decorationType, []);
+      this.activePrediction = null;
+    }
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, false);
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): { checked: number; suggested: number; accepted: number; rejected: number } {
+    return { ...this.stats };
+  }
+
+  dispose(): void {
+    this.clearPrediction();
+    this.decorationType.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
+
+/**
+ * 单例导入预测管理器
+ */
+let importPredictionManagerInstance: ImportPredictionManager | null = null;
+
+export function createImportPredictionManager(connectClient: ConnectRpcApiClient): ImportPredictionManager {
+  if (!importPredictionManagerInstance) {
+    importPredictionManagerInstance = new ImportPredictionManager(connectClient);
+  }
+  return importPredictionManagerInstance;
+}
+
+export function getImportPredictionManager(): ImportPredictionManager | null {
+  return importPredictionManagerInstance;
+}
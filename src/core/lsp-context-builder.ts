@@ -0,0 +1,370 @@
+import * as vscode from 'vscode';
+import type { LspContextItem, LspSymbolContext, ParameterHint } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * 光标附近的标识符及其出现位置
+ */
+export interface NearbyIdentifier {
+  name: string;
+  positions: vscode.Position[]; // 按与光标的距离排序
+  score: number;
+}
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+// 常见关键字，解析它们的定义没有意义
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'return', 'function', 'class',
+  'const', 'let', 'var', 'new', 'this', 'super', 'import', 'export', 'from', 'default', 'extends', 'implements',
+  'interface', 'type', 'enum', 'public', 'private', 'protected', 'static', 'readonly', 'async', 'await', 'yield',
+  'try', 'catch', 'finally', 'throw', 'true', 'false', 'null', 'undefined', 'void', 'typeof', 'instanceof', 'in',
+  'of', 'as', 'is', 'def', 'self', 'None', 'True', 'False', 'pass', 'lambda', 'fn', 'pub', 'mut', 'impl', 'struct',
+  'func', 'package', 'string', 'number', 'boolean', 'any', 'int', 'float', 'bool', 'char'
+]);
+
+/**
+ * 粗略估算文本的 token 数（约 4 个字符一个 token）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * 判断光标是否位于函数调用的参数列表内（存在未闭合的、紧跟在标识符后的左括号）
+ */
+export function isInsideCall(textBeforeCursor: string): boolean {
+  let depth = 0;
+
+  for (let i = textBeforeCursor.length - 1; i >= 0; i--) {
+    const char = textBeforeCursor[i];
+    if (char === ')' || char === ']' || char === '}') {
+      depth++;
+    } else if (char === '[' || char === '{') {
+      if (depth === 0) {
+        return false; // 位于数组或代码块内
+      }
+      depth--;
+    } else if (char === '(') {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      // 左括号前（可有空白或泛型参数）需要是标识符
+      return /[\w$>]\s*$/.test(textBeforeCursor.substring(0, i));
+    } else if (char === ';') {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * 提取光标附近的标识符，按与光标的接近程度评分
+ */
+export function extractNearbyIdentifiers(
+  lines: string[],
+  cursorLine: number,
+  cursorCharacter: number,
+  windowLines: number,
+  maxIdentifiers: number
+): NearbyIdentifier[] {
+  const identifiers = new Map<string, NearbyIdentifier>();
+  const startLine = Math.max(0, cursorLine - windowLines);
+  const endLine = Math.min(lines.length - 1, cursorLine + windowLines);
+
+  for (let line = startLine; line <= endLine; line++) {
+    for (const match of lines[line].matchAll(IDENTIFIER_PATTERN)) {
+      const name = match[0];
+      const character = match.index ?? 0;
+
+      // 跳过关键字、过短的名称以及光标处正在输入的标识符
+      if (name.length < 2 || KEYWORDS.has(name) ||
+          (line === cursorLine && character <= cursorCharacter && cursorCharacter <= character + name.length)) {
+        continue;
+      }
+
+      // 同一行中离光标越近分数越高，上方的行（通常是已有代码）略微优先
+      const lineDistance = Math.abs(line - cursorLine) * (line > cursorLine ? 1.5 : 1);
+      const score = 1 / (1 + lineDistance + Math.abs(character - cursorCharacter) / 80);
+      const position = new vscode.Position(line, character);
+
+      const existing = identifiers.get(name);
+      if (existing) {
+        existing.positions.push(position);
+        existing.score = Math.max(existing.score, score) + 0.05;
+      } else {
+        identifiers.set(name, { name, positions: [position], score });
+      }
+    }
+  }
+
+  const distance = (position: vscode.Position) => Math.abs(position.line - cursorLine);
+  return Array.from(identifiers.values())
+    .map(identifier => ({ ...identifier, positions: identifier.positions.sort((a, b) => distance(a) - distance(b)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxIdentifiers);
+}
+
+/**
+ * LSP 子图上下文构建器
+ *
+ * 解析光标附近标识符的定义、类型定义和悬停签名，只发送相关的代码片段，
+ * 在 token 预算内替代整个相邻文件
+ */
+export class LspContextBuilder {
+  private static instance: LspContextBuilder;
+  private logger: Logger;
+
+  private readonly WINDOW_LINES = 10; // 光标上下扫描的行数
+  private readonly MAX_SYMBOLS = 12;
+  private readonly MAX_SNIPPET_LINES = 20; // 单个定义片段最多行数
+  private readonly LSP_TIMEOUT = 500; // 单个 LSP 查询超时
+  private readonly TOTAL_TIMEOUT = 1500; // 整体收集超时
+  private readonly CALL_SCAN_CHARS = 2000; // 判断是否位于调用内时向前扫描的字符数
+  private readonly MAX_SUGGESTED_ITEMS = 50;
+
+  public static getInstance(): LspContextBuilder {
+    if (!LspContextBuilder.instance) {
+      LspContextBuilder.instance = new LspContextBuilder();
+    }
+    return LspContextBuilder.instance;
+  }
+
+  constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 为光标位置构建 LSP 子图上下文
+   */
+  async buildContexts(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    tokenBudget: number,
+    token?: vscode.CancellationToken
+  ): Promise<LspSymbolContext[]> {
+    if (tokenBudget <= 0) {
+      return [];
+    }
+
+    const startTime = Date.now();
+    const lines = document.getText().split(/\r?\n/);
+    const identifiers = extractNearbyIdentifiers(lines, position.line, position.character, this.WINDOW_LINES, this.MAX_SYMBOLS);
+    const contexts: LspSymbolContext[] = [];
+    const seenSnippets = new Set<string>();
+    let remainingTokens = tokenBudget;
+
+    try {
+      for (const identifier of identifiers) {
+        if (remainingTokens <= 0 || token?.isCancellationRequested || Date.now() - startTime > this.TOTAL_TIMEOUT) {
+          break;
+        }
+
+        const items = await this.resolveSymbol(document, identifier.positions[0]);
+        const acceptedItems: LspContextItem[] = [];
+
+        for (const item of items) {
+          const key = `${item.uri}:${item.range?.startLine ?? item.content}`;
+          const cost = estimateTokens(item.content);
+          if (seenSnippets.has(key) || cost > remainingTokens) {
+            continue;
+          }
+          seenSnippets.add(key);
+          acceptedItems.push(item);
+          remainingTokens -= cost;
+        }
+
+        if (acceptedItems.length > 0) {
+          contexts.push({
+            uri: vscode.workspace.asRelativePath(document.uri),
+            symbolName: identifier.name,
+            positions: identifier.positions.map(p => ({ line: p.line, character: p.character })),
+            items: acceptedItems,
+            score: identifier.score
+          });
+        }
+      }
+
+      this.logger.debug(`🧬 LSP 子图上下文: ${contexts.length} 个符号, 使用 ${tokenBudget - remainingTokens}/${tokenBudget} tokens, 耗时 ${Date.now() - startTime}ms`);
+      return contexts;
+    } catch (error) {
+      this.logger.debug('LSP 子图上下文收集失败', error as Error);
+      return contexts;
+    }
+  }
+
+  /**
+   * 收集函数调用内的参数提示和语言服务器补全候选
+   * 光标不在调用内时返回空结果
+   */
+  async collectCallContext(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ parameterHints: ParameterHint[]; suggestedItems: string[] }> {
+    const empty = { parameterHints: [], suggestedItems: [] };
+    const offset = document.offsetAt(position);
+    const textBeforeCursor = document.getText(new vscode.Range(
+      document.positionAt(Math.max(0, offset - this.CALL_SCAN_CHARS)),
+      position
+    ));
+
+    if (!isInsideCall(textBeforeCursor)) {
+      return empty;
+    }
+
+    try {
+      const [signatureHelp, completionList] = await Promise.all([
+        this.executeWithTimeout<vscode.SignatureHelp>('vscode.executeSignatureHelpProvider', document.uri, position),
+        this.executeWithTimeout<vscode.CompletionList>('vscode.executeCompletionItemProvider', document.uri, position, undefined, 0)
+      ]);
+
+      if (!signatureHelp || signatureHelp.signatures.length === 0) {
+        return empty;
+      }
+
+      // 当前激活的签名排在最前
+      const signatures = [...signatureHelp.signatures];
+      const [activeSignature] = signatures.splice(Math.min(signatureHelp.activeSignature, signatures.length - 1), 1);
+      const parameterHints = [activeSignature, ...signatures].map(signature => ({
+        label: signature.label,
+        documentation: this.documentationToString(signature.documentation)
+      }));
+
+      const ignoredKinds = new Set([vscode.CompletionItemKind.Keyword, vscode.CompletionItemKind.Snippet, vscode.CompletionItemKind.Text]);
+      const suggestedItems = (completionList?.items || [])
+        .filter(item => item.kind === undefined || !ignoredKinds.has(item.kind))
+        .slice(0, this.MAX_SUGGESTED_ITEMS)
+        .map(item => typeof item.label === 'string' ? item.label : item.label.label);
+
+      this.logger.debug(`🧷 调用上下文: ${parameterHints.length} 个签名, ${suggestedItems.length} 个补全候选`);
+      return { parameterHints, suggestedItems };
+    } catch (error) {
+      this.logger.debug('收集调用上下文失败', error as Error);
+      return empty;
+    }
+  }
+
+  private documentationToString(documentation: string | vscode.MarkdownString | undefined): string | undefined {
+    if (!documentation) {
+      return undefined;
+    }
+    return typeof documentation === 'string' ? documentation : documentation.value;
+  }
+
+  /**
+   * 解析单个符号的定义、类型定义和悬停签名
+   */
+  private async resolveSymbol(document: vscode.TextDocument, position: vscode.Position): Promise<LspContextItem[]> {
+    const [definitions, typeDefinitions, hovers] = await Promise.all([
+      this.executeWithTimeout<(vscode.Location | vscode.LocationLink)[]>('vscode.executeDefinitionProvider', document.uri, position),
+      this.executeWithTimeout<(vscode.Location | vscode.LocationLink)[]>('vscode.executeTypeDefinitionProvider', document.uri, position),
+      this.executeWithTimeout<vscode.Hover[]>('vscode.executeHoverProvider', document.uri, position)
+    ]);
+
+    const items: LspContextItem[] = [];
+
+    const hoverText = this.extractHoverSignature(hovers || []);
+    if (hoverText) {
+      items.push({ uri: vscode.workspace.asRelativePath(document.uri), type: 'hover', content: hoverText });
+    }
+
+    for (const [type, locations] of [['definition', definitions], ['type_definition', typeDefinitions]] as const) {
+      for (const location of (locations || []).slice(0, 2)) {
+        const item = await this.readSnippet(document, position, location, type);
+        if (item) {
+          items.push(item);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * 读取定义所在位置的代码片段
+   */
+  private async readSnippet(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    location: vscode.Location | vscode.LocationLink,
+    type: 'definition' | 'type_definition'
+  ): Promise<LspContextItem | null> {
+    const uri = 'targetUri' in location ? location.targetUri : location.uri;
+    const range = 'targetUri' in location ? location.targetRange : location.range;
+
+    // 定义就在光标附近的当前文件中，模型已经能看到
+    if (uri.toString() === document.uri.toString() && Math.abs(range.start.line - position.line) <= this.WINDOW_LINES) {
+      return null;
+    }
+
+    try {
+      const targetDocument = await vscode.workspace.openTextDocument(uri);
+      const startLine = range.start.line;
+      // Location 通常只覆盖名称，此时向下取若干行作为定义体
+      const endLine = Math.min(
+        targetDocument.lineCount - 1,
+        range.isSingleLine ? startLine + this.MAX_SNIPPET_LINES - 1 : Math.min(range.end.line, startLine + this.MAX_SNIPPET_LINES - 1)
+      );
+      const snippetRange = new vscode.Range(startLine, 0, endLine, targetDocument.lineAt(endLine).text.length);
+
+      return {
+        uri: vscode.workspace.asRelativePath(uri),
+        type,
+        content: targetDocument.getText(snippetRange),
+        range: {
+          startLine: snippetRange.start.line,
+          startCharacter: snippetRange.start.character,
+          endLine: snippetRange.end.line,
+          endCharacter: snippetRange.end.character
+        }
+      };
+    } catch (error) {
+      this.logger.debug(`读取定义片段失败: ${uri.toString()}`, error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * 从悬停信息中提取签名（代码块内容）
+   */
+  private extractHoverSignature(hovers: vscode.Hover[]): string {
+    const signatures: string[] = [];
+
+    for (const hover of hovers) {
+      for (const content of hover.contents) {
+        if (content instanceof vscode.MarkdownString) {
+          for (const match of content.value.matchAll(/```\w*\n([\s\S]*?)```/g)) {
+            signatures.push(match[1].trim());
+          }
+        } else if (typeof content === 'object' && 'language' in content) {
+          signatures.push(content.value.trim());
+        }
+      }
+    }
+
+    return signatures.filter(Boolean).join('\n');
+  }
+
+  /**
+   * 执行 LSP 命令，超时返回 undefined
+   */
+  private async executeWithTimeout<T>(command: string, ...args: unknown[]): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), this.LSP_TIMEOUT);
+    });
+
+    try {
+      return await Promise.race([
+        Promise.resolve(vscode.commands.executeCommand<T>(command, ...args)),
+        timeout
+      ]);
+    } catch {
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import type { CompletionResponse, NotebookLayout } from '../types';
+
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+/**
+ * 用于拼接的单元格
+ */
+export interface NotebookCellSource {
+  kind: 'code' | 'markup';
+  text: string;
+}
+
+// 使用 # 注释的语言，其余语言使用 //
+const HASH_COMMENT_LANGUAGES = ['python', 'r', 'julia', 'shellscript', 'ruby', 'perl', 'powershell', 'coconut'];
+
+function commentPrefix(languageId: string): string {
+  return HASH_COMMENT_LANGUAGES.includes(languageId) ? '#' : '//';
+}
+
+/**
+ * 将笔记本单元格拼接为一个缓冲区（jupytext percent 格式）
+ *
+ * 每个单元格前插入 `# %%` 边界行，Markdown 单元格的每一行加注释前缀，
+ * 单元格内的行与缓冲区中的行一一对应
+ */
+export function buildNotebookBuffer(
+  cells: NotebookCellSource[],
+  activeCellIndex: number,
+  languageId: string
+): { content: string; layout: NotebookLayout } {
+  const comment = commentPrefix(languageId);
+  const boundaryMarker = `${comment} %%`;
+  const lines: string[] = [];
+  const cellStartLines: number[] = [];
+  const cellLineCounts: number[] = [];
+
+  for (const cell of cells) {
+    const cellLines = cell.text.split(/\r?\n/);
+    if (cell.kind === 'markup') {
+      lines.push(`${boundaryMarker} [markdown]`);
+      cellStartLines.push(lines.length);
+      lines.push(...cellLines.map(line => line ? `${comment} ${line}` : comment));
+    } else {
+      lines.push(boundaryMarker);
+      cellStartLines.push(lines.length);
+      lines.push(...cellLines);
+    }
+    cellLineCounts.push(cellLines.length);
+  }
+
+  return {
+    content: lines.join('\n'),
+    layout: { languageId, boundaryMarker, cellStartLines, cellLineCounts, activeCellIndex }
+  };
+}
+
+/**
+ * 缓冲区行号转换为当前单元格内的行号，不在当前单元格内时返回 null
+ */
+export function toCellLine(layout: NotebookLayout, bufferLine: number): number | null {
+  const line = bufferLine - layout.cellStartLines[layout.activeCellIndex];
+  return line >= 0 && line < layout.cellLineCounts[layout.activeCellIndex] ? line : null;
+}
+
+/**
+ * 当前单元格内的行号转换为缓冲区行号
+ */
+export function toBufferLine(layout: NotebookLayout, cellLine: number): number {
+  return layout.cellStartLines[layout.activeCellIndex] + cellLine;
+}
+
+/**
+ * 截断跨越单元格边界的补全文本
+ */
+export function truncateAtCellBoundary(layout: NotebookLayout, text: string): string {
+  const lines = text.split('\n');
+  const boundary = lines.findIndex((line, index) => index > 0 && line.trimStart().startsWith(layout.boundaryMarker));
+  return boundary === -1 ? text : lines.slice(0, boundary).join('\n').replace(/\n$/, '');
+}
+
+/**
+ * 将缓冲区坐标的补全结果映射回当前单元格；替换范围超出当前单元格时返回 false
+ */
+export function mapCompletionToCell(layout: NotebookLayout, completion: CompletionResponse): boolean {
+  if (completion.range) {
+    const startLine = toCellLine(layout, completion.range.startLine);
+    const endLine = toCellLine(layout, completion.range.endLine);
+    if (startLine === null || endLine === null) {
+      return false;
+    }
+    completion.range = { startLine, endLine };
+  }
+
+  completion.text = truncateAtCellBoundary(layout, completion.text);
+
+  if (completion.cursorPosition) {
+    const line = toCellLine(layout, completion.cursorPosition.line);
+    completion.cursorPosition = line === null ? undefined : { ...completion.cursorPosition, line };
+  }
+  if (completion.cursorPredictionTarget && !completion.cursorPredictionTarget.relativePath) {
+    const line = toCellLine(layout, completion.cursorPredictionTarget.line);
+    completion.cursorPredictionTarget = line === null ? undefined : { ...completion.cursorPredictionTarget, line };
+  }
+  return true;
+}
+
+/**
+ * 查找单元格文档所属的笔记本
+ */
+export function findNotebookCell(document: vscode.TextDocument): { notebook: vscode.NotebookDocument; cellIndex: number } | undefined {
+  if (document.uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+    return undefined;
+  }
+  for (const notebook of vscode.workspace.notebookDocuments) {
+    const cell = notebook.getCells().find(candidate => candidate.document === document);
+    if (cell) {
+      return { notebook, cellIndex: cell.index };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 文档对应的磁盘文件：笔记本单元格返回笔记本的 URI
+ */
+export function getOwningUri(document: vscode.TextDocument): vscode.Uri {
+  return findNotebookCell(document)?.notebook.uri ?? document.uri;
+}
+
+/**
+ * 拼接单元格文档所属的整个笔记本，不是笔记本代码单元格时返回 undefined
+ */
+export function buildNotebookBufferFor(document: vscode.TextDocument): { notebook: vscode.NotebookDocument; content: string; layout: NotebookLayout } | undefined {
+  const found = findNotebookCell(document);
+  if (!found) {
+    return undefined;
+  }
+
+  // Markdown 单元格的行加了注释前缀，列无法对齐，按普通文档处理
+  const cells = found.notebook.getCells();
+  if (cells[found.cellIndex].kind !== vscode.NotebookCellKind.Code) {
+    return undefined;
+  }
+  const codeCell = cells.find(cell => cell.kind === vscode.NotebookCellKind.Code);
+  const languageId = codeCell?.document.languageId ?? document.languageId;
+  const buffer = buildNotebookBuffer(
+    cells.map(cell => ({
+      kind: cell.kind === vscode.NotebookCellKind.Markup ? 'markup' : 'code',
+      text: cell.document.getText()
+    })),
+    found.cellIndex,
+    languageId
+  );
+  return { notebook: found.notebook, ...buffer };
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../utils/config';
+import { Logger } from '../utils/logger';
+import { completionTracker } from '../utils/completion-tracker';
+
+interface RejectedEdit {
+  normalizedText: string;
+  rejectCount: number;
+  lastRejectedAt: number;
+}
+
+/**
+ * 文本相似度（字符二元组 Dice 系数，0-1）
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let intersection = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      intersection++;
+    }
+  }
+
+  return (2 * intersection) / (a.length + b.length - 2);
+}
+
+/**
+ * 归一化建议文本：忽略空白差异
+ */
+export function normalizeSuggestionText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 最近被拒绝编辑的记忆
+ *
+ * 按文件记录被拒绝的建议，近似相同的建议被拒绝次数达到服务器下发的阈值后不再显示：
+ * - 达到软阈值：在短时间窗口内抑制
+ * - 达到硬阈值：在记忆有效期内始终抑制
+ * 自上次接受以来连续清除的建议过多时，暂停自动触发一段时间
+ */
+export class RejectedEditMemory implements vscode.Disposable {
+  private static instance: RejectedEditMemory;
+  private logger: Logger;
+  private rejectedEdits = new Map<string, RejectedEdit[]>();
+  private consecutiveClears = 0;
+  private backoffUntil = 0;
+  private stats = { recorded: 0, suppressed: 0, backoffs: 0 };
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly SIMILARITY_THRESHOLD = 0.9; // 相似度超过该值视为同一建议
+  private readonly SOFT_REJECT_WINDOW = 2 * 60 * 1000; // 软阈值的抑制窗口
+  private readonly MEMORY_TTL = 10 * 60 * 1000; // 记忆有效期
+  private readonly MAX_EDITS_PER_FILE = 20;
+  private readonly BACKOFF_BASE_MS = 5000;
+  private readonly BACKOFF_MAX_MS = 30000;
+
+  public static getInstance(): RejectedEditMemory {
+    if (!RejectedEditMemory.instance) {
+      RejectedEditMemory.instance = new RejectedEditMemory();
+    }
+    return RejectedEditMemory.instance;
+  }
+
+  constructor() {
+    this.logger = Logger.getInstance();
+
+    // 由补全跟踪器的忽略/接受事件驱动
+    this.disposables.push(
+      completionTracker.onDidDismissCompletion(completion => this.recordRejection(completion.uri, completion.text)),
+      completionTracker.onDidAcceptCompletion(() => this.recordAccept())
+    );
+  }
+
+  /**
+   * 记录一次拒绝
+   */
+  recordRejection(uri: string, text: string): void {
+    const normalizedText = normalizeSuggestionText(text);
+    if (normalizedText.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const edits = this.getLiveEdits(uri, now);
+    const existing = edits.find(edit => textSimilarity(edit.normalizedText, normalizedText) >= this.SIMILARITY_THRESHOLD);
+
+    if (existing) {
+      existing.rejectCount++;
+      existing.lastRejectedAt = now;
+      existing.normalizedText = normalizedText;
+    } else {
+      edits.push({ normalizedText, rejectCount: 1, lastRejectedAt: now });
+    }
+    this.rejectedEdits.set(uri, edits.slice(-this.MAX_EDITS_PER_FILE));
+    this.stats.recorded++;
+
+    this.consecutiveClears++;
+    const maxClears = ConfigManager.getConfig().maxClearedSuggestionsSinceLastAccept;
+    if (maxClears > 0 && this.consecutiveClears >= maxClears) {
+      // 超出次数越多，退避时间越长
+      const backoff = Math.min(this.BACKOFF_BASE_MS * (this.consecutiveClears - maxClears + 1), this.BACKOFF_MAX_MS);
+      this.backoffUntil = now + backoff;
+      this.stats.backoffs++;
+      this.logger.info(`⏸️ 连续清除 ${this.consecutiveClears} 个建议，暂停自动触发 ${backoff}ms`);
+    }
+  }
+
+  /**
+   * 记录一次接受：重置连续清除计数
+   */
+  recordAccept(): void {
+    this.consecutiveClears = 0;
+    this.backoffUntil = 0;
+  }
+
+  /**
+   * 建议是否与最近被拒绝的建议近似相同且达到阈值
+   */
+  shouldSuppress(uri: string, text: string): boolean {
+    const normalizedText = normalizeSuggestionText(text);
+    const now = Date.now();
+    const { hardRejectThreshold, softRejectThreshold } = ConfigManager.getConfig().recentlyRejectedEditThresholds;
+
+    const match = this.getLiveEdits(uri, now)
+      .find(edit => textSimilarity(edit.normalizedText, normalizedText) >= this.SIMILARITY_THRESHOLD);
+    if (!match) {
+      return false;
+    }
+
+    const suppressed = (hardRejectThreshold > 0 && match.rejectCount >= hardRejectThreshold) ||
+      (softRejectThreshold > 0 && match.rejectCount >= softRejectThreshold && now - match.lastRejectedAt < this.SOFT_REJECT_WINDOW);
+
+    if (suppressed) {
+      this.stats.suppressed++;
+      this.logger.info(`🔁 抑制最近被拒绝 ${match.rejectCount} 次的相似建议`);
+    }
+    return suppressed;
+  }
+
+  /**
+   * 获取该文件最近被拒绝的建议文本
+   */
+  getRecentlyRejectedTexts(uri: string): string[] {
+    return this.getLiveEdits(uri, Date.now()).map(edit => edit.normalizedText);
+  }
+
+  /**
+   * 自动触发剩余的退避时间（毫秒）
+   */
+  getBackoffRemaining(): number {
+    return Math.max(0, this.backoffUntil - Date.now());
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): { recorded: number; suppressed: number; backoffs: number; consecutiveClears: number } {
+    return { ...this.stats, consecutiveClears: this.consecutiveClears };
+  }
+
+  private getLiveEdits(uri: string, now: number): RejectedEdit[] {
+    const edits = (this.rejectedEdits.get(uri) || []).filter(edit => now - edit.lastRejectedAt < this.MEMORY_TTL);
+    this.rejectedEdits.set(uri, edits);
+    return edits;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.rejectedEdits.clear();
+  }
+}
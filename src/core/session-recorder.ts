@@ -0,0 +1,284 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JsonValue } from '@bufbuild/protobuf';
+import { StreamCppRequest, StreamCppResponse } from '../generated/cpp_pb';
+import type { CompletionRequest } from '../types';
+import { Logger } from '../utils/logger';
+import { ConfigManager } from '../utils/config';
+import { CryptoUtils } from '../utils/crypto';
+import { redactSecrets } from '../utils/secret-redactor';
+
+/**
+ * 录制的一条流式响应
+ */
+export interface RecordedResponse {
+  offsetMs: number; // 相对请求发出的时间
+  message: JsonValue; // StreamCppResponse JSON
+}
+
+/**
+ * 录制的一次补全会话（JSONL 文件中的一行）
+ */
+export interface RecordedCompletionSession {
+  version: 1;
+  id: string;
+  recordedAt: string;
+  filePath: string;
+  languageId: string;
+  cursor: { line: number; column: number };
+  content: string; // 触发时的文件内容（文件同步模式下请求中不包含内容，单独保存）
+  request: JsonValue; // StreamCppRequest JSON
+  responses: RecordedResponse[];
+  durationMs: number;
+  error?: string;
+  redactions: number;
+}
+
+/**
+ * 校验从 JSONL 文件中读取的会话
+ */
+export function isRecordedSession(value: unknown): value is RecordedCompletionSession {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const session = value as Record<string, unknown>;
+  const cursor = session.cursor as Record<string, unknown> | undefined;
+  return session.version === 1 &&
+    typeof session.id === 'string' &&
+    typeof session.filePath === 'string' &&
+    typeof session.content === 'string' &&
+    typeof cursor?.line === 'number' && typeof cursor?.column === 'number' &&
+    Array.isArray(session.responses) &&
+    session.responses.every(response => response && typeof response === 'object' && typeof (response as RecordedResponse).offsetMs === 'number');
+}
+
+/**
+ * 递归脱敏 JSON 中的所有字符串
+ */
+function redactJson(value: JsonValue, knownSecrets: string[], counter: { redactions: number }): JsonValue {
+  if (typeof value === 'string') {
+    const result = redactSecrets(value, knownSecrets);
+    counter.redactions += result.redactions;
+    return result.text;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactJson(item, knownSecrets, counter));
+  }
+  if (value && typeof value === 'object') {
+    const redacted: { [key: string]: JsonValue } = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = redactJson(item, knownSecrets, counter);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+/**
+ * 进行中的录制，流结束（或被放弃）时写入文件
+ */
+export class SessionRecording {
+  private readonly startedAt = Date.now();
+  private responses: StreamCppResponse[] = [];
+  private offsets: number[] = [];
+  private finished = false;
+
+  constructor(
+    private recorder: CompletionSessionRecorder,
+    private request: CompletionRequest,
+    private streamRequest: StreamCppRequest
+  ) {}
+
+  addResponse(response: StreamCppResponse): void {
+    if (!this.finished) {
+      this.responses.push(response);
+      this.offsets.push(Date.now() - this.startedAt);
+    }
+  }
+
+  finish(error?: unknown): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    const knownSecrets = this.recorder.getKnownSecrets();
+    const counter = { redactions: 0 };
+    const content = redactSecrets(this.request.currentFile.content || '', knownSecrets);
+    counter.redactions += content.redactions;
+
+    const session: RecordedCompletionSession = {
+      version: 1,
+      id: CryptoUtils.generateUUID(),
+      recordedAt: new Date(this.startedAt).toISOString(),
+      filePath: this.request.currentFile.path,
+      languageId: this.streamRequest.currentFile?.languageId || 'plaintext',
+      cursor: { ...this.request.cursorPosition },
+      content: content.text,
+      request: redactJson(this.streamRequest.toJson(), knownSecrets, counter),
+      responses: this.responses.map((response, index) => ({
+        offsetMs: this.offsets[index],
+        message: redactJson(response.toJson(), knownSecrets, counter)
+      })),
+      durationMs: Date.now() - this.startedAt,
+      error: error === undefined ? undefined : redactSecrets(error instanceof Error ? error.message : String(error), knownSecrets).text,
+      redactions: counter.redactions
+    };
+
+    this.recorder.append(session);
+  }
+}
+
+/**
+ * 补全会话录制器
+ *
+ * 开启 cometixTab.recordCompletionSessions 后，把每次 StreamCpp 请求及其流式响应
+ * （脱敏后）追加到扩展存储目录下的 JSONL 文件，供回放命令离线重现渲染问题
+ */
+export class CompletionSessionRecorder {
+  private logger: Logger;
+  private storageDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private readonly FILE_NAME = 'completion-sessions.jsonl';
+  private readonly MAX_FILE_BYTES = 20 * 1024 * 1024; // 超过后轮转为 .1 文件
+
+  constructor(storageUri: vscode.Uri) {
+    this.logger = Logger.getInstance();
+    this.storageDir = storageUri.fsPath;
+  }
+
+  /**
+   * 开始录制一次 StreamCpp 调用，未开启录制时返回 null
+   */
+  startRecording(request: CompletionRequest, streamRequest: StreamCppRequest): SessionRecording | null {
+    if (!ConfigManager.getConfig().recordCompletionSessions) {
+      return null;
+    }
+    return new SessionRecording(this, request, streamRequest);
+  }
+
+  /**
+   * 需要额外替换的已知敏感值
+   */
+  getKnownSecrets(): string[] {
+    const config = ConfigManager.getConfig();
+    return [config.authToken, config.clientKey];
+  }
+
+  getRecordingPath(): string {
+    return path.join(this.storageDir, this.FILE_NAME);
+  }
+
+  /**
+   * 追加一条会话（写入按顺序排队）
+   */
+  append(session: RecordedCompletionSession): void {
+    const line = JSON.stringify(session) + '\n';
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        await this.rotateIfNeeded();
+        await fs.promises.appendFile(this.getRecordingPath(), line, 'utf8');
+        this.logger.debug(`🎬 已录制补全会话: ${session.filePath} (${session.responses.length} 条响应${session.redactions > 0 ? `, 脱敏 ${session.redactions} 处` : ''})`);
+      } catch (error) {
+        this.logger.warn('⚠️ 写入补全会话录制失败', error as Error);
+      }
+    });
+  }
+
+  private async rotateIfNeeded(): Promise<void> {
+    const filePath = this.getRecordingPath();
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (stat.size > this.MAX_FILE_BYTES) {
+        await fs.promises.rename(filePath, `${filePath}.1`);
+      }
+    } catch {
+      // 文件尚不存在
+    }
+  }
+
+  /**
+   * 读取录制的会话（最新的在前），跳过损坏的行
+   */
+  async loadSessions(): Promise<RecordedCompletionSession[]> {
+    await this.writeQueue;
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.getRecordingPath(), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const sessions: RecordedCompletionSession[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const parsed: unknown = JSON.parse(line);
+        if (isRecordedSession(parsed)) {
+          sessions.push(parsed);
+        }
+      } catch {
+        // 写入中断导致的不完整行
+      }
+    }
+    return sessions.reverse();
+  }
+
+  /**
+   * 删除所有录制
+   */
+  async clear(): Promise<void> {
+    await this.writeQueue;
+    const filePath = this.getRecordingPath();
+    await Promise.all([filePath, `${filePath}.1`].map(file => fs.promises.rm(file, { force: true })));
+    this.logger.info('🗑️ 已删除所有补全会话录制');
+  }
+}
+
+/**
+ * 把录制的响应重新变成 StreamCppResponse 流
+ *
+ * 去掉 bindingId，回放的建议不会上报补全结果；preserveTiming 时按录制的时间间隔发送
+ */
+export async function* replayRecordedResponses(
+  session: RecordedCompletionSession,
+  preserveTiming: boolean = false
+): AsyncIterable<StreamCppResponse> {
+  let lastOffset = 0;
+  for (const recorded of session.responses) {
+    if (preserveTiming && recorded.offsetMs > lastOffset) {
+      await new Promise(resolve => setTimeout(resolve, recorded.offsetMs - lastOffset));
+    }
+    lastOffset = recorded.offsetMs;
+
+    const response = StreamCppResponse.fromJson(recorded.message, { ignoreUnknownFields: true });
+    response.bindingId = undefined;
+    yield response;
+  }
+
+  if (session.error) {
+    throw new Error(session.error);
+  }
+}
+
+/**
+ * 单例补全会话录制器
+ */
+let sessionRecorderInstance: CompletionSessionRecorder | null = null;
+
+export function createSessionRecorder(storageUri: vscode.Uri): CompletionSessionRecorder {
+  if (!sessionRecorderInstance) {
+    sessionRecorderInstance = new CompletionSessionRecorder(storageUri);
+  }
+  return sessionRecorderInstance;
+}
+
+export function getSessionRecorder(): CompletionSessionRecorder | null {
+  return sessionRecorderInstance;
+}
@@ -0,0 +1,307 @@
+import * as vscode from 'vscode';
+import { CppConfigResponse_Heuristic } from '../generated/cpp_pb';
+import { ConfigManager } from '../utils/config';
+import { Logger } from '../utils/logger';
+import { RejectedEditMemory, normalizeSuggestionText } from './rejected-edit-memory';
+
+/**
+ * 待显示的补全建议（应用过滤器时使用的快照）
+ */
+export interface SuggestionCandidate {
+  uri: string;
+  documentText: string;
+  rangeStartOffset: number; // 被替换范围在文档中的偏移
+  rangeEndOffset: number;
+  text: string;
+  previousDocumentText?: string; // 最近一次用户连续编辑之前的文档内容
+  recentlyRejectedTexts?: string[]; // 该文件最近被拒绝的建议（已归一化空白）
+}
+
+/**
+ * 补全建议过滤器 - 对应服务器 CppConfigResponse.heuristics 中的一项
+ */
+export interface SuggestionFilter {
+  readonly heuristic: CppConfigResponse_Heuristic;
+  shouldSuppress(candidate: SuggestionCandidate): boolean;
+}
+
+/**
+ * 过滤结果
+ */
+export interface SuggestionFilterResult {
+  suppressed: boolean;
+  heuristic?: CppConfigResponse_Heuristic;
+}
+
+const LOTS_OF_ADDED_TEXT_CHARS = 2000;
+const LOTS_OF_ADDED_TEXT_LINES = 40;
+const MIN_SIGNIFICANT_LINE_LENGTH = 4; // 过短的行（如 "}"）重复不视为问题
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+function significantLines(lines: string[]): string[] {
+  return lines.map(line => line.trim()).filter(line => line.length >= MIN_SIGNIFICANT_LINE_LENGTH);
+}
+
+/**
+ * 被替换范围之后的若干行
+ */
+function linesAfterRange(candidate: SuggestionCandidate, count: number): string[] {
+  // 第一段是范围结束所在行的剩余部分，跳过
+  return splitLines(candidate.documentText.substring(candidate.rangeEndOffset)).slice(1, count + 1);
+}
+
+/**
+ * 应用建议后的文档内容
+ */
+export function applyCandidate(candidate: SuggestionCandidate): string {
+  return candidate.documentText.substring(0, candidate.rangeStartOffset) +
+    candidate.text +
+    candidate.documentText.substring(candidate.rangeEndOffset);
+}
+
+/**
+ * 建议新增了大量文本
+ */
+export const lotsOfAddedTextFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.LOTS_OF_ADDED_TEXT,
+  shouldSuppress(candidate) {
+    const replaced = candidate.documentText.substring(candidate.rangeStartOffset, candidate.rangeEndOffset);
+    const addedChars = candidate.text.length - replaced.length;
+    const addedLines = splitLines(candidate.text).length - splitLines(replaced).length;
+    return addedChars > LOTS_OF_ADDED_TEXT_CHARS || addedLines > LOTS_OF_ADDED_TEXT_LINES;
+  }
+};
+
+/**
+ * 建议的最后一行与紧随其后的已有行相同
+ */
+export const duplicatingLineAfterSuggestionFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.DUPLICATING_LINE_AFTER_SUGGESTION,
+  shouldSuppress(candidate) {
+    const suggestionLines = significantLines(splitLines(candidate.text));
+    const nextLine = significantLines(linesAfterRange(candidate, 3))[0];
+    return suggestionLines.length > 0 && nextLine !== undefined &&
+      suggestionLines[suggestionLines.length - 1] === nextLine;
+  }
+};
+
+/**
+ * 建议末尾的多行与紧随其后的已有多行相同
+ */
+export const duplicatingMultipleLinesAfterSuggestionFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.DUPLICATING_MULTIPLE_LINES_AFTER_SUGGESTION,
+  shouldSuppress(candidate) {
+    const suggestionLines = significantLines(splitLines(candidate.text));
+    const followingLines = significantLines(linesAfterRange(candidate, 20));
+
+    for (let count = Math.min(suggestionLines.length, followingLines.length); count >= 2; count--) {
+      const tail = suggestionLines.slice(suggestionLines.length - count);
+      if (tail.every((line, index) => line === followingLines[index])) {
+        return true;
+      }
+    }
+    return false;
+  }
+};
+
+/**
+ * 建议会把文档恢复到用户最近一次编辑之前的状态
+ */
+export const revertingUserChangeFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.REVERTING_USER_CHANGE,
+  shouldSuppress(candidate) {
+    return candidate.previousDocumentText !== undefined &&
+      candidate.previousDocumentText !== candidate.documentText &&
+      applyCandidate(candidate) === candidate.previousDocumentText;
+  }
+};
+
+/**
+ * 建议超出替换范围的部分在自身或后续代码中重复出现
+ */
+export const outputExtendsBeyondRangeAndIsRepeatedFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.OUTPUT_EXTENDS_BEYOND_RANGE_AND_IS_REPEATED,
+  shouldSuppress(candidate) {
+    const replacedLineCount = splitLines(candidate.documentText.substring(candidate.rangeStartOffset, candidate.rangeEndOffset)).length;
+    const suggestionLines = splitLines(candidate.text);
+    if (suggestionLines.length <= replacedLineCount) {
+      return false;
+    }
+
+    const extraLines = significantLines(suggestionLines.slice(replacedLineCount));
+    const existing = new Set([
+      ...significantLines(suggestionLines.slice(0, replacedLineCount)),
+      ...significantLines(linesAfterRange(candidate, 10))
+    ]);
+    const seen = new Set<string>();
+
+    for (const line of extraLines) {
+      if (existing.has(line) || seen.has(line)) {
+        return true;
+      }
+      seen.add(line);
+    }
+    return false;
+  }
+};
+
+/**
+ * 建议与该文件最近被拒绝的建议相同
+ */
+export const suggestingRecentlyRejectedEditFilter: SuggestionFilter = {
+  heuristic: CppConfigResponse_Heuristic.SUGGESTING_RECENTLY_REJECTED_EDIT,
+  shouldSuppress(candidate) {
+    const text = normalizeSuggestionText(candidate.text);
+    return text.length > 0 && (candidate.recentlyRejectedTexts || []).some(rejected => normalizeSuggestionText(rejected) === text);
+  }
+};
+
+/**
+ * 补全建议过滤管道
+ *
+ * 按服务器 CppConfig 下发的 heuristics 启用对应过滤器，被过滤的建议不会显示为幽灵文本，
+ * 每个启发式的检查/过滤次数记录在性能报告中
+ */
+export class SuggestionFilterPipeline implements vscode.Disposable {
+  private static instance: SuggestionFilterPipeline;
+  private logger: Logger;
+  private filters = new Map<CppConfigResponse_Heuristic, SuggestionFilter>();
+  private counters = new Map<CppConfigResponse_Heuristic, { checked: number; suppressed: number }>();
+  private documentSnapshots = new Map<string, { current: string; beforeBurst?: string; lastEditTime: number }>();
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly EDIT_BURST_GAP = 1500; // 间隔超过1.5秒的编辑视为新的一次修改
+  private readonly MAX_SNAPSHOT_LENGTH = 500000; // 超大文件不保存快照
+
+  public static getInstance(): SuggestionFilterPipeline {
+    if (!SuggestionFilterPipeline.instance) {
+      SuggestionFilterPipeline.instance = new SuggestionFilterPipeline();
+    }
+    return SuggestionFilterPipeline.instance;
+  }
+
+  constructor() {
+    this.logger = Logger.getInstance();
+
+    [
+      lotsOfAddedTextFilter,
+      duplicatingLineAfterSuggestionFilter,
+      duplicatingMultipleLinesAfterSuggestionFilter,
+      revertingUserChangeFilter,
+      outputExtendsBeyondRangeAndIsRepeatedFilter,
+      suggestingRecentlyRejectedEditFilter
+    ].forEach(filter => this.registerFilter(filter));
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => this.trackUserEdit(event))
+    );
+  }
+
+  /**
+   * 注册（或替换）某个启发式对应的过滤器
+   */
+  registerFilter(filter: SuggestionFilter): void {
+    this.filters.set(filter.heuristic, filter);
+  }
+
+  /**
+   * 依次应用服务器启用的过滤器，返回第一个要求过滤的启发式
+   */
+  evaluate(candidate: SuggestionCandidate): SuggestionFilterResult {
+    const enabledHeuristics = this.getEnabledHeuristics();
+    if (enabledHeuristics.length === 0) {
+      return { suppressed: false };
+    }
+
+    const snapshot = this.documentSnapshots.get(candidate.uri);
+    const enrichedCandidate: SuggestionCandidate = {
+      ...candidate,
+      previousDocumentText: candidate.previousDocumentText ?? snapshot?.beforeBurst,
+      recentlyRejectedTexts: candidate.recentlyRejectedTexts ?? RejectedEditMemory.getInstance().getRecentlyRejectedTexts(candidate.uri)
+    };
+
+    for (const heuristic of enabledHeuristics) {
+      const filter = this.filters.get(heuristic);
+      if (!filter) {
+        continue;
+      }
+
+      const counter = this.counters.get(heuristic) || { checked: 0, suppressed: 0 };
+      counter.checked++;
+      this.counters.set(heuristic, counter);
+
+      try {
+        if (filter.shouldSuppress(enrichedCandidate)) {
+          counter.suppressed++;
+          this.logger.info(`🚫 建议被启发式过滤: ${CppConfigResponse_Heuristic[heuristic]}`);
+          return { suppressed: true, heuristic };
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️ 启发式过滤器执行失败: ${CppConfigResponse_Heuristic[heuristic]}`, error as Error);
+      }
+    }
+
+    return { suppressed: false };
+  }
+
+  /**
+   * 获取各启发式的统计信息
+   */
+  getStats(): { heuristic: string; enabled: boolean; checked: number; suppressed: number }[] {
+    const enabledHeuristics = new Set(this.getEnabledHeuristics());
+    return Array.from(this.filters.keys()).map(heuristic => ({
+      heuristic: CppConfigResponse_Heuristic[heuristic],
+      enabled: enabledHeuristics.has(heuristic),
+      checked: this.counters.get(heuristic)?.checked || 0,
+      suppressed: this.counters.get(heuristic)?.suppressed || 0
+    }));
+  }
+
+  /**
+   * 读取启用的启发式（cometixTab.enabledHeuristics，未设置时使用服务器下发的列表）
+   */
+  private getEnabledHeuristics(): CppConfigResponse_Heuristic[] {
+    return ConfigManager.getConfig().enabledHeuristics
+      .map(name => CppConfigResponse_Heuristic[name as keyof typeof CppConfigResponse_Heuristic])
+      .filter((heuristic): heuristic is CppConfigResponse_Heuristic =>
+        heuristic !== undefined && heuristic !== CppConfigResponse_Heuristic.UNSPECIFIED);
+  }
+
+  /**
+   * 跟踪用户编辑，保存最近一次连续编辑之前的文档内容
+   */
+  private trackUserEdit(event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0 || event.document.uri.scheme !== 'file') {
+      return;
+    }
+
+    const uri = event.document.uri.toString();
+    const text = event.document.getText();
+    if (text.length > this.MAX_SNAPSHOT_LENGTH) {
+      this.documentSnapshots.delete(uri);
+      return;
+    }
+
+    const now = Date.now();
+    const snapshot = this.documentSnapshots.get(uri);
+    if (!snapshot) {
+      this.documentSnapshots.set(uri, { current: text, lastEditTime: now });
+      return;
+    }
+
+    if (now - snapshot.lastEditTime > this.EDIT_BURST_GAP || snapshot.beforeBurst === undefined) {
+      snapshot.beforeBurst = snapshot.current;
+    }
+    snapshot.current = text;
+    snapshot.lastEditTime = now;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.documentSnapshots.clear();
+  }
+}
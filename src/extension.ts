@@ -7,7 +7,13 @@ import { ConnectRpcApiClient } from './core/connect-rpc-api-client';
 import { ConnectRpcAdapter } from './adapters/connect-rpc-adapter';
 import { FileManager } from './core/file-manager';
 import { CursorCompletionProvider } from './core/completion-provider';
+import { createCursorPredictionManager, CursorPredictionManager } from './core/cursor-prediction-manager';
+import { createImportPredictionManager, ImportPredictionManager } from './core/import-prediction-manager';
+import { createCppFateReporter, CppFateReporter } from './core/cpp-fate-reporter';
+import { SuggestionFilterPipeline } from './core/suggestion-filters';
+import { RejectedEditMemory } from './core/rejected-edit-memory';
 import { StatusBar } from './ui/status-bar';
+import { createInlineEditRenderer, InlineEditRenderer } from './ui/inline-edit-renderer';
 import { StatusIntegration } from './core/status-integration';
 import { ConfigValidator } from './utils/config-validator';
 import { debugAuthCommand } from './commands/debug-auth';
@@ -16,10 +22,15 @@ import { debugEditHistoryCommand, setEditHistoryTracker } from './commands/debug
 import { setLogLevelCommand } from './commands/set-log-level';
 import { debugSmartEdit } from './commands/debug-smart-edit';
 import { showPerformanceReport } from './commands/show-performance-report';
+import { flagBadSuggestionCommand } from './commands/flag-bad-suggestion';
+import { replayCompletionSessionCommand } from './commands/replay-completion-session';
+import { EnablementRules } from './core/enablement-rules';
+import { ContentGuard } from './core/content-guard';
+import { CursorRules } from './core/cursor-rules';
+import { createSessionRecorder } from './core/session-recorder';
 import { runAllTests } from './test/diff-test';
 import { createPerformanceMonitor, getPerformanceMonitor } from './utils/performance-monitor';
 import { createBatchSyncManager, getBatchSyncManager } from './utils/batch-sync-manager';
-import { FileSyncStateManager } from './core/filesync-state-manager';
 import { promptAndPatchIfNeeded } from './utils/product-json-patcher';
 
 let logger: Logger;
@@ -30,7 +41,10 @@ let fileManager: FileManager;
 let completionProvider: CursorCompletionProvider;
 let statusBar: StatusBar;
 let statusIntegration: StatusIntegration;
-let fileSyncStateManager: FileSyncStateManager;
+let cursorPredictionManager: CursorPredictionManager;
+let importPredictionManager: ImportPredictionManager;
+let inlineEditRenderer: InlineEditRenderer;
+let cppFateReporter: CppFateReporter;
 
 export async function activate(context: vscode.ExtensionContext) {
 	logger = Logger.getInstance();
@@ -89,9 +103,13 @@ export async function activate(context: vscode.ExtensionContext) {
 			baseUrl: config.serverUrl,
 			authToken: config.authToken,
 			clientKey: config.clientKey,
+			endpointType: config.endpointType,
 			timeout: 15000 // 🚀 优化：减少超时时间
 		});
 		
+		// 💾 恢复上次保存的文件同步会话和状态，重启后无需重新上传未修改的文件
+		connectRpcClient.attachFileSyncStorage(context.workspaceState);
+		
 		// 🔧 设置 EditHistoryTracker 引用用于调试
 		setEditHistoryTracker(connectRpcClient.getEditHistoryTracker());
 
@@ -101,17 +119,39 @@ export async function activate(context: vscode.ExtensionContext) {
 		// 创建适配器
 		connectRpcAdapter = new ConnectRpcAdapter(connectRpcClient);
 		
-		// 初始化文件同步状态管理器
-		fileSyncStateManager = new FileSyncStateManager();
+		// 初始化补全结果上报管道（RecordCppFate / MarkCppForEval）
+		cppFateReporter = createCppFateReporter(connectRpcClient);
+		
+		// 初始化补全过滤管道（服务器下发的启发式），尽早开始跟踪用户编辑
+		const suggestionFilterPipeline = SuggestionFilterPipeline.getInstance();
+		const rejectedEditMemory = RejectedEditMemory.getInstance();
 		
 		// 初始化性能监控器
 		const performanceMonitor = createPerformanceMonitor();
 		
-		// 初始化批处理同步管理器
-		const batchSyncManager = createBatchSyncManager(apiClient, fileSyncStateManager);
+		// 初始化批处理同步管理器（与 StreamCpp 共用同一个文件同步状态）
+		createBatchSyncManager(connectRpcClient);
+		
+		// 初始化补全会话录制器（cometixTab.recordCompletionSessions 开启时录制）
+		createSessionRecorder(context.globalStorageUri);
+		
+		// 加载 .cometixignore，在发送任何文件内容之前生效
+		const contentGuardDisposable = await ContentGuard.getInstance().initialize();
+		
+		// 加载项目规则（.cursorrules / .cursor/rules）并监听变化
+		const cursorRulesDisposable = await CursorRules.getInstance().initialize();
 		
 		fileManager = new FileManager(apiClient, config.debounceMs);
 		
+		// 初始化光标预测管理器（跳转到下一个编辑位置）
+		cursorPredictionManager = createCursorPredictionManager(connectRpcClient, fileManager);
+		
+		// 初始化导入预测管理器（接受补全后补充缺失的导入）
+		importPredictionManager = createImportPredictionManager(connectRpcClient);
+		
+		// 初始化多行编辑渲染器（幽灵文本无法表达时的回退方案）
+		inlineEditRenderer = createInlineEditRenderer();
+		
 		// 使用 Connect RPC 适配器
 		completionProvider = new CursorCompletionProvider(connectRpcAdapter as any, fileManager);
 		
@@ -151,6 +191,30 @@ export async function activate(context: vscode.ExtensionContext) {
 			vscode.window.showInformationMessage(message);
 		});
 		
+		// 按语言/文件切换启用规则
+		const toggleLanguageEnabledCommand = vscode.commands.registerCommand('cometix-tab.toggleLanguageEnabled', async () => {
+			const document = vscode.window.activeTextEditor?.document;
+			if (!document) {
+				vscode.window.showWarningMessage('没有活动的编辑器');
+				return;
+			}
+			const enabled = await EnablementRules.getInstance().toggleLanguage(document.languageId);
+			statusBar?.updateStatus();
+			vscode.window.showInformationMessage(enabled ? `✅ 已启用 ${document.languageId} 的补全` : `🚫 已禁用 ${document.languageId} 的补全`);
+		});
+
+		const toggleFileEnabledCommand = vscode.commands.registerCommand('cometix-tab.toggleFileEnabled', async () => {
+			const document = vscode.window.activeTextEditor?.document;
+			if (!document) {
+				vscode.window.showWarningMessage('没有活动的编辑器');
+				return;
+			}
+			const enabled = await EnablementRules.getInstance().toggleFile(document);
+			statusBar?.updateStatus();
+			const fileName = vscode.workspace.asRelativePath(document.uri);
+			vscode.window.showInformationMessage(enabled ? `✅ 已启用当前文件的补全: ${fileName}` : `🚫 已禁用当前文件的补全: ${fileName}`);
+		});
+		
 		const showLogsCommand = vscode.commands.registerCommand('cometix-tab.showLogs', () => {
 			logger.show();
 		});
@@ -183,7 +247,7 @@ export async function activate(context: vscode.ExtensionContext) {
 		const debugAuthCommand_ = vscode.commands.registerCommand('cometix-tab.debugAuth', debugAuthCommand);
 
 		// 调试补全命令  
-		const debugCompletionCommand_ = vscode.commands.registerCommand('cometix-tab.debugCompletion', debugCompletionCommand);
+		const debugCompletionCommand_ = vscode.commands.registerCommand('cometix-tab.debugCompletion', () => debugCompletionCommand(completionProvider));
 
 		// 调试编辑历史命令
 		const debugEditHistoryCommand_ = vscode.commands.registerCommand('cometix-tab.debugEditHistory', debugEditHistoryCommand);
@@ -345,6 +409,50 @@ export async function activate(context: vscode.ExtensionContext) {
 			}
 		});
 		
+		// 光标预测：跳转到预测位置 / 拒绝预测
+		const acceptCursorPredictionCommand = vscode.commands.registerCommand('cometix-tab.acceptCursorPrediction', async () => {
+			await cursorPredictionManager.acceptPrediction();
+		});
+
+		const rejectCursorPredictionCommand = vscode.commands.registerCommand('cometix-tab.rejectCursorPrediction', () => {
+			cursorPredictionManager.rejectPrediction('escape');
+		});
+		
+		// 导入预测：应用导入 / 拒绝
+		const acceptImportPredictionCommand = vscode.commands.registerCommand('cometix-tab.acceptImportPrediction', async () => {
+			await importPredictionManager.acceptPrediction();
+		});
+
+		const rejectImportPredictionCommand = vscode.commands.registerCommand('cometix-tab.rejectImportPrediction', () => {
+			importPredictionManager.rejectPrediction('escape');
+		});
+		
+		// 多行编辑建议：接受 / 拒绝
+		const acceptInlineEditCommand = vscode.commands.registerCommand('cometix-tab.acceptInlineEdit', async () => {
+			await inlineEditRenderer.acceptEdit();
+		});
+
+		const rejectInlineEditCommand = vscode.commands.registerCommand('cometix-tab.rejectInlineEdit', () => {
+			inlineEditRenderer.rejectEdit('escape');
+		});
+		
+		// 部分接受：下一个单词 / 下一行
+		const acceptNextWordCommand = vscode.commands.registerCommand('cometix-tab.acceptNextWord', async () => {
+			await completionProvider.acceptNextPartial('word');
+		});
+
+		const acceptNextLineCommand = vscode.commands.registerCommand('cometix-tab.acceptNextLine', async () => {
+			await completionProvider.acceptNextPartial('line');
+		});
+		
+		// 反馈问题补全（MarkCppForEval）
+		const flagBadSuggestionCommand_ = vscode.commands.registerCommand('cometix-tab.flagBadSuggestion', flagBadSuggestionCommand);
+		
+		// 回放录制的补全会话（离线重现渲染问题）
+		const replayCompletionSessionCommand_ = vscode.commands.registerCommand('cometix-tab.replayCompletionSession', () =>
+			replayCompletionSessionCommand(completionProvider)
+		);
+		
 		// 监听配置变化
 		const configChangeDisposable = ConfigManager.onConfigChange(() => {
 			const newConfig = ConfigManager.getConfig();
@@ -358,9 +466,13 @@ export async function activate(context: vscode.ExtensionContext) {
 		context.subscriptions.push(
 			completionProviderDisposable,
 			...fileWatcherDisposables,
+			contentGuardDisposable,
+			cursorRulesDisposable,
 			statusBar,
 			statusIntegration,
 			toggleCommand,
+			toggleLanguageEnabledCommand,
+			toggleFileEnabledCommand,
 			showLogsCommand,
 			showModelPickerCommand,
 			showSnoozePickerCommand,
@@ -379,6 +491,22 @@ export async function activate(context: vscode.ExtensionContext) {
 			refreshConfigCommand,
 			testConnectionCommand,
 			manualTriggerCompletionCommand,
+			acceptCursorPredictionCommand,
+			rejectCursorPredictionCommand,
+			cursorPredictionManager,
+			acceptImportPredictionCommand,
+			rejectImportPredictionCommand,
+			importPredictionManager,
+			acceptInlineEditCommand,
+			rejectInlineEditCommand,
+			inlineEditRenderer,
+			acceptNextWordCommand,
+			acceptNextLineCommand,
+			flagBadSuggestionCommand_,
+			replayCompletionSessionCommand_,
+			cppFateReporter,
+			suggestionFilterPipeline,
+			rejectedEditMemory,
 			configChangeDisposable
 		);
 		
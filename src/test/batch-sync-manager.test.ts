@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Code } from '@connectrpc/connect';
+import { ConnectRpcApiClient } from '../core/connect-rpc-api-client';
+import { StreamCppRequest, StreamCppResponse } from '../generated/cpp_pb';
+import { FSSyncFileRequest } from '../generated/fs_pb';
+import { BatchSyncManager, createBatchSyncManager } from '../utils/batch-sync-manager';
+import { CryptoUtils } from '../utils/crypto';
+import { WorkspaceManager } from '../utils/workspace-manager';
+import { MockCursorServer, errorStep, textSteps } from './mock-cursor-server';
+
+async function drain(stream: AsyncIterable<StreamCppResponse>): Promise<void> {
+  for await (const _response of stream) {
+    // 只关心请求内容和同步状态
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+suite('Batch Sync Manager Test Suite', () => {
+  const server = new MockCursorServer();
+  const workspaceId = WorkspaceManager.getInstance().getWorkspaceId();
+  let client: ConnectRpcApiClient;
+  let manager: BatchSyncManager;
+
+  suiteSetup(async () => {
+    const baseUrl = await server.start();
+    client = new ConnectRpcApiClient({ baseUrl, authToken: 'test-token', clientKey: '', timeout: 5000 });
+    manager = createBatchSyncManager(client);
+  });
+
+  suiteTeardown(async () => {
+    await server.stop();
+  });
+
+  setup(() => {
+    server.reset();
+  });
+
+  /**
+   * 打开并上传一个文档，返回文档和上传时的模型版本
+   */
+  async function openSyncedDocument(content: string): Promise<{ document: vscode.TextDocument; path: string; version: number }> {
+    const document = await vscode.workspace.openTextDocument({ content, language: 'typescript' });
+    const path = vscode.workspace.asRelativePath(document.uri);
+    await client.uploadFile({ path, content, sha256: CryptoUtils.calculateSHA256(content) }, workspaceId);
+    return { document, path, version: syncedVersion(path) };
+  }
+
+  async function editAndQueue(document: vscode.TextDocument, text: string): Promise<void> {
+    const editor = await vscode.window.showTextDocument(document);
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    await editor.edit(builder => builder.insert(end, text));
+    manager.addChangesToBatch(document, [{ range: new vscode.Range(end, end), rangeOffset: 0, rangeLength: 0, text }], 'low');
+  }
+
+  function syncedVersion(path: string): number {
+    return client.getFileSyncStateManager().getFileSyncState(path)?.modelVersion ?? -1;
+  }
+
+  function completionFor(path: string) {
+    const content = 'const current = 1;\n';
+    return client.streamCpp({
+      currentFile: { path, content, sha256: CryptoUtils.calculateSHA256(content) },
+      cursorPosition: { line: 0, column: 0 }
+    });
+  }
+
+  test('Commits piggybacked updates once, without double-counting model versions', async () => {
+    const { document, path, version } = await openSyncedDocument('let a = 1;\n');
+    await editAndQueue(document, 'let b = 2;\n');
+
+    server.enqueueStreamCpp(textSteps('x'));
+    await drain(completionFor('src/commit-current.ts'));
+
+    const [request] = server.requestsFor<StreamCppRequest>('StreamCpp');
+    const update = request.filesyncUpdates.find(u => u.relativeWorkspacePath === path);
+    assert.strictEqual(update?.modelVersion, version + 1);
+    assert.strictEqual(syncedVersion(path), version + 1);
+    assert.strictEqual(client.getFileSyncStateManager().getLastSyncedContent(path), document.getText());
+
+    // 已确认的更新不会随下一次请求再次发送，也不会再次递增版本
+    await drain(completionFor('src/commit-current.ts'));
+    assert.strictEqual(server.requestsFor<StreamCppRequest>('StreamCpp')[1].filesyncUpdates.length, 0);
+    assert.strictEqual(syncedVersion(path), version + 1);
+    assert.strictEqual(server.requestsFor('FSSyncFile').length, 0);
+  });
+
+  test('Rolls back piggybacked updates when StreamCpp fails and syncs them later', async () => {
+    const { document, path, version } = await openSyncedDocument('let c = 3;\n');
+    await editAndQueue(document, 'let d = 4;\n');
+
+    server.enqueueStreamCpp([errorStep(Code.Unavailable, 'server down')]);
+    await assert.rejects(drain(completionFor('src/rollback-current.ts')));
+
+    const [request] = server.requestsFor<StreamCppRequest>('StreamCpp');
+    assert.strictEqual(request.filesyncUpdates.find(u => u.relativeWorkspacePath === path)?.modelVersion, version + 1);
+    assert.strictEqual(syncedVersion(path), version);
+
+    // 回滚后重新进入批处理队列，从上次确认的内容通过 FSSyncFile 发送同一个版本
+    await waitFor(() => server.requestsFor('FSSyncFile').length === 1);
+    const [sync] = server.requestsFor<FSSyncFileRequest>('FSSyncFile');
+    assert.strictEqual(sync.relativeWorkspacePath, path);
+    assert.strictEqual(sync.modelVersion, version + 1);
+    await waitFor(() => syncedVersion(path) === version + 1);
+  });
+
+  test('Keeps updates for the same file in version order while one is unconfirmed', async () => {
+    const { document, path, version } = await openSyncedDocument('let e = 5;\n');
+    await editAndQueue(document, 'let f = 6;\n');
+
+    const first = manager.takeUpdatesForRequest(workspaceId);
+    assert.deepStrictEqual(first.updates.map(u => u.modelVersion), [version + 1]);
+
+    // 第一个更新未确认时，同一文件的新编辑留在队列中
+    await editAndQueue(document, 'let g = 7;\n');
+    const blocked = manager.takeUpdatesForRequest(workspaceId);
+    assert.strictEqual(blocked.updates.length, 0);
+    blocked.commit();
+
+    first.commit();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const second = manager.takeUpdatesForRequest(workspaceId);
+    assert.deepStrictEqual(second.updates.map(u => u.modelVersion), [version + 2]);
+    second.commit();
+    assert.strictEqual(syncedVersion(path), version + 2);
+    assert.strictEqual(client.getFileSyncStateManager().getLastSyncedContent(path), document.getText());
+  });
+});
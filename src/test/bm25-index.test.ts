@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { Bm25Index, chunkFile, tokenizeCode } from '../core/bm25-index';
+
+suite('BM25 Index Test Suite', () => {
+  test('Tokenizes identifiers into lowercase sub-words', () => {
+    assert.deepStrictEqual(
+      tokenizeCode('const userRepository = new HTTPClient(max_retries);'),
+      ['userrepository', 'user', 'repository', 'httpclient', 'http', 'client', 'max_retries', 'max', 'retries']
+    );
+  });
+
+  test('Splits files into overlapping line windows', () => {
+    const content = Array.from({ length: 50 }, (_, index) => `line${index}`).join('\n');
+    const chunks = chunkFile('a.ts', content);
+
+    assert.deepStrictEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine]), [[0, 29], [15, 44], [30, 49]]);
+    assert.deepStrictEqual(chunkFile('empty.ts', '\n\n  \n'), []);
+  });
+
+  test('Ranks chunks by relevance and excludes the current file', () => {
+    const index = new Bm25Index();
+    index.setFile('src/billing/invoice.ts', 'export function computeInvoiceTotal(lines) {\n  return lines.reduce((sum, line) => sum + line.amount * line.quantity, 0);\n}');
+    index.setFile('src/auth/session.ts', 'export function createSession(user) {\n  return { user, expiresAt: Date.now() };\n}');
+    index.setFile('src/app.ts', 'const total = computeInvoiceTotal(invoice.lines);');
+
+    const results = index.search('const invoiceTotal = computeInvoiceTotal(order.lines)', 5, 'src/app.ts');
+    assert.strictEqual(results[0].relativePath, 'src/billing/invoice.ts');
+    assert.ok(results.every(result => result.relativePath !== 'src/app.ts'));
+    assert.ok(!results.some(result => result.relativePath === 'src/auth/session.ts'));
+  });
+
+  test('Updates and removes files incrementally', () => {
+    const index = new Bm25Index();
+    index.setFile('a.py', 'def load_dataframe(path):\n    pass');
+    index.setFile('a.py', 'def save_report(report):\n    pass');
+
+    assert.deepStrictEqual(index.search('load_dataframe', 5), []);
+    assert.strictEqual(index.search('save_report', 5)[0].relativePath, 'a.py');
+
+    index.removeFile('a.py');
+    assert.strictEqual(index.fileCount, 0);
+    assert.deepStrictEqual(index.search('save_report', 5), []);
+  });
+
+  test('Removes every file under a deleted folder', () => {
+    const index = new Bm25Index();
+    index.setFile('src/reports/daily.ts', 'export function buildDailyReport() {}');
+    index.setFile('src/reports/weekly.ts', 'export function buildWeeklyReport() {}');
+    index.setFile('src/reports-legacy.ts', 'export function buildLegacyReport() {}');
+
+    index.removeByPrefix('src/reports/');
+    assert.strictEqual(index.fileCount, 1);
+    assert.strictEqual(index.search('report', 5)[0].relativePath, 'src/reports-legacy.ts');
+  });
+});
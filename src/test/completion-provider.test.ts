@@ -0,0 +1,15 @@
+import * as assert from 'assert';
+import { measurePartialAccept } from '../core/completion-provider';
+
+suite('Completion Provider Test Suite', () => {
+  test('Measures partial accepts from the cursor at show time', () => {
+    // 替换范围从行首开始，光标前已输入的 "const v" 不算作接受
+    const insertText = 'const value = compute();';
+    assert.deepStrictEqual(measurePartialAccept(insertText, 7, 5), { acceptedTotal: 5, totalLength: 17 });
+    assert.deepStrictEqual(measurePartialAccept(insertText, 7, 17), { acceptedTotal: 17, totalLength: 17 });
+
+    // 纯插入：没有已输入的原文，光标回退时不会得到负数
+    assert.deepStrictEqual(measurePartialAccept('foo()', 0, -2), { acceptedTotal: 0, totalLength: 5 });
+    assert.deepStrictEqual(measurePartialAccept('foo()', 0, 9), { acceptedTotal: 5, totalLength: 5 });
+  });
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { isIgnoredByRules, parseIgnoreFile } from '../core/content-guard';
+
+suite('Content Guard Test Suite', () => {
+  test('Parses .cometixignore like gitignore', () => {
+    const rules = parseIgnoreFile('# secrets\nsecrets/\n*.pem\n\n!public.pem\n');
+
+    assert.deepStrictEqual(rules.map(rule => [rule.enable, rule.value]), [
+      [false, 'secrets/'],
+      [false, '*.pem'],
+      [true, 'public.pem']
+    ]);
+  });
+
+  test('Excludes files and everything under excluded directories', () => {
+    const rules = parseIgnoreFile('secrets\n*.pem\n!public.pem\n!secrets/readme.md\n/config/prod.json');
+
+    assert.ok(isIgnoredByRules(rules, 'certs/server.pem'));
+    assert.ok(!isIgnoredByRules(rules, 'certs/public.pem'));
+    assert.ok(isIgnoredByRules(rules, 'secrets/db/readme.md'));
+    assert.ok(isIgnoredByRules(rules, 'secrets/readme.md'));
+    assert.ok(isIgnoredByRules(rules, 'config/prod.json'));
+    assert.ok(!isIgnoredByRules(rules, 'src/config/prod.json'));
+    assert.ok(!isIgnoredByRules([], '.env'));
+  });
+});
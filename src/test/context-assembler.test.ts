@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import type { CompletionRequest } from '../types';
+import { assembleContext, assembleRequestContext } from '../core/context-assembler';
+
+function fileOf(path: string, chars: number) {
+  return { path, content: 'x'.repeat(chars), sha256: '' };
+}
+
+suite('Context Assembler Test Suite', () => {
+  test('Keeps required items and fills the budget by score', () => {
+    const { included, report } = assembleContext([
+      { id: 'current', kind: 'currentFile', label: 'a.ts', tokens: 80, score: 1, required: true },
+      { id: 'big', kind: 'file', label: 'big.ts', tokens: 50, score: 0.9 },
+      { id: 'small', kind: 'chunk', label: 'b.ts:1-30', tokens: 15, score: 0.5 },
+      { id: 'low', kind: 'file', label: 'c.ts', tokens: 10, score: 0.1 }
+    ], 100);
+
+    assert.deepStrictEqual(Array.from(included), ['current', 'small']);
+    assert.strictEqual(report.usedTokens, 95);
+    assert.deepStrictEqual(report.entries.map(entry => entry.included), [true, false, true, false]);
+  });
+
+  test('Trims request context and recent edits to the budget', () => {
+    const request: CompletionRequest = {
+      currentFile: fileOf('src/app.ts', 400),
+      cursorPosition: { line: 0, column: 0 },
+      additionalFiles: [fileOf('src/app.ts', 400), fileOf('src/util.ts', 2000)],
+      topChunks: [{ relativePath: 'src/math.ts', startLine: 0, endLine: 29, content: 'y'.repeat(200), score: 3 }],
+      cursorRules: [{ name: 'style', path: '.cursor/rules/style.mdc', content: 'z'.repeat(100) }]
+    };
+
+    const trimmed = assembleRequestContext(request, 'e'.repeat(100), 300);
+    assert.strictEqual(trimmed.diffHistory.length, 100);
+    assert.strictEqual(trimmed.request.cursorRules?.length, 1);
+    assert.strictEqual(trimmed.request.topChunks?.length, 1);
+    assert.deepStrictEqual(trimmed.request.additionalFiles?.map(file => file.path), ['src/app.ts']);
+
+    // 文件同步模式下当前文件不占用预算；预算为 0 时不限制
+    assert.strictEqual(assembleRequestContext(request, '', 0, true).request.additionalFiles?.length, 2);
+  });
+
+  test('Sends only contiguous current file windows around the cursor', () => {
+    const request: CompletionRequest = {
+      currentFile: { path: 'src/big.ts', content: Array.from({ length: 200 }, () => 'x'.repeat(39)).join('\n'), sha256: '' },
+      cursorPosition: { line: 100, column: 0 }
+    };
+
+    // 光标窗口 75-124 必须发送；上方相邻窗口放不下时，更远的 1-25 行即使放得下也不能跳跃发送
+    const narrow = assembleRequestContext(request, '', 800);
+    assert.deepStrictEqual(narrow.currentFileWindow, { startLine: 75, endLine: 124 });
+    assert.strictEqual(narrow.report.usedTokens, 500);
+    assert.deepStrictEqual(narrow.report.entries.filter(entry => entry.included).map(entry => entry.label), ['src/big.ts:76-125']);
+
+    assert.deepStrictEqual(assembleRequestContext(request, '', 1300).currentFileWindow, { startLine: 0, endLine: 124 });
+    assert.strictEqual(assembleRequestContext(request, '', 0).currentFileWindow, undefined);
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import type { ConnectRpcApiClient } from '../core/connect-rpc-api-client';
+import { CursorPredictionManager } from '../core/cursor-prediction-manager';
+import type { FileManager } from '../core/file-manager';
+
+const CONTENT = Array.from({ length: 10 }, (_, index) => `const value${index} = ${index};`).join('\n');
+
+/**
+ * 只实现光标预测用到的两个 RPC；lineNumber 从 1 开始
+ */
+function fakeClient(lineNumber?: number): ConnectRpcApiClient {
+  return {
+    isCursorPredictionEnabled: async () => lineNumber !== undefined,
+    async *streamNextCursorPrediction() {
+      yield { response: { case: 'lineNumber', value: lineNumber } };
+    }
+  } as unknown as ConnectRpcApiClient;
+}
+
+const fileManager = {
+  getCurrentFileInfo: async (document: vscode.TextDocument) => ({ path: 'prediction.ts', content: document.getText(), sha256: '' })
+} as unknown as FileManager;
+
+async function openEditor(): Promise<vscode.TextEditor> {
+  const document = await vscode.workspace.openTextDocument({ content: CONTENT, language: 'typescript' });
+  const editor = await vscode.window.showTextDocument(document);
+  editor.selection = new vscode.Selection(0, 0, 0, 0);
+  return editor;
+}
+
+function lastEvent(manager: CursorPredictionManager) {
+  const { recentEvents } = manager.getStats();
+  return recentEvents[recentEvents.length - 1];
+}
+
+suite('Cursor Prediction Manager Test Suite', () => {
+  let manager: CursorPredictionManager | null = null;
+
+  teardown(() => {
+    manager?.dispose();
+    manager = null;
+  });
+
+  test('Jumps to the StreamCpp target on Tab', async () => {
+    manager = new CursorPredictionManager(fakeClient(), fileManager);
+    const editor = await openEditor();
+
+    await manager.onCompletionAccepted(editor.document, { line: 5 });
+    assert.ok(manager.hasActivePrediction());
+    assert.strictEqual(lastEvent(manager).type, 'suggested');
+
+    await manager.acceptPrediction();
+    assert.ok(!manager.hasActivePrediction());
+    assert.deepStrictEqual(
+      [editor.selection.active.line, editor.selection.active.character],
+      [5, editor.document.lineAt(5).text.length]
+    );
+    assert.strictEqual(manager.getStats().accepted, 1);
+  });
+
+  test('Requests the next cursor position and records rejections', async () => {
+    manager = new CursorPredictionManager(fakeClient(4), fileManager);
+    const editor = await openEditor();
+
+    await manager.onCompletionAccepted(editor.document);
+    assert.ok(manager.hasActivePrediction());
+    assert.strictEqual(lastEvent(manager).source, 'next_cursor_prediction');
+    assert.strictEqual(lastEvent(manager).line, 3);
+
+    manager.rejectPrediction();
+    assert.ok(!manager.hasActivePrediction());
+    assert.deepStrictEqual([lastEvent(manager).type, lastEvent(manager).reason], ['rejected', 'dismissed']);
+
+    // 目标就是当前行时不显示
+    await manager.onCompletionAccepted(editor.document, { line: 0 });
+    assert.ok(!manager.hasActivePrediction());
+  });
+
+  test('Clears the prediction when the document is edited or the editor changes', async () => {
+    manager = new CursorPredictionManager(fakeClient(), fileManager);
+    const editor = await openEditor();
+
+    await manager.onCompletionAccepted(editor.document, { line: 7 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await editor.edit(builder => builder.insert(new vscode.Position(0, 0), '// edited\n'));
+    assert.ok(!manager.hasActivePrediction());
+    assert.strictEqual(lastEvent(manager).reason, 'document_edited');
+
+    await manager.onCompletionAccepted(editor.document, { line: 7 });
+    assert.ok(manager.hasActivePrediction());
+    await openEditor();
+    assert.ok(!manager.hasActivePrediction());
+    assert.strictEqual(lastEvent(manager).reason, 'editor_changed');
+    assert.strictEqual(manager.getStats().rejected, 2);
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { isRuleApplicable, parseRuleFile } from '../core/cursor-rules';
+
+suite('Cursor Rules Test Suite', () => {
+  test('Parses frontmatter in inline and list form', () => {
+    const inline = parseRuleFile([
+      '---',
+      'description: "React components"',
+      'globs: src/**/*.tsx, *.jsx',
+      'alwaysApply: false',
+      '---',
+      'Use function components.'
+    ].join('\n'), '.cursor/rules/react.mdc', '');
+
+    assert.strictEqual(inline.name, 'react');
+    assert.strictEqual(inline.description, 'React components');
+    assert.deepStrictEqual(inline.globs, ['src/**/*.tsx', '*.jsx']);
+    assert.strictEqual(inline.alwaysApply, false);
+    assert.strictEqual(inline.body, 'Use function components.');
+
+    const list = parseRuleFile('---\nglobs:\n  - "*.py"\n  - scripts/**\nalwaysApply: true\n---\nUse type hints.\n', '.cursor/rules/python.mdc', '');
+    assert.deepStrictEqual(list.globs, ['*.py', 'scripts/**']);
+    assert.strictEqual(list.alwaysApply, true);
+
+    const plain = parseRuleFile('No frontmatter here.', '.cursor/rules/plain.mdc', '');
+    assert.strictEqual(plain.body, 'No frontmatter here.');
+    assert.deepStrictEqual(plain.globs, []);
+  });
+
+  test('Applies rules by globs, alwaysApply and nested scope', () => {
+    const scoped = parseRuleFile('---\nglobs: *.ts\n---\nServer rules.', 'server/.cursor/rules/api.mdc', 'server');
+    assert.ok(isRuleApplicable(scoped, 'server/src/index.ts'));
+    assert.ok(!isRuleApplicable(scoped, 'client/src/index.ts'));
+    assert.ok(!isRuleApplicable(scoped, 'server/README.md'));
+
+    const always = parseRuleFile('---\nalwaysApply: true\n---\nGlobal.', '.cursor/rules/global.mdc', '');
+    assert.ok(isRuleApplicable(always, 'any/file.md'));
+
+    const agentRequested = parseRuleFile('---\ndescription: Only when asked\n---\nManual.', '.cursor/rules/manual.mdc', '');
+    assert.ok(!isRuleApplicable(agentRequested, 'src/index.ts'));
+  });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Diagnostic_DiagnosticSeverity } from '../generated/cpp_pb';
+import { filterNearbyDiagnostics, mapDiagnosticSeverity, toLinterErrors } from '../utils/diagnostics-collector';
+
+function diagnosticAt(line: number, severity: vscode.DiagnosticSeverity, message = `line ${line}`): vscode.Diagnostic {
+  return new vscode.Diagnostic(new vscode.Range(line, 0, line, 5), message, severity);
+}
+
+suite('Diagnostics Collector Test Suite', () => {
+  test('Severity is mapped to protobuf values', () => {
+    assert.strictEqual(mapDiagnosticSeverity(vscode.DiagnosticSeverity.Error), Diagnostic_DiagnosticSeverity.ERROR);
+    assert.strictEqual(mapDiagnosticSeverity(vscode.DiagnosticSeverity.Warning), Diagnostic_DiagnosticSeverity.WARNING);
+    assert.strictEqual(mapDiagnosticSeverity(vscode.DiagnosticSeverity.Information), Diagnostic_DiagnosticSeverity.INFORMATION);
+    assert.strictEqual(mapDiagnosticSeverity(vscode.DiagnosticSeverity.Hint), Diagnostic_DiagnosticSeverity.HINT);
+  });
+
+  test('Only diagnostics within the radius are kept, errors first', () => {
+    const diagnostics = [
+      diagnosticAt(12, vscode.DiagnosticSeverity.Warning, 'near warning'),
+      diagnosticAt(50, vscode.DiagnosticSeverity.Error, 'far error'),
+      diagnosticAt(8, vscode.DiagnosticSeverity.Error, 'near error')
+    ];
+
+    const nearby = filterNearbyDiagnostics(diagnostics, 10, 5);
+    assert.deepStrictEqual(nearby.map(d => d.message), ['near error', 'near warning']);
+    assert.strictEqual(filterNearbyDiagnostics(diagnostics, 10, 0).length, 0, 'Radius 0 disables collection');
+  });
+
+  test('Linter errors keep path, source and range', () => {
+    const diagnostic = diagnosticAt(3, vscode.DiagnosticSeverity.Error, 'Cannot find name');
+    diagnostic.source = 'ts';
+
+    const linterErrors = toLinterErrors('src/a.ts', [diagnostic]);
+    assert.strictEqual(linterErrors.relativeWorkspacePath, 'src/a.ts');
+    assert.strictEqual(linterErrors.errors.length, 1);
+    assert.strictEqual(linterErrors.errors[0].source, 'ts');
+    assert.strictEqual(linterErrors.errors[0].range?.startPosition?.line, 3);
+  });
+});
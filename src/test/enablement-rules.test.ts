@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { evaluateEnablementRules, fileRuleFor, globToRegExp, parseEnablementRule, type EnablementRule } from '../core/enablement-rules';
+import { DEFAULT_ENABLEMENT_RULES } from '../utils/config';
+
+function parseRules(rules: string[]): EnablementRule[] {
+  return rules.map(parseEnablementRule).filter((rule): rule is EnablementRule => rule !== null);
+}
+
+suite('Enablement Rules Test Suite', () => {
+  test('Converts globs to regular expressions', () => {
+    assert.ok(globToRegExp('*.env').test('config/prod.env'));
+    assert.ok(globToRegExp('**/node_modules/**').test('node_modules/lodash/index.js'));
+    assert.ok(globToRegExp('src/**/*.{ts,tsx}').test('src/ui/app.tsx'));
+    assert.ok(!globToRegExp('src/*.ts').test('src/ui/app.ts'));
+    assert.ok(globToRegExp('/build/').test('build/out.js'));
+    assert.ok(!globToRegExp('/build/').test('src/build/out.js'));
+  });
+
+  test('Default rules exclude secrets, dependencies and generated code', () => {
+    const rules = parseRules(DEFAULT_ENABLEMENT_RULES);
+
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: '.env' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'api/.env.local' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'packages/a/node_modules/x/index.js' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'src/schema.generated.ts' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'src/extension.ts', languageId: 'typescript' }), undefined);
+  });
+
+  test('Last matching rule wins across languages and globs', () => {
+    const rules = parseRules(['!language:markdown', 'docs/**', '!docs/drafts/**']);
+
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'README.md', languageId: 'markdown' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'docs/guide.md', languageId: 'markdown' }), true);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'docs/drafts/idea.md', languageId: 'markdown' }), false);
+  });
+
+  test('File rules only match the exact file', () => {
+    const rules = parseRules([`!${fileRuleFor('src/[id]/page*.tsx')}`]);
+
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'src/[id]/page*.tsx' }), false);
+    assert.strictEqual(evaluateEnablementRules(rules, { relativePath: 'src/i/page1.tsx' }), undefined);
+    assert.strictEqual(parseEnablementRule('  # comment'), null);
+  });
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { isValidPersistedState } from '../core/filesync-state-manager';
+
+suite('File Sync State Persistence Test Suite', () => {
+  const validState = {
+    path: 'src/index.ts',
+    workspaceId: 'a-b-c-d-e-f-g',
+    uuid: '00000000-0000-4000-8000-000000000000',
+    modelVersion: 3,
+    sha256Hash: 'abc123',
+    uploadTime: Date.now(),
+    successful: true
+  };
+
+  test('Well-formed persisted states are accepted', () => {
+    assert.ok(isValidPersistedState(validState));
+  });
+
+  test('Malformed or failed states are rejected', () => {
+    assert.ok(!isValidPersistedState(null));
+    assert.ok(!isValidPersistedState('src/index.ts'));
+    assert.ok(!isValidPersistedState({ ...validState, path: '' }));
+    assert.ok(!isValidPersistedState({ ...validState, modelVersion: -1 }));
+    assert.ok(!isValidPersistedState({ ...validState, modelVersion: '3' }));
+    assert.ok(!isValidPersistedState({ ...validState, successful: false }));
+  });
+});
@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { isUnresolvedSymbolDiagnostic } from '../core/import-prediction-manager';
+
+suite('Import Prediction Test Suite', () => {
+  test('Unresolved symbol diagnostics are detected', () => {
+    assert.ok(isUnresolvedSymbolDiagnostic({ message: "Cannot find name 'readFile'.", code: 2304 }));
+    assert.ok(isUnresolvedSymbolDiagnostic({ message: 'Something else', code: { value: 2552 } }));
+    assert.ok(isUnresolvedSymbolDiagnostic({ message: '"np" is not defined' }));
+    assert.ok(isUnresolvedSymbolDiagnostic({ message: 'undefined: strings' }));
+  });
+
+  test('Other diagnostics are ignored', () => {
+    assert.ok(!isUnresolvedSymbolDiagnostic({ message: "Type 'string' is not assignable to type 'number'.", code: 2322 }));
+    assert.ok(!isUnresolvedSymbolDiagnostic({ message: "'value' is declared but its value is never read.", code: 6133 }));
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { canRenderAsGhostText, computeLineDiff } from '../ui/inline-edit-renderer';
+
+suite('Inline Edit Renderer Test Suite', () => {
+  test('Pure insertion at cursor can be rendered as ghost text', () => {
+    const original = 'const a = ;\nconst b = 2;';
+    const cursorOffset = original.indexOf(';');
+    const newText = 'const a = 1;\nconst b = 2;';
+
+    assert.strictEqual(canRenderAsGhostText(original, cursorOffset, newText), true);
+  });
+
+  test('Replacement of other lines cannot be rendered as ghost text', () => {
+    const original = 'const a = 1;\nconst b = 2;';
+    const newText = 'const a = 1;\nconst b = 3;';
+
+    assert.strictEqual(canRenderAsGhostText(original, 5, newText), false);
+    assert.strictEqual(canRenderAsGhostText(original, -1, original + '\n'), false, 'Cursor outside range');
+  });
+
+  test('Line diff trims unchanged prefix and suffix', () => {
+    const diff = computeLineDiff(
+      ['a', 'b', 'c', 'd'],
+      ['a', 'x', 'y', 'd']
+    );
+
+    assert.strictEqual(diff.unchangedPrefix, 1);
+    assert.deepStrictEqual(diff.removed, ['b', 'c']);
+    assert.deepStrictEqual(diff.inserted, ['x', 'y']);
+  });
+
+  test('Line diff handles pure insertion and identical content', () => {
+    const insertion = computeLineDiff(['a', 'b'], ['a', 'new', 'b']);
+    assert.deepStrictEqual(insertion.removed, []);
+    assert.deepStrictEqual(insertion.inserted, ['new']);
+
+    const identical = computeLineDiff(['a', 'b'], ['a', 'b']);
+    assert.deepStrictEqual(identical.removed, []);
+    assert.deepStrictEqual(identical.inserted, []);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { estimateTokens, extractNearbyIdentifiers, isInsideCall } from '../core/lsp-context-builder';
+
+suite('LSP Context Builder Test Suite', () => {
+  test('Identifiers near the cursor are ranked first and keywords skipped', () => {
+    const lines = [
+      'import { farAwayHelper } from "./helpers";',
+      '',
+      'const config = loadConfig();',
+      'return createClient(config.url);'
+    ];
+
+    const identifiers = extractNearbyIdentifiers(lines, 3, 0, 10, 10);
+    const names = identifiers.map(identifier => identifier.name);
+
+    assert.ok(names.includes('createClient'));
+    assert.ok(!names.includes('return'), 'Keywords are skipped');
+    assert.ok(!names.includes('const'), 'Keywords are skipped');
+    assert.ok(names.indexOf('createClient') < names.indexOf('farAwayHelper'), 'Closer identifiers rank higher');
+  });
+
+  test('Identifier being typed at the cursor is skipped', () => {
+    const identifiers = extractNearbyIdentifiers(['const value = someFunc'], 0, 22, 5, 10);
+    assert.ok(!identifiers.some(identifier => identifier.name === 'someFunc'));
+    assert.ok(identifiers.some(identifier => identifier.name === 'value'));
+  });
+
+  test('Token estimate is about four characters per token', () => {
+    assert.strictEqual(estimateTokens(''), 0);
+    assert.strictEqual(estimateTokens('abcdefgh'), 2);
+  });
+
+  test('Call detection finds unclosed argument lists only', () => {
+    assert.strictEqual(isInsideCall('foo(a, '), true);
+    assert.strictEqual(isInsideCall('client.request<Options>(\n  url, '), true);
+    assert.strictEqual(isInsideCall('foo(bar(1), '), true, 'Nested closed calls are skipped');
+    assert.strictEqual(isInsideCall('foo(a);\nconst b = '), false);
+    assert.strictEqual(isInsideCall('const value = (a + '), false, 'Grouping parentheses are not calls');
+    assert.strictEqual(isInsideCall('foo({ key: '), false, 'Object literal inside a call');
+  });
+});
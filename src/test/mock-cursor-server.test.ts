@@ -0,0 +1,243 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Code, ConnectError } from '@connectrpc/connect';
+import { CursorApiClient } from '../core/api-client';
+import { CursorCompletionProvider } from '../core/completion-provider';
+import { ConnectRpcApiClient } from '../core/connect-rpc-api-client';
+import { CppFateReporter, createCppFateReporter } from '../core/cpp-fate-reporter';
+import { FileManager } from '../core/file-manager';
+import { ConfigManager } from '../utils/config';
+import { CryptoUtils } from '../utils/crypto';
+import { WorkspaceManager } from '../utils/workspace-manager';
+import { CppFate, RecordCppFateRequest, StreamCppRequest, StreamCppResponse } from '../generated/cpp_pb';
+import { FSSyncErrorType, FSSyncFileRequest, FSUploadErrorType, FSUploadFileRequest } from '../generated/fs_pb';
+import type { CompletionRequest, FileInfo } from '../types';
+import { MockCursorServer, cursorPredictionStep, errorStep, rangeReplaceSteps, textSteps } from './mock-cursor-server';
+
+function fileInfo(path: string, content: string): FileInfo {
+  return { path, content, sha256: CryptoUtils.calculateSHA256(content), modelVersion: 0 };
+}
+
+function completionRequest(file: FileInfo): CompletionRequest {
+  return { currentFile: file, cursorPosition: { line: 0, column: file.content.length } };
+}
+
+async function collect(stream: AsyncIterable<StreamCppResponse>): Promise<StreamCppResponse[]> {
+  const responses: StreamCppResponse[] = [];
+  for await (const response of stream) {
+    responses.push(response);
+  }
+  return responses;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+suite('Mock Cursor Server End-to-End Test Suite', () => {
+  const server = new MockCursorServer();
+  let baseUrl: string;
+  let client: ConnectRpcApiClient;
+
+  suiteSetup(async () => {
+    baseUrl = await server.start();
+    client = new ConnectRpcApiClient({ baseUrl, authToken: 'test-token', clientKey: '', timeout: 5000 });
+  });
+
+  suiteTeardown(async () => {
+    await server.stop();
+  });
+
+  setup(() => {
+    server.reset();
+  });
+
+  test('Streams scripted text after uploading the file', async () => {
+    server.enqueueStreamCpp(textSteps('console.log("hi");', 5));
+
+    const responses = await collect(client.streamCpp(completionRequest(fileInfo('src/stream.ts', 'const a = 1;\n'))));
+
+    assert.strictEqual(responses.map(r => r.text).join(''), 'console.log("hi");');
+    assert.ok(responses.some(r => r.doneStream));
+    assert.strictEqual(server.requestsFor<FSUploadFileRequest>('FSUploadFile').length, 1);
+
+    const [streamRequest] = server.requestsFor<StreamCppRequest>('StreamCpp');
+    assert.strictEqual(streamRequest.currentFile?.relyOnFilesync, true);
+    assert.strictEqual(server.requests.find(r => r.method === 'StreamCpp')?.header.get('authorization'), 'Bearer test-token');
+  });
+
+  test('Delivers range replacements and cursor prediction targets', async () => {
+    server.enqueueStreamCpp([cursorPredictionStep('src/other.ts', 12), ...rangeReplaceSteps(2, 3, 'b = 2;\n')]);
+
+    const responses = await collect(client.streamCpp(completionRequest(fileInfo('src/range.ts', 'a\nb\nc\n'))));
+
+    const range = responses.find(r => r.rangeToReplace)?.rangeToReplace;
+    assert.strictEqual(range?.startLineNumber, 2);
+    assert.strictEqual(range?.endLineNumberInclusive, 3);
+    const target = responses.find(r => r.cursorPredictionTarget)?.cursorPredictionTarget;
+    assert.strictEqual(target?.relativePath, 'src/other.ts');
+    assert.strictEqual(target?.lineNumberOneIndexed, 12);
+  });
+
+  test('Surfaces stream errors with their Connect code', async () => {
+    server.enqueueStreamCpp([{ response: { text: 'partial' } }, errorStep(Code.ResourceExhausted, 'rate limited')]);
+
+    await assert.rejects(
+      collect(client.streamCpp(completionRequest(fileInfo('src/error.ts', 'x')))),
+      (error: unknown) => ConnectError.from(error).code === Code.ResourceExhausted
+    );
+  });
+
+  test('Cancels slow streams when the caller aborts', async () => {
+    server.enqueueStreamCpp(textSteps('slow completion', 1, 1000));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const startedAt = Date.now();
+    await assert.rejects(collect(client.streamCpp(completionRequest(fileInfo('src/slow.ts', 'y')), controller.signal)));
+    assert.ok(Date.now() - startedAt < 1000, 'stream should stop before the first delayed chunk');
+  });
+
+  test('Syncs incremental edits and reports server sync errors', async () => {
+    const original = fileInfo('src/sync.ts', 'let value = 1;\n');
+    await client.uploadFile(original, 'test-workspace');
+
+    const edited = fileInfo('src/sync.ts', 'let value = 2;\n');
+    const response = await client.syncFile(edited, 'test-workspace', original.content);
+    assert.strictEqual(response.error, FSSyncErrorType.FS_SYNC_ERROR_TYPE_UNSPECIFIED);
+
+    // 同步在上传版本的基础上递增（上传版本来自编辑历史，不一定从 0 开始）
+    const [uploadRequest] = server.requestsFor<FSUploadFileRequest>('FSUploadFile');
+    const [syncRequest] = server.requestsFor<FSSyncFileRequest>('FSSyncFile');
+    assert.strictEqual(syncRequest.modelVersion, uploadRequest.modelVersion + 1);
+    assert.strictEqual(syncRequest.filesyncUpdates[0]?.expectedFileLength, edited.content.length);
+
+    server.failNextSync(FSSyncErrorType.FS_SYNC_ERROR_TYPE_HASH_MISMATCH);
+    const mismatch = await client.syncFile(fileInfo('src/sync.ts', 'let value = 3;\n'), 'test-workspace', edited.content);
+    assert.strictEqual(mismatch.error, FSSyncErrorType.FS_SYNC_ERROR_TYPE_HASH_MISMATCH);
+  });
+
+  test('Reports accepted and rejected suggestions through RecordCppFate', async () => {
+    const reporter = new CppFateReporter(client);
+    try {
+      reporter.registerSuggestion({ bindingId: 'accepted-1', uri: 'file:///a.ts', text: 'a', shownAt: Date.now() });
+      reporter.reportAccept('accepted-1');
+      reporter.registerSuggestion({ bindingId: 'rejected-1', uri: 'file:///b.ts', text: 'b', shownAt: Date.now() });
+      reporter.reportReject('rejected-1');
+
+      await waitFor(() => server.requestsFor('RecordCppFate').length === 2);
+      const fates = new Map(server.requestsFor<RecordCppFateRequest>('RecordCppFate').map(r => [r.requestId, r.fate]));
+      assert.strictEqual(fates.get('accepted-1'), CppFate.ACCEPT);
+      assert.strictEqual(fates.get('rejected-1'), CppFate.REJECT);
+    } finally {
+      reporter.dispose();
+    }
+  });
+
+  test('Serves CppConfig and AvailableModels, returning null on errors', async () => {
+    server.cppConfig = { ...server.cppConfig, aboveRadius: 7 };
+
+    assert.strictEqual((await client.getCppConfig(true))?.aboveRadius, 7);
+    assert.deepStrictEqual((await client.getAvailableModels(true))?.models, ['fast', 'advanced']);
+
+    server.failNext('CppConfig', Code.Unauthenticated, 'bad token');
+    assert.strictEqual(await client.getCppConfig(true), null);
+  });
+
+  test('Renders a provider completion and reports its fate', async () => {
+    const apiClient = new CursorApiClient({ ...ConfigManager.getConfig(), serverUrl: baseUrl, authToken: 'test-token', clientKey: 'k'.repeat(72) });
+    const provider = new CursorCompletionProvider(apiClient, new FileManager(apiClient));
+    createCppFateReporter(client);
+
+    // 智能触发检测会忽略未命名文档，使用磁盘上的临时文件
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cometix-provider-'));
+    const filePath = path.join(directory, 'provider.ts');
+    fs.writeFileSync(filePath, 'const a = 1;\nconst b');
+    let result: vscode.InlineCompletionItem[] | vscode.InlineCompletionList | undefined;
+    let document: vscode.TextDocument;
+    try {
+      document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      await vscode.window.showTextDocument(document);
+      server.enqueueStreamCpp([{ response: { bindingId: 'provider-1' } }, ...textSteps(' = a + 1;')]);
+
+      result = await provider.provideInlineCompletionItems(
+        document,
+        new vscode.Position(1, 7),
+        { triggerKind: vscode.InlineCompletionTriggerKind.Invoke, selectedCompletionInfo: undefined },
+        new vscode.CancellationTokenSource().token
+      );
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+
+    const items = result instanceof vscode.InlineCompletionList ? result.items : result ?? [];
+    assert.strictEqual(items.length, 1);
+    assert.strictEqual(items[0].insertText, ' = a + 1;');
+    const [streamRequest] = server.requestsFor<StreamCppRequest>('StreamCpp');
+    assert.strictEqual(streamRequest.currentFile?.relativeWorkspacePath, vscode.workspace.asRelativePath(document.uri));
+
+    provider.handleDidAcceptCompletionItem?.(items[0]);
+    await waitFor(() => server.requestsFor('RecordCppFate').length === 1);
+    const [fate] = server.requestsFor<RecordCppFateRequest>('RecordCppFate');
+    assert.deepStrictEqual([fate.requestId, fate.fate], ['provider-1', CppFate.ACCEPT]);
+  });
+
+  test('Re-uploads the file through StreamCpp when the server rejects the incremental sync', async () => {
+    const original = fileInfo('src/reupload.ts', 'let count = 1;\n');
+    await collect(client.streamCpp(completionRequest(original)));
+
+    server.failNextSync(FSSyncErrorType.FS_SYNC_ERROR_TYPE_HASH_MISMATCH);
+    server.enqueueStreamCpp(textSteps('count++;'));
+    const edited = fileInfo('src/reupload.ts', 'let count = 2;\n');
+    const responses = await collect(client.streamCpp(completionRequest(edited)));
+
+    assert.strictEqual(responses.map(r => r.text).join(''), 'count++;');
+    assert.strictEqual(server.requestsFor('FSSyncFile').length, 1);
+    const uploads = server.requestsFor<FSUploadFileRequest>('FSUploadFile');
+    assert.strictEqual(uploads.length, 2);
+    assert.strictEqual(uploads[1].contents, edited.content);
+    assert.strictEqual(server.requestsFor<StreamCppRequest>('StreamCpp')[1].currentFile?.relyOnFilesync, true);
+  });
+
+  test('Keeps every StreamCpp field within the budgeted current-file window', async () => {
+    const lines = Array.from({ length: 1000 }, (_, index) => `const value${index} = ${index};`);
+    const file = fileInfo('src/budget.ts', lines.join('\n'));
+    const uri = vscode.Uri.file(path.resolve(WorkspaceManager.getInstance().getCurrentWorkspacePath(), file.path));
+    const diagnostics = vscode.languages.createDiagnosticCollection('budget-test');
+    diagnostics.set(uri, [new vscode.Diagnostic(new vscode.Range(500, 0, 500, 5), 'unused value')]);
+    const settings = vscode.workspace.getConfiguration('cometixTab');
+
+    // 上传被拒绝时使用内容模式，当前文件内容随请求发送
+    server.failNextUpload(FSUploadErrorType.FS_UPLOAD_ERROR_TYPE_HASH_MISMATCH);
+    await settings.update('contextTokenBudget', 100, vscode.ConfigurationTarget.Global);
+    try {
+      await collect(client.streamCpp({ currentFile: file, cursorPosition: { line: 500, column: 0 } }));
+    } finally {
+      await settings.update('contextTokenBudget', undefined, vscode.ConfigurationTarget.Global);
+      diagnostics.dispose();
+    }
+
+    const [request] = server.requestsFor<StreamCppRequest>('StreamCpp');
+    assert.strictEqual(request.currentFile?.relyOnFilesync, false);
+    // 预算只够光标所在的窗口（50 行）
+    const sentLines = request.currentFile?.contents.split('\n') ?? [];
+    const startLine = request.currentFile?.contentsStartAtLine ?? 0;
+    assert.ok(sentLines.length <= 50, `sent ${sentLines.length} lines`);
+    assert.strictEqual(sentLines[500 - startLine], lines[500]);
+
+    // 诊断仍然发送，但不附带完整的文件内容
+    assert.strictEqual(request.linterErrors?.errors.length, 1);
+    assert.strictEqual(request.linterErrors?.fileContents, '');
+    const serialized = request.toJsonString();
+    assert.ok(!serialized.includes(lines[0]) && !serialized.includes(lines[999]));
+  });
+});
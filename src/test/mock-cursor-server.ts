@@ -0,0 +1,343 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { Message, PartialMessage } from '@bufbuild/protobuf';
+import { Code, ConnectError, createConnectRouter, type HandlerContext } from '@connectrpc/connect';
+import { createFetchHandler, type UniversalHandler } from '@connectrpc/connect/protocol';
+import { AiService, CppService } from '../generated/cpp_connect';
+import { FileSyncService } from '../generated/fs_connect';
+import {
+  StreamCppResponse,
+  CppConfigResponse,
+  AvailableCppModelsResponse
+} from '../generated/cpp_pb';
+import {
+  FSUploadErrorType,
+  FSSyncErrorType,
+  FSConfigResponse
+} from '../generated/fs_pb';
+
+/**
+ * 模拟服务器实现的方法
+ */
+export type MockMethod =
+  | 'StreamCpp'
+  | 'CppConfig'
+  | 'AvailableModels'
+  | 'RecordCppFate'
+  | 'FSUploadFile'
+  | 'FSSyncFile'
+  | 'FSIsEnabledForUser'
+  | 'FSConfig';
+
+/**
+ * StreamCpp 脚本中的一步：发送一条响应或以错误结束流，可选地在发送前等待
+ */
+export type MockStreamStep =
+  | { response: PartialMessage<StreamCppResponse>; delayMs?: number }
+  | { error: { code: Code; message: string }; delayMs?: number };
+
+/**
+ * 模拟服务器收到的请求
+ */
+export interface MockRequestRecord {
+  method: MockMethod;
+  message: Message;
+  header: Headers;
+}
+
+/**
+ * 把文本拆成多条 StreamCpp 响应，最后发送 doneEdit/doneStream
+ */
+export function textSteps(text: string, chunkSize: number = 8, delayMs: number = 0): MockStreamStep[] {
+  const steps: MockStreamStep[] = [{ response: { modelInfo: { isFusedCursorPredictionModel: false, isMultidiffModel: false } } }];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    steps.push({ response: { text: text.substring(i, i + chunkSize) }, delayMs });
+  }
+  steps.push({ response: { doneEdit: true } }, { response: { doneStream: true } });
+  return steps;
+}
+
+/**
+ * 替换 [startLine, endLine] 的多行编辑建议（行号从 1 开始）
+ */
+export function rangeReplaceSteps(startLine: number, endLine: number, text: string): MockStreamStep[] {
+  return [
+    { response: { rangeToReplace: { startLineNumber: startLine, endLineNumberInclusive: endLine } } },
+    { response: { text } },
+    { response: { doneEdit: true } },
+    { response: { doneStream: true } }
+  ];
+}
+
+/**
+ * 光标预测目标（行号从 1 开始）
+ */
+export function cursorPredictionStep(relativePath: string, lineNumber: number, expectedContent: string = ''): MockStreamStep {
+  return {
+    response: {
+      cursorPredictionTarget: {
+        relativePath,
+        lineNumberOneIndexed: lineNumber,
+        expectedContent,
+        shouldRetriggerCpp: false
+      }
+    }
+  };
+}
+
+/**
+ * 以 Connect 错误结束流
+ */
+export function errorStep(code: Code, message: string, delayMs?: number): MockStreamStep {
+  return { error: { code, message }, delayMs };
+}
+
+/**
+ * 进程内的 Cursor 模拟服务器
+ *
+ * 基于 createConnectRouter 实现 StreamCpp、CppConfig、AvailableModels、RecordCppFate
+ * 以及文件同步服务，监听本机随机端口，ConnectRpcApiClient 可以直接把它当作 baseUrl 使用。
+ * StreamCpp 按入队顺序消费脚本（文本、范围替换、光标预测、错误、慢速流），
+ * 所有请求都会被记录以便断言
+ */
+export class MockCursorServer {
+  private server: http.Server | null = null;
+  private handlers = new Map<string, UniversalHandler>();
+  private streamScripts: MockStreamStep[][] = [];
+  private pendingErrors = new Map<MockMethod, ConnectError>();
+  private nextUploadErrors: FSUploadErrorType[] = [];
+  private nextSyncErrors: FSSyncErrorType[] = [];
+  private baseUrl = '';
+
+  readonly requests: MockRequestRecord[] = [];
+
+  // 可在测试中直接修改的固定响应
+  cppConfig: PartialMessage<CppConfigResponse> = { isOn: true, isGhostText: true, aboveRadius: 50, belowRadius: 50 };
+  availableModels: PartialMessage<AvailableCppModelsResponse> = { models: ['fast', 'advanced'], defaultModel: 'fast' };
+  fsConfig: PartialMessage<FSConfigResponse> = { maxFileSizeToSyncBytes: 1024 * 1024, syncDebounceMs: 100 };
+  fileSyncEnabled = true;
+
+  constructor() {
+    const router = createConnectRouter();
+
+    router.service(AiService, {
+      streamCpp: (request, context) => {
+        this.record('StreamCpp', request, context);
+        return this.runStreamScript(context);
+      },
+      cppConfig: async (request, context) => {
+        this.record('CppConfig', request, context);
+        return this.cppConfig;
+      }
+    });
+
+    router.service(CppService, {
+      availableModels: async (request, context) => {
+        this.record('AvailableModels', request, context);
+        return this.availableModels;
+      },
+      recordCppFate: async (request, context) => {
+        this.record('RecordCppFate', request, context);
+        return {};
+      }
+    });
+
+    router.service(FileSyncService, {
+      fSUploadFile: async (request, context) => {
+        this.record('FSUploadFile', request, context);
+        return { error: this.nextUploadErrors.shift() ?? FSUploadErrorType.FS_UPLOAD_ERROR_TYPE_UNSPECIFIED };
+      },
+      fSSyncFile: async (request, context) => {
+        this.record('FSSyncFile', request, context);
+        return { error: this.nextSyncErrors.shift() ?? FSSyncErrorType.FS_SYNC_ERROR_TYPE_UNSPECIFIED };
+      },
+      fSIsEnabledForUser: async (request, context) => {
+        this.record('FSIsEnabledForUser', request, context);
+        return { enabled: this.fileSyncEnabled };
+      },
+      fSConfig: async (request, context) => {
+        this.record('FSConfig', request, context);
+        return this.fsConfig;
+      }
+    });
+
+    for (const handler of router.handlers) {
+      this.handlers.set(handler.requestPath, handler);
+    }
+  }
+
+  /**
+   * 启动服务器，返回 baseUrl
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleHttp(req, res).catch(() => {
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * 关闭服务器（包括仍在进行中的慢速流）
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * 为下一次 StreamCpp 调用准备响应脚本，未入队时返回空补全
+   */
+  enqueueStreamCpp(steps: MockStreamStep[]): void {
+    this.streamScripts.push(steps);
+  }
+
+  /**
+   * 让下一次调用该方法时返回 Connect 错误
+   */
+  failNext(method: MockMethod, code: Code, message: string): void {
+    this.pendingErrors.set(method, new ConnectError(message, code));
+  }
+
+  /**
+   * 让下一次 FSUploadFile 返回指定的错误码
+   */
+  failNextUpload(error: FSUploadErrorType): void {
+    this.nextUploadErrors.push(error);
+  }
+
+  /**
+   * 让下一次 FSSyncFile 返回指定的错误码
+   */
+  failNextSync(error: FSSyncErrorType): void {
+    this.nextSyncErrors.push(error);
+  }
+
+  /**
+   * 获取某个方法收到的请求消息
+   */
+  requestsFor<T extends Message>(method: MockMethod): T[] {
+    return this.requests.filter(record => record.method === method).map(record => record.message as T);
+  }
+
+  /**
+   * 清空记录和脚本，保留服务器运行
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.streamScripts = [];
+    this.pendingErrors.clear();
+    this.nextUploadErrors = [];
+    this.nextSyncErrors = [];
+  }
+
+  private record(method: MockMethod, message: Message, context: HandlerContext): void {
+    this.requests.push({ method, message, header: context.requestHeader });
+
+    const error = this.pendingErrors.get(method);
+    if (error) {
+      this.pendingErrors.delete(method);
+      throw error;
+    }
+  }
+
+  private async *runStreamScript(context: HandlerContext): AsyncIterable<PartialMessage<StreamCppResponse>> {
+    const steps = this.streamScripts.shift() ?? [{ response: { doneStream: true } }];
+
+    for (const step of steps) {
+      if (step.delayMs) {
+        await this.delay(step.delayMs, context.signal);
+      }
+      if ('error' in step) {
+        throw new ConnectError(step.error.message, step.error.code);
+      }
+      yield step.response;
+    }
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ConnectError('client cancelled', Code.Canceled));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 在 Node http 请求和 Connect 的 fetch 处理器之间转换
+   */
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const handler = this.handlers.get(url.pathname);
+    if (!handler) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const header = new Headers();
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      header.append(req.rawHeaders[i], req.rawHeaders[i + 1]);
+    }
+
+    // 客户端断开时取消处理器（慢速流测试依赖此行为）
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    const response = await createFetchHandler(handler)(new Request(url, {
+      method: req.method,
+      headers: header,
+      body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+      signal: abortController.signal
+    }));
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+    res.writeHead(response.status, responseHeaders);
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        res.write(value);
+      }
+    }
+    res.end();
+  }
+}
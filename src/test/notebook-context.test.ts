@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import type { CompletionResponse } from '../types';
+import { buildNotebookBuffer, mapCompletionToCell, toBufferLine, toCellLine } from '../core/notebook-context';
+
+suite('Notebook Context Test Suite', () => {
+  const cells = [
+    { kind: 'markup' as const, text: '# Load data\n\nRead the CSV.' },
+    { kind: 'code' as const, text: 'import pandas as pd\ndf = pd.read_csv("a.csv")' },
+    { kind: 'code' as const, text: 'df.head()' }
+  ];
+
+  test('Concatenates cells with boundaries and records start lines', () => {
+    const { content, layout } = buildNotebookBuffer(cells, 1, 'python');
+
+    assert.strictEqual(content, [
+      '# %% [markdown]',
+      '# # Load data',
+      '#',
+      '# Read the CSV.',
+      '# %%',
+      'import pandas as pd',
+      'df = pd.read_csv("a.csv")',
+      '# %%',
+      'df.head()'
+    ].join('\n'));
+    assert.deepStrictEqual(layout.cellStartLines, [1, 5, 8]);
+    assert.deepStrictEqual(layout.cellLineCounts, [3, 2, 1]);
+  });
+
+  test('Maps cursor lines into the buffer and back', () => {
+    const { layout } = buildNotebookBuffer(cells, 1, 'python');
+
+    assert.strictEqual(toBufferLine(layout, 1), 6);
+    assert.strictEqual(toCellLine(layout, 6), 1);
+    assert.strictEqual(toCellLine(layout, 7), null);
+    assert.strictEqual(toCellLine(layout, 4), null);
+  });
+
+  test('Maps completions back to the active cell', () => {
+    const { layout } = buildNotebookBuffer(cells, 1, 'python');
+    const completion: CompletionResponse = {
+      text: 'df = pd.read_csv("a.csv", sep=";")\n\n# %%\ndf.describe()',
+      range: { startLine: 6, endLine: 6 },
+      cursorPosition: { line: 8, column: 0 }
+    };
+
+    assert.ok(mapCompletionToCell(layout, completion));
+    assert.deepStrictEqual(completion.range, { startLine: 1, endLine: 1 });
+    assert.strictEqual(completion.text, 'df = pd.read_csv("a.csv", sep=";")');
+    assert.strictEqual(completion.cursorPosition, undefined);
+
+    assert.ok(!mapCompletionToCell(layout, { text: 'df.tail()', range: { startLine: 8, endLine: 8 } }));
+  });
+});
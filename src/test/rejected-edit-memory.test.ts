@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { normalizeSuggestionText, textSimilarity } from '../core/rejected-edit-memory';
+import { ConfigManager } from '../utils/config';
+
+suite('Rejected Edit Memory Test Suite', () => {
+  test('Whitespace differences are normalized away', () => {
+    assert.strictEqual(normalizeSuggestionText('  return  a +\n    b;  '), 'return a + b;');
+  });
+
+  test('Near-identical suggestions are highly similar', () => {
+    const rejected = normalizeSuggestionText('const total = items.reduce((sum, item) => sum + item.price, 0);');
+    const similar = normalizeSuggestionText('const total = items.reduce((sum, item) => sum + item.price, 0)');
+    const different = normalizeSuggestionText('logger.info("done");');
+
+    assert.strictEqual(textSimilarity(rejected, rejected), 1);
+    assert.ok(textSimilarity(rejected, similar) > 0.9);
+    assert.ok(textSimilarity(rejected, different) < 0.5);
+  });
+
+  test('Server thresholds are kept in memory under user settings', () => {
+    try {
+      ConfigManager.setServerConfig({
+        recentlyRejectedEditThresholds: { hardRejectThreshold: 6, softRejectThreshold: 3 },
+        maxClearedSuggestionsSinceLastAccept: 0
+      });
+      const config = ConfigManager.getConfig();
+      assert.deepStrictEqual(config.recentlyRejectedEditThresholds, { hardRejectThreshold: 6, softRejectThreshold: 3 });
+      assert.strictEqual(config.maxClearedSuggestionsSinceLastAccept, 0);
+    } finally {
+      ConfigManager.setServerConfig({
+        recentlyRejectedEditThresholds: { hardRejectThreshold: 4, softRejectThreshold: 2 },
+        maxClearedSuggestionsSinceLastAccept: 10
+      });
+    }
+  });
+});
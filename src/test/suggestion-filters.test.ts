@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import {
+  SuggestionCandidate,
+  duplicatingLineAfterSuggestionFilter,
+  duplicatingMultipleLinesAfterSuggestionFilter,
+  lotsOfAddedTextFilter,
+  revertingUserChangeFilter,
+  suggestingRecentlyRejectedEditFilter
+} from '../core/suggestion-filters';
+import { ConfigManager } from '../utils/config';
+
+function insertionAt(documentText: string, marker: string, text: string): SuggestionCandidate {
+  const offset = documentText.indexOf(marker);
+  return { uri: 'file:///test.ts', documentText: documentText.replace(marker, ''), rangeStartOffset: offset, rangeEndOffset: offset, text };
+}
+
+suite('Suggestion Filters Test Suite', () => {
+  test('Duplicating the next line is suppressed', () => {
+    const candidate = insertionAt('function a() {\n  |\n  return value;\n}', '|', 'const x = 1;\n  return value;');
+    assert.strictEqual(duplicatingLineAfterSuggestionFilter.shouldSuppress(candidate), true);
+
+    const fine = insertionAt('function a() {\n  |\n  return value;\n}', '|', 'const x = 1;');
+    assert.strictEqual(duplicatingLineAfterSuggestionFilter.shouldSuppress(fine), false);
+  });
+
+  test('Duplicating multiple following lines is suppressed', () => {
+    const candidate = insertionAt('|\nconst a = 1;\nconst b = 2;\n', '|', 'log();\nconst a = 1;\nconst b = 2;');
+    assert.strictEqual(duplicatingMultipleLinesAfterSuggestionFilter.shouldSuppress(candidate), true);
+  });
+
+  test('Large additions are suppressed', () => {
+    const candidate = insertionAt('|', '|', 'x'.repeat(5000));
+    assert.strictEqual(lotsOfAddedTextFilter.shouldSuppress(candidate), true);
+    assert.strictEqual(lotsOfAddedTextFilter.shouldSuppress(insertionAt('|', '|', 'short')), false);
+  });
+
+  test('Reverting the last user change is suppressed', () => {
+    const candidate = insertionAt('const value = |;', '|', 'oldName');
+    candidate.previousDocumentText = 'const value = oldName;';
+    assert.strictEqual(revertingUserChangeFilter.shouldSuppress(candidate), true);
+  });
+
+  test('Recently rejected suggestions are suppressed', () => {
+    const candidate = insertionAt('foo(|)', '|', 'bar, baz');
+    candidate.recentlyRejectedTexts = ['bar, baz'];
+    assert.strictEqual(suggestingRecentlyRejectedEditFilter.shouldSuppress(candidate), true);
+  });
+
+  test('Server heuristics are kept in memory under user settings', () => {
+    try {
+      ConfigManager.setServerConfig({ enabledHeuristics: ['LOTS_OF_ADDED_TEXT'] });
+      assert.deepStrictEqual(ConfigManager.getConfig().enabledHeuristics, ['LOTS_OF_ADDED_TEXT']);
+    } finally {
+      ConfigManager.setServerConfig({ enabledHeuristics: [] });
+    }
+    assert.deepStrictEqual(ConfigManager.getConfig().enabledHeuristics, []);
+  });
+});
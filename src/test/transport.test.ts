@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import { SelfHostedRestTransport, toStreamCppResponse } from '../api/transport';
+import { AvailableCppModelsRequest, CppConfigRequest, StreamCppRequest, StreamCppResponse } from '../generated/cpp_pb';
+import { FSUploadFileRequest } from '../generated/fs_pb';
+
+/**
+ * cursor-api 的分帧格式：1 字节消息类型 + 4 字节小端长度 + 消息体
+ */
+function frame(type: number, body: string | Uint8Array = ''): Uint8Array {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  const result = new Uint8Array(5 + bytes.length);
+  result[0] = type;
+  new DataView(result.buffer).setUint32(1, bytes.length, true);
+  result.set(bytes, 5);
+  return result;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+interface RecordedFetch {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+suite('Transport Test Suite', () => {
+  const originalFetch = globalThis.fetch;
+  let calls: RecordedFetch[] = [];
+  let nextResponse: () => Response;
+
+  setup(() => {
+    calls = [];
+    nextResponse = () => Response.json({});
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      calls.push({
+        url: String(input),
+        method: init?.method,
+        headers: init?.headers as Record<string, string>,
+        body: typeof init?.body === 'string' ? init.body : undefined
+      });
+      return nextResponse();
+    }) as typeof fetch;
+  });
+
+  teardown(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('Converts every SSE message type to StreamCppResponse', () => {
+    assert.strictEqual(toStreamCppResponse({ type: 'text', data: 'abc' })?.text, 'abc');
+    assert.strictEqual(
+      toStreamCppResponse({ type: 'model_info', data: { isFusedCursorPredictionModel: true } })?.modelInfo?.isFusedCursorPredictionModel,
+      true
+    );
+    const range = toStreamCppResponse({ type: 'range_replace', data: { startLineNumber: 2, endLineNumberInclusive: 4 } })?.rangeToReplace;
+    assert.deepStrictEqual([range?.startLineNumber, range?.endLineNumberInclusive], [2, 4]);
+    const target = toStreamCppResponse({ type: 'cursor_prediction', data: { relativePath: 'a.ts', lineNumberOneIndexed: 9 } })?.cursorPredictionTarget;
+    assert.deepStrictEqual([target?.relativePath, target?.lineNumberOneIndexed], ['a.ts', 9]);
+    assert.strictEqual(toStreamCppResponse({ type: 'done_edit', data: null })?.doneEdit, true);
+    assert.strictEqual(toStreamCppResponse({ type: 'done_stream', data: null })?.doneStream, true);
+
+    // protobuf_message：SSEParser 解码成功时是对象，失败时保留原始字节
+    const binary = new StreamCppResponse({ text: 'from bytes', doneEdit: true }).toBinary();
+    assert.deepStrictEqual(toStreamCppResponse({ type: 'protobuf_message', data: binary }), new StreamCppResponse({ text: 'from bytes', doneEdit: true }));
+    assert.strictEqual(toStreamCppResponse({ type: 'protobuf_message', data: { text: 'from json', unknownField: 1 } })?.text, 'from json');
+
+    for (const type of ['heartbeat', 'debug', 'unknown'] as const) {
+      assert.strictEqual(toStreamCppResponse({ type, data: 'ignored' }), null, type);
+    }
+  });
+
+  test('Streams SSE frames from the self-hosted endpoint with caller headers', async () => {
+    const body = concat([
+      frame(0x09),
+      frame(0x00, 'hello'),
+      frame(0x02, JSON.stringify({ startLineNumber: 1, endLineNumberInclusive: 1 })),
+      frame(0x0A, new StreamCppResponse({ text: ' world' }).toBinary()),
+      frame(0x04),
+      frame(0x05)
+    ]);
+    nextResponse = () => new Response(body);
+    const transport = new SelfHostedRestTransport('http://localhost:8000/', 'token', 'client-key');
+
+    const responses: StreamCppResponse[] = [];
+    for await (const response of transport.streamCpp(new StreamCppRequest({}), { headers: { 'x-request-id': 'req-1' } })) {
+      responses.push(response);
+    }
+
+    assert.deepStrictEqual(responses.map(r => r.text).join(''), 'hello world');
+    assert.strictEqual(responses.find(r => r.rangeToReplace)?.rangeToReplace?.startLineNumber, 1);
+    assert.ok(responses.some(r => r.doneEdit));
+    assert.ok(responses[responses.length - 1].doneStream);
+
+    const [call] = calls;
+    assert.strictEqual(call.url, 'http://localhost:8000/cpp/stream');
+    assert.strictEqual(call.method, 'POST');
+    assert.strictEqual(call.headers['Authorization'], 'Bearer token');
+    assert.strictEqual(call.headers['x-client-key'], 'client-key');
+    assert.strictEqual(call.headers['x-request-id'], 'req-1');
+  });
+
+  test('Throws on SSE error frames and stops on cancel', async () => {
+    const transport = new SelfHostedRestTransport('http://localhost:8000', 'token', '');
+
+    nextResponse = () => new Response(concat([frame(0x00, 'a'), frame(0x07, 'quota exceeded')]));
+    await assert.rejects(async () => {
+      for await (const _response of transport.streamCpp(new StreamCppRequest({}))) {
+        // 读到错误帧时抛出
+      }
+    }, /quota exceeded/);
+
+    nextResponse = () => new Response(concat([frame(0x00, 'b'), frame(0x08), frame(0x00, 'never')]));
+    const texts: string[] = [];
+    for await (const response of transport.streamCpp(new StreamCppRequest({}))) {
+      texts.push(response.text);
+    }
+    assert.deepStrictEqual(texts, ['b']);
+  });
+
+  test('Uses the mapped HTTP method and merges caller headers for unary calls', async () => {
+    const transport = new SelfHostedRestTransport('http://localhost:8000', 'token', '');
+
+    nextResponse = () => Response.json({ aboveRadius: 3, unknownField: true });
+    const config = await transport.cppConfig(new CppConfigRequest({}), { headers: { 'x-extra': '1' } });
+    assert.strictEqual(config.aboveRadius, 3);
+
+    nextResponse = () => Response.json({ models: ['fast'], defaultModel: 'fast' });
+    assert.deepStrictEqual((await transport.availableModels(new AvailableCppModelsRequest({}))).models, ['fast']);
+
+    nextResponse = () => Response.json({});
+    await transport.uploadFile(new FSUploadFileRequest({ relativeWorkspacePath: 'a.ts', contents: 'x' }));
+
+    assert.deepStrictEqual(
+      calls.map(call => [call.url, call.method, call.body !== undefined]),
+      [
+        ['http://localhost:8000/cpp/config', 'GET', false],
+        ['http://localhost:8000/cpp/models', 'GET', false],
+        ['http://localhost:8000/file/upload', 'POST', true]
+      ]
+    );
+    assert.strictEqual(calls[0].headers['x-extra'], '1');
+    assert.strictEqual(calls[0].headers['Authorization'], 'Bearer token');
+    assert.strictEqual(JSON.parse(calls[2].body ?? '{}').relativeWorkspacePath, 'a.ts');
+
+    nextResponse = () => new Response('nope', { status: 503, statusText: 'Service Unavailable' });
+    await assert.rejects(transport.cppConfig(new CppConfigRequest({})), /HTTP 503/);
+  });
+});
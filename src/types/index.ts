@@ -9,6 +9,7 @@ export interface TriggerConfig {
 export interface CursorConfig {
   enabled: boolean;
   serverUrl: string;
+  endpointType: 'official' | 'selfhosted';
   authToken: string;
   clientKey: string;
   gcppHost: 'US' | 'EU' | 'Asia';
@@ -18,6 +19,33 @@ export interface CursorConfig {
   debounceMs: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   triggerConfig: TriggerConfig;
+  enableCursorPrediction: boolean;
+  enableImportPrediction: boolean; // 接受补全后为未解析的符号提供导入（服务器也可自动开启）
+  linterDiagnosticsRadius: number; // 光标上下收集诊断的行数，0 表示不发送
+  lspContextTokenBudget: number; // LSP 符号上下文的 token 预算，0 表示不收集
+  enabledHeuristics: string[]; // 服务器下发的补全过滤启发式（CppConfigResponse.Heuristic 名称）
+  recentlyRejectedEditThresholds: {
+    hardRejectThreshold: number; // 近似建议被拒绝达到该次数后始终抑制
+    softRejectThreshold: number; // 达到该次数后在短时间内抑制
+  };
+  maxClearedSuggestionsSinceLastAccept: number; // 自上次接受以来连续清除的建议上限，超过后暂停自动触发（0 表示不限制）
+  fileSyncPolicy: FileSyncPolicy; // 文件同步策略：默认值、FSIsEnabledForUser / FSConfig 下发的策略和用户设置合并而成
+  recordCompletionSessions: boolean; // 录制 StreamCpp 请求与响应（脱敏）以便回放调试
+  enablementRules: string[]; // 按语言（language:<id>）和 glob 启用/禁用补全与同步，! 前缀表示禁用，最后匹配的规则生效
+  enableCursorRules: boolean; // 将 .cursorrules 和 .cursor/rules 中适用于当前文件的规则作为补全上下文
+  bm25TopChunks: number; // 通过本地 BM25 索引检索并发送的工作区代码块数量，0 表示不检索
+  contextTokenBudget: number; // 单次补全请求上下文的 token 预算，0 表示不限制
+}
+
+/**
+ * 文件同步策略
+ */
+export interface FileSyncPolicy {
+  enabled: boolean; // 关闭时始终使用内容模式，不上传/同步文件
+  maxFileSizeBytes: number; // 超过该大小的文件不同步
+  batchSizeLimitBytes: number; // 批处理累计变化达到该大小时立即刷新
+  flushIntervalMs: number; // 批处理最长等待时间
+  maxBatchItems: number; // 单个批次最多包含的文件数
 }
 
 export interface FileInfo {
@@ -38,6 +66,113 @@ export interface CompletionRequest {
   diffHistory?: string[];
   modelName?: string;
   debugOutput?: boolean;
+  lspContexts?: LspSymbolContext[]; // 光标附近符号的定义/类型/签名
+  parameterHints?: ParameterHint[]; // 光标位于函数调用内时的签名帮助
+  lspSuggestedItems?: string[]; // 语言服务器在光标处给出的补全候选
+  appendMode?: boolean; // 光标位于文件末尾，同时通过 CppAppend 增量发送追加的内容
+  notebook?: NotebookLayout; // 当前文件为笔记本时，currentFile 为拼接后的缓冲区，行号均为缓冲区坐标
+  dataframes?: DataframeSchema[]; // 从 Python 代码推断的 DataFrame 结构
+  cursorRules?: AppliedCursorRule[]; // 适用于当前文件的项目规则
+  topChunks?: RetrievedChunk[]; // BM25 检索到的其他文件中与光标附近代码最相关的代码块
+}
+
+/**
+ * 上下文项的类别
+ */
+export type ContextItemKind = 'currentFile' | 'recentEdits' | 'rule' | 'lsp' | 'chunk' | 'file';
+
+/**
+ * 上下文组装结果中的一项
+ */
+export interface ContextReportEntry {
+  kind: ContextItemKind;
+  label: string;
+  tokens: number;
+  score: number;
+  included: boolean; // false 表示超出预算被省略
+}
+
+/**
+ * 按 token 预算组装上下文的结果
+ */
+export interface ContextReport {
+  budget: number; // 0 表示不限制
+  usedTokens: number;
+  entries: ContextReportEntry[];
+}
+
+/**
+ * BM25 检索到的代码块（行号从 0 开始，结束行包含在内），内容已脱敏
+ */
+export interface RetrievedChunk {
+  relativePath: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  score: number;
+}
+
+/**
+ * 适用于当前文件的项目规则（.cursorrules / .cursor/rules），内容已脱敏
+ */
+export interface AppliedCursorRule {
+  name: string;
+  path: string; // 规则文件相对工作区的路径
+  content: string;
+}
+
+/**
+ * 从 Python 代码推断的 DataFrame 结构
+ */
+export interface DataframeSchema {
+  name: string;
+  columns: { key: string; type: string }[]; // type 为 pandas dtype，无法推断时为空
+  indexColumn?: string;
+}
+
+/**
+ * 笔记本拼接缓冲区的布局（单元格按顺序拼接，每个单元格前插入一行边界注释）
+ */
+export interface NotebookLayout {
+  languageId: string; // 笔记本代码单元格的语言
+  boundaryMarker: string; // 单元格边界行，例如 "# %%"
+  cellStartLines: number[]; // 每个单元格第一行在缓冲区中的行号（0索引）
+  cellLineCounts: number[];
+  activeCellIndex: number; // 光标所在的单元格
+}
+
+/**
+ * 参数提示（来自签名帮助，当前激活的签名排在最前）
+ */
+export interface ParameterHint {
+  label: string;
+  documentation?: string;
+}
+
+/**
+ * LSP 子图上下文条目（定义、类型定义或悬停签名片段）
+ */
+export interface LspContextItem {
+  uri: string; // 工作区相对路径
+  type: 'definition' | 'type_definition' | 'hover';
+  content: string;
+  range?: {
+    startLine: number; // 0索引
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+  };
+}
+
+/**
+ * 光标附近一个符号的 LSP 上下文
+ */
+export interface LspSymbolContext {
+  uri: string; // 符号出现的文件（工作区相对路径）
+  symbolName: string;
+  positions: { line: number; character: number }[]; // 符号在当前文件中的出现位置（0索引）
+  items: LspContextItem[];
+  score: number; // 与光标的接近程度，越大越相关
 }
 
 export interface CompletionResponse {
@@ -51,6 +186,30 @@ export interface CompletionResponse {
     column: number;
   };
   bindingId?: string; // 🎯 用于跟踪补全结果反馈
+  cursorPredictionTarget?: CursorPredictionTarget; // 🎯 StreamCpp 附带的下一个编辑位置
+}
+
+/**
+ * 光标预测目标（下一个编辑位置）
+ */
+export interface CursorPredictionTarget {
+  relativePath?: string; // 为空表示当前文件
+  line: number; // 0索引
+  expectedContent?: string;
+  shouldRetriggerCpp?: boolean;
+}
+
+export interface CursorPredictionRequest {
+  currentFile: FileInfo;
+  cursorPosition: {
+    line: number;
+    column: number;
+  };
+  visibleRanges?: Array<{
+    startLine: number; // 0索引，包含
+    endLine: number; // 0索引，不包含
+  }>;
+  modelName?: string;
 }
 
 export type SSEEventType = 
@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import type { CursorPredictionTarget } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * 多行编辑建议（幽灵文本无法表达时使用装饰渲染）
+ */
+export interface InlineEditSuggestion {
+  range: vscode.Range; // 要替换的范围（rangeToReplace 对应的整行范围）
+  text: string;
+  bindingId?: string;
+  cursorPredictionTarget?: CursorPredictionTarget;
+}
+
+/**
+ * 行级差异结果
+ */
+export interface LineDiff {
+  unchangedPrefix: number; // 开头未变化的行数
+  removed: string[];
+  inserted: string[];
+}
+
+interface ActiveInlineEdit {
+  editor: vscode.TextEditor;
+  suggestion: InlineEditSuggestion;
+  documentVersion: number;
+  shownAt: number;
+}
+
+/**
+ * 判断替换能否用幽灵文本表达
+ * 只有当替换等价于在光标处纯插入时，VSCode 才会渲染幽灵文本
+ */
+export function canRenderAsGhostText(originalText: string, cursorOffset: number, newText: string): boolean {
+  if (cursorOffset < 0 || cursorOffset > originalText.length) {
+    return false;
+  }
+
+  const before = originalText.substring(0, cursorOffset);
+  const after = originalText.substring(cursorOffset);
+
+  return newText.length >= before.length + after.length &&
+    newText.startsWith(before) &&
+    newText.endsWith(after);
+}
+
+/**
+ * 计算行级差异：去掉首尾相同的行，剩余部分视为删除 + 插入
+ */
+export function computeLineDiff(oldLines: string[], newLines: string[]): LineDiff {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+         oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  return {
+    unchangedPrefix: prefix,
+    removed: oldLines.slice(prefix, oldLines.length - suffix),
+    inserted: newLines.slice(prefix, newLines.length - suffix)
+  };
+}
+
+/**
+ * 内联编辑渲染器 - 幽灵文本的回退方案
+ *
+ * 删除的行显示为删除线，插入的行以提示形式显示在对应行右侧，
+ * 用户通过 Tab 接受（原子地应用整个 rangeToReplace 编辑）或 Esc 拒绝
+ */
+export class InlineEditRenderer implements vscode.Disposable {
+  private logger: Logger;
+  private removedDecorationType: vscode.TextEditorDecorationType;
+  private insertedDecorationType: vscode.TextEditorDecorationType;
+  private activeEdit: ActiveInlineEdit | null = null;
+  private isApplying = false;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidAcceptEditEmitter = new vscode.EventEmitter<{ document: vscode.TextDocument; suggestion: InlineEditSuggestion }>();
+  private readonly onDidRejectEditEmitter = new vscode.EventEmitter<{ document: vscode.TextDocument; suggestion: InlineEditSuggestion; reason: string }>();
+  readonly onDidAcceptEdit = this.onDidAcceptEditEmitter.event;
+  readonly onDidRejectEdit = this.onDidRejectEditEmitter.event;
+
+  private readonly CONTEXT_KEY = 'cometixTab.inlineEditVisible';
+  private readonly MAX_HINT_LENGTH = 120;
+
+  constructor() {
+    this.logger = Logger.getInstance();
+
+    this.removedDecorationType = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      textDecoration: 'line-through',
+      backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+      overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    this.insertedDecorationType = vscode.window.createTextEditorDecorationType({
+      overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Left,
+      after: {
+        color: new vscode.ThemeColor('editorGhostText.foreground'),
+        backgroundColor: new vscode.ThemeColor('diffEditor.insertedTextBackground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em'
+      }
+    });
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * 设置事件监听器 - 文档被用户修改或切换编辑器时自动拒绝
+   */
+  private setupEventListeners(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (this.activeEdit && !this.isApplying && event.contentChanges.length > 0 &&
+            event.document === this.activeEdit.editor.document) {
+          this.rejectEdit('document_edited');
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        if (this.activeEdit) {
+          this.rejectEdit('editor_changed');
+        }
+      })
+    );
+  }
+
+  /**
+   * 显示多行编辑建议
+   */
+  show(editor: vscode.TextEditor, suggestion: InlineEditSuggestion): boolean {
+    const document = editor.document;
+    const range = document.validateRange(suggestion.range);
+    const oldLines = document.getText(range).split(/\r?\n/);
+    const newLines = suggestion.text.split(/\r?\n/);
+    const diff = computeLineDiff(oldLines, newLines);
+
+    if (diff.removed.length === 0 && diff.inserted.length === 0) {
+      this.logger.debug('📭 编辑建议与原内容相同，不显示');
+      return false;
+    }
+
+    if (this.activeEdit) {
+      this.rejectEdit('superseded');
+    }
+
+    const firstChangedLine = range.start.line + diff.unchangedPrefix;
+    const removedDecorations: vscode.DecorationOptions[] = [];
+    const insertedDecorations: vscode.DecorationOptions[] = [];
+    const hoverMessage = this.buildHoverMessage(diff);
+
+    diff.removed.forEach((_, index) => {
+      removedDecorations.push({
+        range: document.lineAt(firstChangedLine + index).range,
+        hoverMessage
+      });
+    });
+
+    // 插入的行与删除的行逐行对齐显示，多出的行合并到最后一行的提示中
+    const anchorCount = Math.max(1, diff.removed.length);
+    for (let index = 0; index < anchorCount; index++) {
+      const hintLines = index === anchorCount - 1 ? diff.inserted.slice(index) : diff.inserted.slice(index, index + 1);
+      if (hintLines.length === 0) {
+        continue;
+      }
+
+      const anchorLine = Math.min(firstChangedLine + index, document.lineCount - 1);
+      const prefix = diff.removed.length === 0 ? '＋ ' : '→ ';
+      insertedDecorations.push({
+        range: document.lineAt(anchorLine).range,
+        hoverMessage,
+        renderOptions: {
+          after: { contentText: prefix + this.formatHint(hintLines) }
+        }
+      });
+    }
+
+    editor.setDecorations(this.removedDecorationType, removedDecorations);
+    editor.setDecorations(this.insertedDecorationType, insertedDecorations);
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, true);
+
+    this.activeEdit = {
+      editor,
+      suggestion: { ...suggestion, range },
+      documentVersion: document.version,
+      shownAt: Date.now()
+    };
+
+    this.logger.info(`🧩 显示多行编辑建议: 行${range.start.line + 1}-${range.end.line + 1}, 删除${diff.removed.length}行, 插入${diff.inserted.length}行`);
+    return true;
+  }
+
+  /**
+   * 接受编辑建议 - 原子地应用整个替换
+   */
+  async acceptEdit(): Promise<boolean> {
+    const active = this.activeEdit;
+    if (!active) {
+      return false;
+    }
+
+    const { editor, suggestion } = active;
+    if (editor.document.version !== active.documentVersion) {
+      this.logger.warn('⚠️ 文档已变化，编辑建议已过期');
+      this.rejectEdit('stale');
+      return false;
+    }
+
+    this.clearDecorations();
+    this.isApplying = true;
+
+    try {
+      const applied = await editor.edit(builder => {
+        builder.replace(suggestion.range, suggestion.text);
+      });
+
+      if (!applied) {
+        this.logger.warn('⚠️ 应用编辑建议失败');
+        this.onDidRejectEditEmitter.fire({ document: editor.document, suggestion, reason: 'apply_failed' });
+        return false;
+      }
+
+      // 将光标移动到插入内容的末尾
+      const startOffset = editor.document.offsetAt(suggestion.range.start);
+      const endPosition = editor.document.positionAt(startOffset + suggestion.text.length);
+      editor.selection = new vscode.Selection(endPosition, endPosition);
+
+      this.logger.info(`✅ 已应用多行编辑建议 (${suggestion.text.length} 字符)`);
+      this.onDidAcceptEditEmitter.fire({ document: editor.document, suggestion });
+      return true;
+    } catch (error) {
+      this.logger.error('❌ 应用编辑建议时发生错误', error as Error);
+      this.onDidRejectEditEmitter.fire({ document: editor.document, suggestion, reason: 'apply_failed' });
+      return false;
+    } finally {
+      this.isApplying = false;
+    }
+  }
+
+  /**
+   * 拒绝编辑建议
+   */
+  rejectEdit(reason: string = 'dismissed'): void {
+    const active = this.activeEdit;
+    if (!active) {
+      return;
+    }
+
+    this.clearDecorations();
+    this.logger.debug(`❌ 多行编辑建议被拒绝: ${reason}`);
+    this.onDidRejectEditEmitter.fire({ document: active.editor.document, suggestion: active.suggestion, reason });
+  }
+
+  /**
+   * 是否有正在显示的编辑建议
+   */
+  hasActiveEdit(): boolean {
+    return this.activeEdit !== null;
+  }
+
+  /**
+   * 清除装饰
+   */
+  private clearDecorations(): void {
+    if (this.activeEdit) {
+      this.activeEdit.editor.setDecorations(this.removedDecorationType, []);
+      this.activeEdit.editor.setDecorations(this.insertedDecorationType, []);
+      this.activeEdit = null;
+    }
+    vscode.commands.executeCommand('setContext', this.CONTEXT_KEY, false);
+  }
+
+  /**
+   * 格式化插入提示（装饰文本不支持换行）
+   */
+  private formatHint(lines: string[]): string {
+    const hint = lines.map(line => line.trim()).join(' ⏎ ');
+    return hint.length > this.MAX_HINT_LENGTH ? `${hint.substring(0, this.MAX_HINT_LENGTH)}…` : hint;
+  }
+
+  /**
+   * 构建悬停时显示的完整差异
+   */
+  private buildHoverMessage(diff: LineDiff): vscode.MarkdownString {
+    const diffText = [
+      ...diff.removed.map(line => `- ${line}`),
+      ...diff.inserted.map(line => `+ ${line}`)
+    ].join('\n');
+
+    const message = new vscode.MarkdownString();
+    message.appendMarkdown('**Cometix Tab 编辑建议** (Tab 接受 / Esc 拒绝)\n');
+    message.appendCodeblock(diffText, 'diff');
+    return message;
+  }
+
+  dispose(): void {
+    this.clearDecorations();
+    this.removedDecorationType.dispose();
+    this.insertedDecorationType.dispose();
+    this.onDidAcceptEditEmitter.dispose();
+    this.onDidRejectEditEmitter.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
+
+/**
+ * 单例内联编辑渲染器
+ */
+let inlineEditRendererInstance: InlineEditRenderer | null = null;
+
+export function createInlineEditRenderer(): InlineEditRenderer {
+  if (!inlineEditRendererInstance) {
+    inlineEditRendererInstance = new InlineEditRenderer();
+  }
+  return inlineEditRendererInstance;
+}
+
+export function getInlineEditRenderer(): InlineEditRenderer | null {
+  return inlineEditRendererInstance;
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../utils/config';
 import { Logger } from '../utils/logger';
+import { EnablementRules } from '../core/enablement-rules';
 
 interface QuickActionItem extends vscode.QuickPickItem {
   action: string;
@@ -125,6 +126,25 @@ export class MenuPanel {
       description: statusInfo.enabled ? '点击禁用AI补全' : '点击启用AI补全',
       action: 'toggleEnabled'
     });
+
+    // 当前语言/文件的启用切换
+    const document = vscode.window.activeTextEditor?.document;
+    if (document) {
+      const enablementRules = EnablementRules.getInstance();
+      const languageEnabled = enablementRules.isLanguageEnabled(document.languageId);
+      actions.push({
+        label: `${languageEnabled ? '$(circle-filled)' : '$(circle-outline)'} ${languageEnabled ? '禁用' : '启用'} ${document.languageId} 的补全`,
+        description: '按语言切换（用户设置）',
+        action: 'toggleLanguageEnabled'
+      });
+
+      const fileEnabled = enablementRules.isEnabledFor(document);
+      actions.push({
+        label: `${fileEnabled ? '$(circle-filled)' : '$(circle-outline)'} ${fileEnabled ? '禁用' : '启用'}当前文件的补全`,
+        description: vscode.workspace.asRelativePath(document.uri),
+        action: 'toggleFileEnabled'
+      });
+    }
     
     // Snooze控制
     if (statusInfo.isSnoozing) {
@@ -226,6 +246,14 @@ export class MenuPanel {
         await vscode.commands.executeCommand('cometix-tab.toggleEnabled');
         break;
         
+      case 'toggleLanguageEnabled':
+        await vscode.commands.executeCommand('cometix-tab.toggleLanguageEnabled');
+        break;
+        
+      case 'toggleFileEnabled':
+        await vscode.commands.executeCommand('cometix-tab.toggleFileEnabled');
+        break;
+        
       case 'cancelSnooze':
         await vscode.commands.executeCommand('cometix-tab.cancelSnooze');
         break;
@@ -2,12 +2,14 @@ import * as vscode from 'vscode';
 import { ConfigManager } from '../utils/config';
 import { Logger } from '../utils/logger';
 import { MenuPanel } from './menu-panel';
+import { EnablementRules } from '../core/enablement-rules';
 
 export enum StatusBarState {
   Idle = 'idle',
   Working = 'working', 
   Error = 'error',
   Disabled = 'disabled',
+  DisabledForFile = 'disabledForFile',
   Snoozing = 'snoozing'
 }
 
@@ -155,6 +157,12 @@ export class StatusBar {
     if (!config.enabled) {
       return StatusBarState.Disabled;
     }
+
+    // 检查启用规则是否排除了当前文件/语言
+    const editor = vscode.window.activeTextEditor;
+    if (editor && !EnablementRules.getInstance().isEnabledFor(editor.document)) {
+      return StatusBarState.DisabledForFile;
+    }
     
     // 检查是否在snooze状态
     if (config.snoozeUntil > Date.now()) {
@@ -219,6 +227,15 @@ export class StatusBar {
           color: new vscode.ThemeColor('statusBarItem.errorBackground')
         };
 
+      case StatusBarState.DisabledForFile:
+        return {
+          ...baseConfig,
+          text: '$(circle-slash) Cometix Tab',
+          icon: 'circle-slash',
+          tooltip: this.buildTooltip('当前文件/语言已被启用规则排除', config),
+          color: new vscode.ThemeColor('statusBarItem.warningBackground')
+        };
+
       case StatusBarState.Snoozing:
         const snoozeTime = new Date(config.snoozeUntil).toLocaleTimeString();
         return {
@@ -1,19 +1,47 @@
 import * as vscode from 'vscode';
 import { Logger } from './logger';
-import { CursorApiClient } from '../core/api-client';
-import type { FileInfo } from '../types';
-import { FileSyncStateManager } from '../core/filesync-state-manager';
+import { ConfigManager } from './config';
+import { CryptoUtils } from './crypto';
+import { FileDiffCalculator } from './file-diff';
+import { WorkspaceManager } from './workspace-manager';
+import type { ConnectRpcApiClient } from '../core/connect-rpc-api-client';
+import type { FileSyncStateManager } from '../core/filesync-state-manager';
+import { ContentGuard } from '../core/content-guard';
+import { FilesyncUpdateWithModelVersion } from '../generated/cpp_pb';
+import { FSSyncErrorType, FSUploadFileResponse } from '../generated/fs_pb';
 
 /**
- * 批处理补丁项
+ * 待同步的文件（同一文件的多次编辑合并为一项）
  */
-interface BatchPatchItem {
+interface PendingFileUpdate {
   uri: string;
-  changes: vscode.TextDocumentContentChangeEvent[];
-  timestamp: number;
+  relativePath: string;
+  changedBytes: number; // 自上次同步以来累计的变化大小
+  timestamp: number; // 最早一次未同步编辑的时间
   priority: 'low' | 'medium' | 'high';
 }
 
+/**
+ * 随 StreamCpp 请求发送的增量更新
+ * 服务器开始返回响应后 commit 记录新版本；请求失败或被取消时 rollback，文件重新进入批处理队列
+ */
+export interface PiggybackUpdates {
+  updates: FilesyncUpdateWithModelVersion[];
+  commit(): void;
+  rollback(): void;
+}
+
+/**
+ * 已构建但尚未被服务器确认的增量更新
+ */
+interface PiggybackEntry {
+  pending: PendingFileUpdate;
+  update: FilesyncUpdateWithModelVersion;
+  content: string;
+  baseVersion: number;
+  uuid: string;
+}
+
 /**
  * 批处理同步结果
  */
@@ -27,41 +55,42 @@ interface BatchSyncResult {
 
 /**
  * 批处理增量同步管理器
- * 
+ *
  * 实现智能批处理策略，优化网络传输和服务器压力：
- * 1. 收集编辑变化到批次队列
- * 2. 基于大小、时间、优先级触发批处理
- * 3. 合并相同文件的多个变化
- * 4. 压缩和优化传输数据
+ * 1. 收集编辑变化到批次队列，同一文件的多次编辑合并为一项
+ * 2. 基于大小、时间、优先级触发批处理，通过 FSSyncFile 发送
+ * 3. 下一次 StreamCpp 请求可以直接携带待同步文件的 FilesyncUpdateWithModelVersion
+ * 4. 同一文件的同步按顺序执行，模型版本严格递增
  */
 export class BatchSyncManager {
   private logger: Logger;
-  private apiClient: CursorApiClient;
+  private connectClient: ConnectRpcApiClient;
   private fileSyncStateManager: FileSyncStateManager;
-  
-  // 批处理队列
-  private pendingPatches = new Map<string, BatchPatchItem>();
+  private fileDiffCalculator: FileDiffCalculator;
+
+  // 批处理队列（按相对路径）
+  private pendingFiles = new Map<string, PendingFileUpdate>();
+  private fileQueues = new Map<string, Promise<boolean>>(); // 每个文件正在进行的同步
   private flushTimer: NodeJS.Timeout | null = null;
-  
-  // 配置参数
-  private readonly BATCH_SIZE_LIMIT = 1024 * 8; // 8KB 批处理阈值
-  private readonly FLUSH_INTERVAL = 500; // 500ms 强制刷新间隔
-  private readonly MAX_BATCH_ITEMS = 10; // 最大批处理项目数
+
+  // 配置参数（大小/间隔/项目数上限来自服务器下发的文件同步策略）
   private readonly PRIORITY_FLUSH_INTERVAL = 200; // 高优先级快速刷新
-  
+
   // 性能监控
   private stats = {
     totalBatches: 0,
     totalPatches: 0,
     totalBytes: 0,
     successfulBatches: 0,
-    averageLatency: 0
+    averageLatency: 0,
+    piggybackedUpdates: 0 // 随 StreamCpp 请求发送的更新数
   };
 
-  constructor(apiClient: CursorApiClient, fileSyncStateManager: FileSyncStateManager) {
+  constructor(connectClient: ConnectRpcApiClient) {
     this.logger = Logger.getInstance();
-    this.apiClient = apiClient;
-    this.fileSyncStateManager = fileSyncStateManager;
+    this.connectClient = connectClient;
+    this.fileSyncStateManager = connectClient.getFileSyncStateManager();
+    this.fileDiffCalculator = new FileDiffCalculator();
   }
 
   /**
@@ -72,49 +101,185 @@ export class BatchSyncManager {
     changes: readonly vscode.TextDocumentContentChangeEvent[],
     priority: 'low' | 'medium' | 'high' = 'medium'
   ): void {
+    if (!ConfigManager.getConfig().fileSyncPolicy.enabled) {
+      return;
+    }
+
     const uri = document.uri.toString();
-    const now = Date.now();
-    
-    // 获取或创建批处理项
-    let batchItem = this.pendingPatches.get(uri);
-    if (!batchItem) {
-      batchItem = {
+    const relativePath = vscode.workspace.asRelativePath(document.uri);
+    const changedBytes = changes.reduce((total, change) => total + change.text.length + (change.rangeLength || 0), 0);
+
+    // 获取或创建批处理项 - 只累计大小，实际差异在同步时根据上次同步的内容计算
+    const pending = this.pendingFiles.get(relativePath);
+    if (pending) {
+      pending.changedBytes += changedBytes;
+      pending.priority = this.getHigherPriority(pending.priority, priority);
+    } else {
+      this.pendingFiles.set(relativePath, {
         uri,
-        changes: [],
-        timestamp: now,
+        relativePath,
+        changedBytes,
+        timestamp: Date.now(),
         priority
-      };
-      this.pendingPatches.set(uri, batchItem);
+      });
     }
-    
-    // 合并变化 - 智能合并策略
-    const mergedChanges = this.mergeChanges(batchItem.changes, Array.from(changes));
-    batchItem.changes = mergedChanges;
-    batchItem.priority = this.getHigherPriority(batchItem.priority, priority);
-    
-    this.logger.debug(`📦 添加变化到批处理: ${uri.split('/').pop()}, 变化数: ${changes.length}, 优先级: ${priority}`);
-    
+
+    this.logger.debug(`📦 添加变化到批处理: ${relativePath}, 变化数: ${changes.length}, 优先级: ${priority}`);
+
     // 检查是否需要触发批处理
     this.checkFlushConditions();
   }
 
+  /**
+   * 取出待同步文件的增量更新，随下一次 StreamCpp 请求发送（filesyncUpdates）
+   * 正在同步（包括已随其他请求发送、尚未确认）的文件保留在队列中，保证同一文件的更新按版本顺序到达
+   */
+  takeUpdatesForRequest(workspaceId: string, excludePath?: string): PiggybackUpdates {
+    const entries: PiggybackEntry[] = [];
+
+    for (const [relativePath, pending] of this.pendingFiles) {
+      if (relativePath === excludePath || this.fileQueues.has(relativePath)) {
+        continue;
+      }
+
+      this.pendingFiles.delete(relativePath);
+      const entry = this.buildPiggybackUpdate(pending, workspaceId);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    if (this.pendingFiles.size === 0 && this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (entries.length > 0) {
+      this.stats.piggybackedUpdates += entries.length;
+      this.logger.info(`📎 随 StreamCpp 请求发送 ${entries.length} 个文件同步更新`);
+    }
+    return this.trackPiggybackUpdates(entries, workspaceId);
+  }
+
+  /**
+   * 在服务器确认之前占用这些文件的同步队列，之后的 FSSyncFile 和同一文件的补全请求会等待确认结果
+   */
+  private trackPiggybackUpdates(entries: PiggybackEntry[], workspaceId: string): PiggybackUpdates {
+    let settle: (committed: boolean) => void = () => {};
+    const settled = new Promise<boolean>(resolve => { settle = resolve; });
+    let done = entries.length === 0;
+
+    for (const { pending } of entries) {
+      this.fileQueues.set(pending.relativePath, settled);
+      settled.then(() => {
+        if (this.fileQueues.get(pending.relativePath) === settled) {
+          this.fileQueues.delete(pending.relativePath);
+        }
+      });
+    }
+
+    return {
+      updates: entries.map(entry => entry.update),
+      commit: () => {
+        if (done) {
+          return;
+        }
+        done = true;
+        for (const { pending, content, baseVersion, uuid, update } of entries) {
+          // 等待期间文件被重新上传或同步状态被清除时，不再覆盖
+          const syncState = this.fileSyncStateManager.getFileSyncState(pending.relativePath);
+          if (syncState?.successful && syncState.modelVersion === baseVersion && syncState.workspaceId === workspaceId) {
+            this.fileSyncStateManager.recordUploadSuccess(
+              { path: pending.relativePath, content, sha256: CryptoUtils.calculateSHA256(content), modelVersion: update.modelVersion },
+              workspaceId,
+              uuid,
+              new FSUploadFileResponse({})
+            );
+          }
+        }
+        settle(true);
+      },
+      rollback: () => {
+        if (done) {
+          return;
+        }
+        done = true;
+        // 服务器没有确认这些更新：重新加入批处理队列，之后从上次确认的内容通过 FSSyncFile 同步
+        for (const { pending } of entries) {
+          const newer = this.pendingFiles.get(pending.relativePath);
+          if (newer) {
+            newer.changedBytes += pending.changedBytes;
+            newer.timestamp = Math.min(newer.timestamp, pending.timestamp);
+            newer.priority = this.getHigherPriority(newer.priority, pending.priority);
+          } else {
+            this.pendingFiles.set(pending.relativePath, pending);
+          }
+        }
+        this.logger.warn(`↩️ 随 StreamCpp 发送的 ${entries.length} 个文件同步更新未被确认，改为批处理同步`);
+        settle(false);
+        this.scheduleFlush();
+      }
+    };
+  }
+
+  /**
+   * 等待该文件正在进行的 FSSyncFile 完成，并移出队列（调用方将自行同步该文件）
+   */
+  async waitForFileSync(relativePath: string): Promise<void> {
+    this.pendingFiles.delete(relativePath);
+    await this.fileQueues.get(relativePath);
+  }
+
+  /**
+   * 为随请求发送的文件构建增量更新；新版本在服务器确认后才记录
+   */
+  private buildPiggybackUpdate(pending: PendingFileUpdate, workspaceId: string): PiggybackEntry | null {
+    const syncState = this.fileSyncStateManager.getFileSyncState(pending.relativePath);
+    const lastContent = this.fileSyncStateManager.getLastSyncedContent(pending.relativePath);
+    if (!syncState?.successful || lastContent === null || syncState.workspaceId !== workspaceId) {
+      return null; // 从未上传过，补全时再按需上传
+    }
+
+    const document = this.findOpenDocument(pending.uri);
+    const contentGuard = ContentGuard.getInstance();
+    if (!document || contentGuard.isIgnored(document.uri)) {
+      return null;
+    }
+
+    // 🔒 与上传时一致地隐去密钥，差异基于脱敏后的内容计算
+    const content = contentGuard.redactContent(pending.relativePath, document.getText()).content;
+    if (content === lastContent) {
+      return null;
+    }
+
+    const newModelVersion = syncState.modelVersion + 1;
+    const update = this.fileDiffCalculator.buildFilesyncUpdate(pending.relativePath, lastContent, content, newModelVersion);
+    if (!this.fileDiffCalculator.validateUpdates(lastContent, content, update.updates)) {
+      this.fileSyncStateManager.removeFileSyncState(pending.relativePath);
+      return null;
+    }
+
+    return { pending, update, content, baseVersion: syncState.modelVersion, uuid: syncState.uuid };
+  }
+
   /**
    * 检查刷新条件
    */
   private checkFlushConditions(): void {
     const currentSize = this.calculateBatchSize();
-    const itemCount = this.pendingPatches.size;
+    const itemCount = this.pendingFiles.size;
     const hasHighPriorityItems = this.hasHighPriorityItems();
     const oldestTimestamp = this.getOldestTimestamp();
     const timeSinceOldest = Date.now() - oldestTimestamp;
-    
+    const policy = ConfigManager.getConfig().fileSyncPolicy;
+
     // 触发刷新的条件
-    const shouldFlush = 
-      currentSize >= this.BATCH_SIZE_LIMIT ||                    // 大小超过阈值
-      itemCount >= this.MAX_BATCH_ITEMS ||                      // 项目数超过阈值
-      timeSinceOldest >= this.FLUSH_INTERVAL ||                 // 时间超过间隔
+    const shouldFlush =
+      currentSize >= policy.batchSizeLimitBytes ||              // 大小超过阈值
+      itemCount >= policy.maxBatchItems ||                      // 项目数超过阈值
+      timeSinceOldest >= policy.flushIntervalMs ||              // 时间超过间隔
       (hasHighPriorityItems && timeSinceOldest >= this.PRIORITY_FLUSH_INTERVAL); // 高优先级快速刷新
-    
+
     if (shouldFlush) {
       this.logger.debug(`🚀 触发批处理: 大小=${currentSize}B, 项目=${itemCount}, 时间=${timeSinceOldest}ms, 高优先级=${hasHighPriorityItems}`);
       this.flushBatch();
@@ -129,10 +294,8 @@ export class BatchSyncManager {
    */
   private calculateBatchSize(): number {
     let totalSize = 0;
-    for (const item of this.pendingPatches.values()) {
-      for (const change of item.changes) {
-        totalSize += change.text.length + (change.rangeLength || 0);
-      }
+    for (const pending of this.pendingFiles.values()) {
+      totalSize += pending.changedBytes;
     }
     return totalSize;
   }
@@ -141,7 +304,7 @@ export class BatchSyncManager {
    * 检查是否有高优先级项目
    */
   private hasHighPriorityItems(): boolean {
-    return Array.from(this.pendingPatches.values()).some(item => item.priority === 'high');
+    return Array.from(this.pendingFiles.values()).some(pending => pending.priority === 'high');
   }
 
   /**
@@ -149,9 +312,9 @@ export class BatchSyncManager {
    */
   private getOldestTimestamp(): number {
     let oldest = Date.now();
-    for (const item of this.pendingPatches.values()) {
-      if (item.timestamp < oldest) {
-        oldest = item.timestamp;
+    for (const pending of this.pendingFiles.values()) {
+      if (pending.timestamp < oldest) {
+        oldest = pending.timestamp;
       }
     }
     return oldest;
@@ -162,10 +325,10 @@ export class BatchSyncManager {
    */
   private scheduleFlush(): void {
     if (this.flushTimer) return; // 已经有定时器了
-    
+
     const hasHighPriority = this.hasHighPriorityItems();
-    const interval = hasHighPriority ? this.PRIORITY_FLUSH_INTERVAL : this.FLUSH_INTERVAL;
-    
+    const interval = hasHighPriority ? this.PRIORITY_FLUSH_INTERVAL : ConfigManager.getConfig().fileSyncPolicy.flushIntervalMs;
+
     this.flushTimer = setTimeout(() => {
       this.flushTimer = null;
       this.flushBatch();
@@ -176,7 +339,12 @@ export class BatchSyncManager {
    * 执行批处理刷新
    */
   private async flushBatch(): Promise<BatchSyncResult> {
-    if (this.pendingPatches.size === 0) {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.pendingFiles.size === 0) {
       return {
         success: true,
         processedCount: 0,
@@ -187,46 +355,18 @@ export class BatchSyncManager {
     }
 
     const startTime = Date.now();
-    const batchItems = Array.from(this.pendingPatches.values());
     const totalSize = this.calculateBatchSize();
-    
-    this.logger.info(`🔄 开始批处理同步: ${batchItems.length} 个文件, 总大小: ${totalSize} 字节`);
-    
-    // 清空待处理队列
-    this.pendingPatches.clear();
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-      this.flushTimer = null;
-    }
+    const sortedItems = this.sortByPriority(Array.from(this.pendingFiles.values()));
 
-    let processedCount = 0;
-    let errorCount = 0;
-
-    // 按优先级排序处理
-    const sortedItems = this.sortByPriority(batchItems);
-    
-    // 并行处理批次（限制并发数）
-    const concurrencyLimit = 3;
-    const promises: Promise<boolean>[] = [];
-    
-    for (let i = 0; i < sortedItems.length; i += concurrencyLimit) {
-      const batch = sortedItems.slice(i, i + concurrencyLimit);
-      const batchPromises = batch.map(item => this.processBatchItem(item));
-      promises.push(...batchPromises);
-    }
+    this.logger.info(`🔄 开始批处理同步: ${sortedItems.length} 个文件, 总大小: ${totalSize} 字节`);
 
-    const results = await Promise.allSettled(promises);
-    
-    for (const result of results) {
-      if (result.status === 'fulfilled' && result.value) {
-        processedCount++;
-      } else {
-        errorCount++;
-        if (result.status === 'rejected') {
-          this.logger.error('批处理项目失败', result.reason);
-        }
-      }
-    }
+    // 清空待处理队列
+    this.pendingFiles.clear();
+
+    // 不同文件并行同步，同一文件排队执行
+    const results = await Promise.all(sortedItems.map(pending => this.enqueueFileSync(pending)));
+    const processedCount = results.filter(Boolean).length;
+    const errorCount = results.length - processedCount;
 
     const duration = Date.now() - startTime;
     const success = errorCount === 0;
@@ -246,137 +386,80 @@ export class BatchSyncManager {
   }
 
   /**
-   * 处理单个批处理项目
+   * 将文件同步加入该文件的队列，保证同一文件的 FSSyncFile 请求按顺序发送
+   */
+  private enqueueFileSync(pending: PendingFileUpdate): Promise<boolean> {
+    const previous = this.fileQueues.get(pending.relativePath) || Promise.resolve(true);
+    const next = previous.then(() => this.syncPendingFile(pending));
+    this.fileQueues.set(pending.relativePath, next);
+
+    next.then(() => {
+      if (this.fileQueues.get(pending.relativePath) === next) {
+        this.fileQueues.delete(pending.relativePath);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * 通过 FSSyncFile 同步单个文件（从上次同步的内容计算合并后的差异）
    */
-  private async processBatchItem(item: BatchPatchItem): Promise<boolean> {
+  private async syncPendingFile(pending: PendingFileUpdate): Promise<boolean> {
+    const filePath = pending.relativePath;
+
     try {
-      const uri = vscode.Uri.parse(item.uri);
-      const document = await vscode.workspace.openTextDocument(uri);
-      const filePath = vscode.workspace.asRelativePath(uri);
-      
       // 检查是否可以进行增量同步
-      if (!this.fileSyncStateManager.canPerformIncrementalSync(filePath)) {
+      const lastContent = this.fileSyncStateManager.getLastSyncedContent(filePath);
+      if (!this.fileSyncStateManager.canPerformIncrementalSync(filePath) || lastContent === null) {
         this.logger.debug(`⚠️ 文件无法进行增量同步，跳过: ${filePath}`);
         return false;
       }
 
-      // 应用变化并计算新内容
-      const lastContent = this.fileSyncStateManager.getLastSyncedContent(filePath);
-      if (!lastContent) {
-        this.logger.debug(`⚠️ 无法获取上次同步内容，跳过: ${filePath}`);
+      const document = this.findOpenDocument(pending.uri);
+      if (!document) {
+        this.logger.debug(`⚠️ 文档已关闭，跳过: ${filePath}`);
         return false;
       }
 
-      const newContent = this.applyChangesToContent(lastContent, item.changes);
-      
-      // 构建增量同步请求
-      const fileInfo: FileInfo = {
-        path: filePath,
-        content: newContent,
-        sha256: '', // 临时置空，让 API 客户端计算
-        modelVersion: this.fileSyncStateManager.getFileSyncState(filePath)?.modelVersion
-      };
-
-      // 执行增量同步
-      const success = await this.apiClient.syncFile(fileInfo);
-      
-      if (success) {
-        this.logger.debug(`✅ 批处理增量同步成功: ${filePath}`);
-        return true;
-      } else {
-        this.logger.warn(`❌ 批处理增量同步失败: ${filePath}`);
+      const contentGuard = ContentGuard.getInstance();
+      if (contentGuard.isIgnored(document.uri)) {
+        this.logger.debug(`🙈 文件已被 .cometixignore 排除，跳过: ${filePath}`);
         return false;
       }
-    } catch (error) {
-      this.logger.error(`批处理项目处理失败: ${item.uri}`, error as Error);
-      return false;
-    }
-  }
 
-  /**
-   * 应用变化到内容
-   */
-  private applyChangesToContent(
-    originalContent: string,
-    changes: vscode.TextDocumentContentChangeEvent[]
-  ): string {
-    let content = originalContent;
-    
-    // 按范围位置排序，从后往前应用（避免位置偏移）
-    const sortedChanges = changes.sort((a, b) => {
-      const aStart = a.range?.start || new vscode.Position(0, 0);
-      const bStart = b.range?.start || new vscode.Position(0, 0);
-      if (aStart.line !== bStart.line) {
-        return bStart.line - aStart.line;
+      const content = contentGuard.redactContent(filePath, document.getText()).content;
+      if (content === lastContent) {
+        return true;
       }
-      return bStart.character - aStart.character;
-    });
 
-    for (const change of sortedChanges) {
-      if (change.range) {
-        content = this.applyRangeChange(content, change);
+      const workspaceId = WorkspaceManager.getInstance().getWorkspaceId();
+      const response = await this.connectClient.syncFile(
+        { path: filePath, content, sha256: CryptoUtils.calculateSHA256(content) },
+        workspaceId,
+        lastContent
+      );
+
+      if (response.error !== FSSyncErrorType.FS_SYNC_ERROR_TYPE_UNSPECIFIED) {
+        // 服务器端版本不一致：清除状态，下次补全时重新上传
+        this.logger.warn(`❌ 批处理增量同步被拒绝 (错误码=${response.error}): ${filePath}`);
+        this.fileSyncStateManager.removeFileSyncState(filePath);
+        return false;
       }
-    }
-
-    return content;
-  }
 
-  /**
-   * 应用范围变化
-   */
-  private applyRangeChange(
-    content: string,
-    change: vscode.TextDocumentContentChangeEvent
-  ): string {
-    if (!change.range) return content;
-
-    const lines = content.split('\n');
-    const startLine = change.range.start.line;
-    const startChar = change.range.start.character;
-    const endLine = change.range.end.line;
-    const endChar = change.range.end.character;
-
-    // 构建新内容
-    const beforeLines = lines.slice(0, startLine);
-    const afterLines = lines.slice(endLine + 1);
-    
-    let modifiedLine = '';
-    if (startLine < lines.length) {
-      const lineContent = lines[startLine];
-      const beforeRange = lineContent.substring(0, startChar);
-      
-      if (startLine === endLine) {
-        const afterRange = lineContent.substring(endChar);
-        modifiedLine = beforeRange + change.text + afterRange;
-      } else {
-        const lastLineContent = endLine < lines.length ? lines[endLine] : '';
-        const afterRange = lastLineContent.substring(endChar);
-        modifiedLine = beforeRange + change.text + afterRange;
-      }
-    } else {
-      modifiedLine = change.text;
+      this.logger.debug(`✅ 批处理增量同步成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`批处理项目处理失败: ${filePath}`, error as Error);
+      this.fileSyncStateManager.removeFileSyncState(filePath);
+      return false;
     }
-
-    // 合并结果
-    const result = [
-      ...beforeLines,
-      modifiedLine,
-      ...afterLines
-    ].join('\n');
-
-    return result;
   }
 
   /**
-   * 合并变化
+   * 查找已打开的文档（不主动打开文件）
    */
-  private mergeChanges(
-    existing: vscode.TextDocumentContentChangeEvent[],
-    newChanges: vscode.TextDocumentContentChangeEvent[]
-  ): vscode.TextDocumentContentChangeEvent[] {
-    // 简单合并策略：按时间顺序添加
-    // TODO: 可以实现更智能的合并，比如合并连续的插入操作
-    return [...existing, ...newChanges];
+  private findOpenDocument(uri: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(document => document.uri.toString() === uri);
   }
 
   /**
@@ -390,7 +473,7 @@ export class BatchSyncManager {
   /**
    * 按优先级排序
    */
-  private sortByPriority(items: BatchPatchItem[]): BatchPatchItem[] {
+  private sortByPriority(items: PendingFileUpdate[]): PendingFileUpdate[] {
     const priorities = { high: 3, medium: 2, low: 1 };
     return items.sort((a, b) => priorities[b.priority] - priorities[a.priority]);
   }
@@ -402,11 +485,11 @@ export class BatchSyncManager {
     this.stats.totalBatches++;
     this.stats.totalPatches += processedCount;
     this.stats.totalBytes += totalBytes;
-    
+
     if (success) {
       this.stats.successfulBatches++;
     }
-    
+
     // 更新平均延迟（指数移动平均）
     const alpha = 0.2;
     this.stats.averageLatency = alpha * duration + (1 - alpha) * this.stats.averageLatency;
@@ -434,7 +517,7 @@ export class BatchSyncManager {
       clearTimeout(this.flushTimer);
       this.flushTimer = null;
     }
-    this.pendingPatches.clear();
+    this.pendingFiles.clear();
     this.logger.debug('🧹 批处理同步管理器已销毁');
   }
 }
@@ -445,13 +528,13 @@ export class BatchSyncManager {
  */
 let batchSyncManagerInstance: BatchSyncManager | null = null;
 
-export function createBatchSyncManager(apiClient: CursorApiClient, fileSyncStateManager: FileSyncStateManager): BatchSyncManager {
+export function createBatchSyncManager(connectClient: ConnectRpcApiClient): BatchSyncManager {
   if (!batchSyncManagerInstance) {
-    batchSyncManagerInstance = new BatchSyncManager(apiClient, fileSyncStateManager);
+    batchSyncManagerInstance = new BatchSyncManager(connectClient);
   }
   return batchSyncManagerInstance;
 }
 
 export function getBatchSyncManager(): BatchSyncManager | null {
   return batchSyncManagerInstance;
-}
\ No newline at end of file
+}
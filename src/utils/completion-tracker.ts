@@ -14,8 +14,9 @@ export enum CompletionStatus {
 /**
  * 补全跟踪信息
  */
-interface CompletionTrackingInfo {
+export interface CompletionTrackingInfo {
   id: string;
+  bindingId?: string; // 服务端返回的绑定ID，用于上报补全结果
   uri: string;
   position: vscode.Position;
   text: string;
@@ -46,6 +47,12 @@ export class CompletionTracker {
   private documentChangeListener: vscode.Disposable | null = null;
   private selectionChangeListener: vscode.Disposable | null = null;
   
+  // 生命周期事件（支持多个监听者）
+  private readonly acceptedEmitter = new vscode.EventEmitter<CompletionTrackingInfo>();
+  private readonly dismissedEmitter = new vscode.EventEmitter<CompletionTrackingInfo>();
+  readonly onDidAcceptCompletion = this.acceptedEmitter.event;
+  readonly onDidDismissCompletion = this.dismissedEmitter.event;
+  
   // 配置参数
   private readonly ACCEPTANCE_TIMEOUT = 10000; // 10秒后补全过期
   private readonly MIN_ACCEPTANCE_MATCH_RATIO = 0.8; // 至少80%的内容匹配才视为接受
@@ -79,7 +86,8 @@ export class CompletionTracker {
   trackCompletion(
     document: vscode.TextDocument,
     position: vscode.Position,
-    completionItem: vscode.InlineCompletionItem
+    completionItem: vscode.InlineCompletionItem,
+    bindingId?: string
   ): string {
     const id = this.generateCompletionId();
     const uri = document.uri.toString();
@@ -112,6 +120,7 @@ export class CompletionTracker {
     
     const trackingInfo: CompletionTrackingInfo = {
       id,
+      bindingId,
       uri,
       position,
       text: insertText,
@@ -348,7 +357,7 @@ export class CompletionTracker {
     this.logger.info(`✅ 补全被接受: ${id}, 响应时间: ${responseTime}ms`);
     
     // 触发接受事件（可以被其他组件监听）
-    this.onCompletionAccepted?.(completion);
+    this.acceptedEmitter.fire(completion);
   }
   
   /**
@@ -365,7 +374,7 @@ export class CompletionTracker {
     this.logger.debug(`❌ 补全被忽略: ${id}, 生存时间: ${lifetime}ms`);
     
     // 触发忽略事件
-    this.onCompletionDismissed?.(completion);
+    this.dismissedEmitter.fire(completion);
   }
   
   /**
@@ -429,18 +438,14 @@ export class CompletionTracker {
     };
   }
   
-  /**
-   * 事件回调
-   */
-  onCompletionAccepted?: (completion: CompletionTrackingInfo) => void;
-  onCompletionDismissed?: (completion: CompletionTrackingInfo) => void;
-  
   /**
    * 销毁跟踪器
    */
   dispose(): void {
     this.documentChangeListener?.dispose();
     this.selectionChangeListener?.dispose();
+    this.acceptedEmitter.dispose();
+    this.dismissedEmitter.dispose();
     this.activeCompletions.clear();
     
     this.logger.debug('🧹 补全跟踪器已销毁');
@@ -1,5 +1,29 @@
 import * as vscode from 'vscode';
-import type { CursorConfig } from '../types';
+import type { CursorConfig, FileSyncPolicy } from '../types';
+
+/**
+ * 服务器未下发 FSConfig 时使用的文件同步策略
+ */
+export const DEFAULT_FILE_SYNC_POLICY: FileSyncPolicy = {
+  enabled: true,
+  maxFileSizeBytes: 1024 * 1024,
+  batchSizeLimitBytes: 1024 * 8,
+  flushIntervalMs: 500,
+  maxBatchItems: 10
+};
+
+/**
+ * 默认的启用规则：不对密钥文件、依赖目录以及压缩/生成的代码进行补全和同步
+ */
+export const DEFAULT_ENABLEMENT_RULES: string[] = [
+  '!.env',
+  '!.env.*',
+  '!*.pem',
+  '!*.key',
+  '!**/node_modules/**',
+  '!*.min.js',
+  '!**/*.generated.*'
+];
 
 export interface ConfigValidationResult {
   isValid: boolean;
@@ -9,6 +33,8 @@ export interface ConfigValidationResult {
 
 export class ConfigManager {
   private static readonly CONFIG_SECTION = 'cometixTab';
+  private static serverFileSyncPolicy: Partial<FileSyncPolicy> = {}; // 服务器下发的文件同步策略，仅保存在内存中
+  private static serverConfig: Partial<CursorConfig> = {}; // CppConfig 下发的设置，仅保存在内存中
   
   static getConfig(): CursorConfig {
     const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
@@ -16,6 +42,7 @@ export class ConfigManager {
     return {
       enabled: config.get('enabled', true),
       serverUrl: config.get('serverUrl', 'https://api2.cursor.sh'),
+      endpointType: config.get('endpointType', 'official'),
       authToken: config.get('authToken', ''),
       clientKey: config.get('clientKey', ''),
       gcppHost: config.get('gcppHost', 'US'),
@@ -29,10 +56,63 @@ export class ConfigManager {
         newLineHighConfidence: true,
         lineEndHighConfidence: true,
         customTriggerChars: []
-      })
+      }),
+      enableCursorPrediction: config.get('enableCursorPrediction', true),
+      enableImportPrediction: config.get('enableImportPrediction', false),
+      linterDiagnosticsRadius: config.get('linterDiagnosticsRadius', 20),
+      lspContextTokenBudget: config.get('lspContextTokenBudget', 1500),
+      enabledHeuristics: this.getWithServerValue(config, 'enabledHeuristics', []),
+      recentlyRejectedEditThresholds: this.getWithServerValue(config, 'recentlyRejectedEditThresholds', {
+        hardRejectThreshold: 4,
+        softRejectThreshold: 2
+      }),
+      maxClearedSuggestionsSinceLastAccept: this.getWithServerValue(config, 'maxClearedSuggestionsSinceLastAccept', 10),
+      fileSyncPolicy: this.getFileSyncPolicy(config),
+      recordCompletionSessions: config.get('recordCompletionSessions', false),
+      enablementRules: config.get('enablementRules', DEFAULT_ENABLEMENT_RULES),
+      enableCursorRules: config.get('enableCursorRules', true),
+      bm25TopChunks: config.get('bm25TopChunks', 6),
+      contextTokenBudget: config.get('contextTokenBudget', 16000)
     };
   }
   
+  /**
+   * 设置 CppConfig 下发的值，不写入用户设置；用户显式设置的值仍然优先
+   */
+  static setServerConfig(values: Partial<CursorConfig>): void {
+    this.serverConfig = { ...this.serverConfig, ...values };
+  }
+
+  /**
+   * 用户显式设置的值 < 服务器下发的值 < 默认值，按此顺序取第一个存在的
+   */
+  private static getWithServerValue<K extends keyof CursorConfig>(config: vscode.WorkspaceConfiguration, key: K, defaultValue: CursorConfig[K]): CursorConfig[K] {
+    const inspected = config.inspect<CursorConfig[K]>(key);
+    return inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue ??
+      (this.serverConfig[key] as CursorConfig[K] | undefined) ?? defaultValue;
+  }
+
+  /**
+   * 设置服务器下发的文件同步策略，不写入用户设置
+   */
+  static setServerFileSyncPolicy(policy: Partial<FileSyncPolicy>): void {
+    this.serverFileSyncPolicy = policy;
+  }
+
+  /**
+   * 文件同步策略：默认值 < 服务器策略 < 用户显式设置的字段
+   */
+  private static getFileSyncPolicy(config: vscode.WorkspaceConfiguration): FileSyncPolicy {
+    const inspected = config.inspect<Partial<FileSyncPolicy>>('fileSyncPolicy');
+    return {
+      ...DEFAULT_FILE_SYNC_POLICY,
+      ...this.serverFileSyncPolicy,
+      ...inspected?.globalValue,
+      ...inspected?.workspaceValue,
+      ...inspected?.workspaceFolderValue
+    };
+  }
+
   static async updateConfig(key: keyof CursorConfig, value: any): Promise<void> {
     const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
     await config.update(key, value, vscode.ConfigurationTarget.Global);
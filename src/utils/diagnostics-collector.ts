@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import {
+  CursorPosition,
+  CursorRange,
+  Diagnostic,
+  Diagnostic_DiagnosticSeverity,
+  Diagnostic_RelatedInformation,
+  LinterError,
+  LinterErrors
+} from '../generated/cpp_pb';
+
+/**
+ * 单次请求最多携带的诊断数量，避免请求体过大
+ */
+const MAX_DIAGNOSTICS = 20;
+
+/**
+ * 将 VSCode 诊断级别映射为 protobuf 诊断级别
+ */
+export function mapDiagnosticSeverity(severity: vscode.DiagnosticSeverity): Diagnostic_DiagnosticSeverity {
+  switch (severity) {
+    case vscode.DiagnosticSeverity.Error:
+      return Diagnostic_DiagnosticSeverity.ERROR;
+    case vscode.DiagnosticSeverity.Warning:
+      return Diagnostic_DiagnosticSeverity.WARNING;
+    case vscode.DiagnosticSeverity.Information:
+      return Diagnostic_DiagnosticSeverity.INFORMATION;
+    case vscode.DiagnosticSeverity.Hint:
+      return Diagnostic_DiagnosticSeverity.HINT;
+    default:
+      return Diagnostic_DiagnosticSeverity.UNSPECIFIED;
+  }
+}
+
+/**
+ * 筛选光标附近的诊断：按严重程度、再按与光标的距离排序
+ * radius 为光标上下的行数，0 表示不收集
+ */
+export function filterNearbyDiagnostics(
+  diagnostics: readonly vscode.Diagnostic[],
+  cursorLine: number,
+  radius: number,
+  maxCount: number = MAX_DIAGNOSTICS
+): vscode.Diagnostic[] {
+  if (radius <= 0) {
+    return [];
+  }
+
+  const distanceTo = (diagnostic: vscode.Diagnostic): number => {
+    if (cursorLine < diagnostic.range.start.line) {
+      return diagnostic.range.start.line - cursorLine;
+    }
+    if (cursorLine > diagnostic.range.end.line) {
+      return cursorLine - diagnostic.range.end.line;
+    }
+    return 0;
+  };
+
+  return diagnostics
+    .filter(diagnostic => distanceTo(diagnostic) <= radius)
+    .sort((a, b) => a.severity - b.severity || distanceTo(a) - distanceTo(b))
+    .slice(0, maxCount);
+}
+
+/**
+ * 收集文档中光标附近的诊断（来自 vscode.languages.getDiagnostics）
+ */
+export function collectNearbyDiagnostics(uri: vscode.Uri, cursorLine: number, radius: number): vscode.Diagnostic[] {
+  return filterNearbyDiagnostics(vscode.languages.getDiagnostics(uri), cursorLine, radius);
+}
+
+function toCursorRange(range: vscode.Range): CursorRange {
+  return new CursorRange({
+    startPosition: new CursorPosition({ line: range.start.line, column: range.start.character }),
+    endPosition: new CursorPosition({ line: range.end.line, column: range.end.character })
+  });
+}
+
+function toRelatedInformation(diagnostic: vscode.Diagnostic): Diagnostic_RelatedInformation[] {
+  return (diagnostic.relatedInformation || []).map(info => new Diagnostic_RelatedInformation({
+    message: info.message,
+    range: toCursorRange(info.location.range)
+  }));
+}
+
+/**
+ * 转换为 CurrentFileInfo.diagnostics 使用的 Diagnostic
+ */
+export function toProtoDiagnostic(diagnostic: vscode.Diagnostic): Diagnostic {
+  return new Diagnostic({
+    message: diagnostic.message,
+    range: toCursorRange(diagnostic.range),
+    severity: mapDiagnosticSeverity(diagnostic.severity),
+    relatedInformation: toRelatedInformation(diagnostic)
+  });
+}
+
+/**
+ * 转换为 StreamCppRequest.linterErrors 使用的 LinterErrors
+ */
+export function toLinterErrors(relativePath: string, diagnostics: vscode.Diagnostic[], fileContents?: string): LinterErrors {
+  return new LinterErrors({
+    relativeWorkspacePath: relativePath,
+    fileContents: fileContents || '',
+    errors: diagnostics.map(diagnostic => new LinterError({
+      message: diagnostic.message,
+      range: toCursorRange(diagnostic.range),
+      source: diagnostic.source,
+      severity: mapDiagnosticSeverity(diagnostic.severity),
+      relatedInformation: toRelatedInformation(diagnostic)
+    }))
+  });
+}
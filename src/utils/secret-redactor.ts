@@ -0,0 +1,102 @@
+/**
+ * 敏感信息脱敏
+ *
+ * 识别常见的密钥格式（云服务/平台 API Key、私钥、JWT、Bearer 令牌、
+ * 以及 password/secret/token 等赋值），替换为占位符
+ */
+
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+// 保持布局时的等长占位符：长值为 [REDACTED]***，短值为 [****]
+const REDACTED_PATTERN = /\[REDACTED\]\**|\[\*{6,8}\]/;
+
+interface SecretPattern {
+  name: string;
+  pattern: RegExp;
+  // 指定时第 1 组为保留的上下文（键名等），只替换第 2 组的值；未指定时替换整个匹配
+  group?: 2;
+}
+
+// 名称中包含这些词的键通常保存敏感值
+const SECRET_KEY_NAME = '[A-Za-z0-9_.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret)[A-Za-z0-9_.-]*';
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g },
+  { name: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+  { name: 'bearer-token', pattern: /(\bBearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/g, group: 2 },
+  // 代码中的字符串字面量赋值：apiKey: "..."、PASSWORD = '...'
+  { name: 'assignment', pattern: new RegExp(`(\\b${SECRET_KEY_NAME}["']?\\s*[:=]\\s*["'\`])([^"'\`\\s]{8,})(?=["'\`])`, 'gi'), group: 2 },
+  // .env / ini / yaml 中整行的键值：API_KEY=...（值中不含括号、分号，避免误伤函数调用）
+  { name: 'env-assignment', pattern: new RegExp(`(^[ \\t]*(?:export[ \\t]+)?${SECRET_KEY_NAME}[ \\t]*[:=][ \\t]*)([^\\s"'#();]{8,})[ \\t]*$`, 'gim'), group: 2 }
+];
+
+/**
+ * 脱敏结果
+ */
+export interface RedactionResult {
+  text: string;
+  redactions: number;
+  kinds: string[]; // 命中的密钥类型（去重）
+}
+
+/**
+ * 文本中是否包含脱敏占位符（包括保持布局时的等长占位符）
+ */
+export function containsRedaction(text: string): boolean {
+  return REDACTED_PATTERN.test(text);
+}
+
+/**
+ * 生成与原值等长的占位符，保留换行，使行号和列号都不变
+ */
+function layoutPreservingPlaceholder(value: string): string {
+  return value.split(/(\r?\n)/).map((segment, index) => {
+    if (index % 2 === 1 || segment.length === 0) {
+      return segment; // 换行符
+    }
+    return segment.length >= REDACTED_PLACEHOLDER.length
+      ? REDACTED_PLACEHOLDER + '*'.repeat(segment.length - REDACTED_PLACEHOLDER.length)
+      : segment.length >= 2 ? `[${'*'.repeat(segment.length - 2)}]` : '*'.repeat(segment.length);
+  }).join('');
+}
+
+/**
+ * 替换文本中的敏感信息
+ *
+ * @param knownSecrets 额外需要替换的已知值（例如配置的 authToken）
+ * @param preserveLines 使用与原值等长的占位符并保留换行，使行号和列号都不变（用于光标所在的文件）
+ */
+export function redactSecrets(text: string, knownSecrets: string[] = [], preserveLines: boolean = false): RedactionResult {
+  let redacted = text;
+  let redactions = 0;
+  const kinds = new Set<string>();
+
+  for (const secret of knownSecrets) {
+    if (secret && secret.length >= 8 && redacted.includes(secret)) {
+      const parts = redacted.split(secret);
+      redactions += parts.length - 1;
+      redacted = parts.join(preserveLines ? layoutPreservingPlaceholder(secret) : REDACTED_PLACEHOLDER);
+      kinds.add('configured-secret');
+    }
+  }
+
+  for (const { name, pattern, group } of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const value = group !== undefined ? groups[group - 1] as string : match;
+      if (value.startsWith(REDACTED_PLACEHOLDER) || /^\[\*+\]$/.test(value)) {
+        return match;
+      }
+      redactions++;
+      kinds.add(name);
+      const placeholder = preserveLines ? layoutPreservingPlaceholder(value) : REDACTED_PLACEHOLDER;
+      return group !== undefined ? `${groups[0] as string}${placeholder}` : placeholder;
+    });
+  }
+
+  return { text: redacted, redactions, kinds: Array.from(kinds) };
+}
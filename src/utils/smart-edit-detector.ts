@@ -359,7 +359,7 @@ export class SmartEditDetector {
       }
 
       // 需要通过 URI 获取文档
-      const uriString = Object.keys(this.editStates).find(uri => this.editStates.get(uri) === state);
+      const uriString = Array.from(this.editStates.keys()).find(uri => this.editStates.get(uri) === state);
       if (uriString) {
         try {
           const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uriString));